@@ -8,6 +8,9 @@ import Home from "./pages/Home";
 import Dashboard from "./pages/Dashboard";
 import Analysis from "./pages/Analysis";
 import Upload from "./pages/Upload";
+import MappingProfiles from "./pages/MappingProfiles";
+import DataQuality from "./pages/DataQuality";
+import Scenarios from "./pages/Scenarios";
 
 function Router() {
   return (
@@ -16,6 +19,9 @@ function Router() {
       <Route path={"/dashboard"} component={Dashboard} />
       <Route path={"/upload"} component={Upload} />
       <Route path={"/analysis/:uploadId"} component={Analysis} />
+      <Route path={"/quality/:uploadId"} component={DataQuality} />
+      <Route path={"/mapping-profiles"} component={MappingProfiles} />
+      <Route path={"/scenarios"} component={Scenarios} />
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,46 @@
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+
+const STAGE_LABELS: Record<string, string> = {
+  parse: "Parsing workbook",
+  companies: "Inserting companies",
+  time_series: "Inserting time series",
+  terciles: "Computing terciles",
+  carbon_price: "Warming carbon price cache",
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Progress bar for an upload that is still processing.
+ * Polls data.getUploadProgress until the upload completes or fails.
+ */
+export function UploadProgress({ uploadId }: { uploadId: number }) {
+  const { data: progress } = trpc.data.getUploadProgress.useQuery(
+    { uploadId },
+    {
+      refetchInterval: (query) =>
+        query.state.data && query.state.data.status !== "processing" ? false : POLL_INTERVAL_MS,
+    }
+  );
+
+  if (!progress) return null;
+
+  const stageLabel = progress.stage ? STAGE_LABELS[progress.stage] : "Queued";
+  const showRows = progress.stage !== "parse" && progress.rowsTotal != null && progress.rowsTotal > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-slate-700">{stageLabel}</span>
+        <span className="font-medium text-slate-900">{progress.percent.toFixed(0)}%</span>
+      </div>
+      <Progress value={progress.percent} />
+      {showRows && (
+        <p className="text-xs text-slate-500">
+          {(progress.rowsDone ?? 0).toLocaleString()} / {progress.rowsTotal!.toLocaleString()} rows
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { AppRouter } from "../../../server/routers";
+import type { inferRouterOutputs } from "@trpc/server";
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+
+type ValidationReport = inferRouterOutputs<AppRouter>["data"]["validateWorkbook"];
+
+const MAX_LISTED_ITEMS = 20;
+
+function IssueSection({
+  title,
+  description,
+  items,
+  severity = "warning",
+}: {
+  title: string;
+  description: string;
+  items: string[];
+  severity?: "error" | "warning";
+}) {
+  const ok = items.length === 0;
+  const Icon = ok ? CheckCircle2 : severity === "error" ? XCircle : AlertTriangle;
+  const color = ok ? "text-green-600" : severity === "error" ? "text-red-600" : "text-amber-600";
+
+  return (
+    <div className="flex items-start gap-3">
+      <Icon className={`h-5 w-5 mt-0.5 ${color}`} />
+      <div className="flex-1">
+        <p className="font-medium">
+          {title} <span className="text-slate-500 font-normal">({items.length})</span>
+        </p>
+        <p className="text-sm text-slate-600">{description}</p>
+        {!ok && (
+          <p className="text-xs text-slate-500 mt-1 break-words">
+            {items.slice(0, MAX_LISTED_ITEMS).join(", ")}
+            {items.length > MAX_LISTED_ITEMS && ` … and ${items.length - MAX_LISTED_ITEMS} more`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Renders the result of data.validateWorkbook before the user commits an upload
+ */
+export function WorkbookValidationReport({ report }: { report: ValidationReport }) {
+  const formatDate = (d: Date | string) => new Date(d).toISOString().split("T")[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Validation Report</CardTitle>
+        <CardDescription>
+          {report.canIngest
+            ? "The workbook can be ingested. Review the warnings below before committing."
+            : "Required sheets are missing. Fix the workbook and upload it again."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <IssueSection
+          title="Missing sheets"
+          description="Required sheets not found in the workbook"
+          items={report.missingSheets}
+          severity="error"
+        />
+        <IssueSection
+          title="Extra sheets"
+          description="Sheets that will be ignored"
+          items={report.extraSheets}
+        />
+        <IssueSection
+          title="Unmatched company names"
+          description="RI columns with no matching NAME on the Descriptive sheet (dropped)"
+          items={report.unmatchedCompanyNames}
+        />
+        <IssueSection
+          title="ISINs without a PE column"
+          description="Companies that will have no P/E data"
+          items={report.isinsWithoutPeColumn}
+        />
+        <IssueSection
+          title="Dates without profit data"
+          description="RI dates with no Profit row within 30 days"
+          items={report.profitDatesOutsideWindow.map(p =>
+            p.gapDays !== null ? `${formatDate(p.date)} (${p.gapDays}d)` : formatDate(p.date)
+          )}
+        />
+        <IssueSection
+          title="Invalid ISIN checksums"
+          description="ISINs on the Descriptive sheet that fail the check digit"
+          items={report.invalidIsins.map(i => (i.name ? `${i.isin} (${i.name})` : i.isin))}
+        />
+
+        <div>
+          <p className="font-medium mb-2">Null rates by sheet</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            {report.sheetNullRates.map(rate => (
+              <div key={rate.sheet} className="p-2 bg-slate-50 rounded">
+                <p className="text-slate-600">{rate.sheet}</p>
+                <p className="font-semibold text-slate-900">{(rate.nullRate * 100).toFixed(1)}%</p>
+                <p className="text-xs text-slate-500">{rate.rows} rows × {rate.columns} cols</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,15 +2,59 @@ import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { trpc } from "@/lib/trpc";
-import { Loader2, Download, TrendingUp, BarChart3, ArrowLeft } from "lucide-react";
+import { Loader2, Download, TrendingUp, BarChart3, ArrowLeft, Plus, X } from "lucide-react";
 import { Link, useParams } from "wouter";
 import { useState } from "react";
 import { toast } from "sonner";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { DEFAULT_SCENARIO_CURVE, DEFAULT_SCENARIO_NAME } from "@shared/scenarios";
+import { DEFAULT_INTENSITY_DENOMINATOR, INTENSITY_DENOMINATOR_LABELS, type IntensityDenominator } from "@shared/intensity";
+import { describeComposite, MAX_COMPOSITE_METRICS, type SolutionsComposite } from "@shared/solutionsMetrics";
+import { DEFAULT_DCF_PARAMETERS, type DcfParameters } from "@shared/dcf";
+import { bucketLabel, DEFAULT_QUANTILE_BUCKETS, QUANTILE_COUNTS, QUANTILE_NAMES, type QuantileBuckets, type QuantileCount } from "@shared/quantiles";
+import { LineChart, Line, Area, Bar, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+
+type BootstrapSettings = {
+  iterations: number;
+  confidenceLevel: number;
+  strata: 'tercile' | 'sector';
+};
+
+const WEIGHTING_LABELS: Record<string, string> = {
+  equal: 'Equal weight',
+  market_cap: 'Market-cap weight',
+  sqrt_market_cap: 'Square-root market-cap weight',
+  aggregate: 'Aggregate (total market cap / total net profit)',
+};
+
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+const INVESTMENT_TYPE_LABELS = {
+  low_carbon: 'Low Carbon',
+  decarbonizing: 'Decarbonizing',
+  solutions: 'Solutions',
+  credible_decarbonizers: 'Credible Decarbonizers',
+} as const;
+
+type InvestmentType = keyof typeof INVESTMENT_TYPE_LABELS;
+
+// Sliders for the DCF methodology; bump is what each sensitivity measures
+const DCF_INPUTS: Array<{ key: keyof DcfParameters; label: string; min: number; max: number; step: number; format: (v: number) => string; bump: string }> = [
+  { key: 'discountRate', label: 'Discount rate', min: 0.02, max: 0.15, step: 0.005, format: percent, bump: '+1pp' },
+  { key: 'horizon', label: 'Horizon', min: 5, max: 50, step: 1, format: v => `${v} years`, bump: '+1 year' },
+  { key: 'startDelay', label: 'Start delay', min: 0, max: 15, step: 1, format: v => `${v} years`, bump: '+1 year' },
+  { key: 'priceGrowthRate', label: 'Carbon price growth', min: 0, max: 0.1, step: 0.005, format: percent, bump: '+1pp' },
+  { key: 'passThrough', label: 'Pass-through to customers', min: 0, max: 0.9, step: 0.05, format: percent, bump: '+10pp' },
+];
+
+// Range values ([lower, upper]) come from the shaded bootstrap bands
+const formatRange = (value: number | number[], format: (v: number) => string) =>
+  Array.isArray(value) ? `${format(value[0])} – ${format(value[1])}` : format(value);
 
 export default function Analysis() {
   const { uploadId } = useParams<{ uploadId: string }>();
@@ -20,23 +64,45 @@ export default function Analysis() {
   
   const [parameters, setParameters] = useState({
     includeScope3: false,
-    methodology: 'relative' as 'relative' | 'dcf',
+    methodology: 'relative' as 'relative' | 'dcf' | 'regression',
+    regressionDependent: 'log_pe' as 'log_pe' | 'earnings_yield',
     sectorGranularity: 'sector' as 'sector' | 'industry',
     thresholds: {
       tertileApproach: true,
+      lowCarbonPercentile: 25,
+      decarbonizingTarget: -0.5,
+      solutionsScore: 2,
+      solutionsCompositeScore: 2,
     },
     winsorize: true,
     winsorizePercentile: 5,
+    weighting: 'equal' as 'equal' | 'market_cap' | 'sqrt_market_cap' | 'aggregate',
+    buckets: DEFAULT_QUANTILE_BUCKETS as QuantileBuckets,
+    intensityDenominator: DEFAULT_INTENSITY_DENOMINATOR as IntensityDenominator,
+    solutionsComposite: [] as SolutionsComposite,
+    scenarioId: null as number | null,
+    dcf: DEFAULT_DCF_PARAMETERS,
+    includeEstimatedEmissions: true,
   });
+  const lowBucketLabel = bucketLabel(parameters.buckets.lowBucket, parameters.buckets.count);
+  const highBucketLabel = bucketLabel(parameters.buckets.highBucket, parameters.buckets.count);
   
   const [filters, setFilters] = useState({
-    investmentType: 'all' as 'all' | 'low_carbon' | 'decarbonizing' | 'solutions',
+    investmentType: 'all' as 'all' | 'low_carbon' | 'decarbonizing' | 'solutions' | 'credible_decarbonizers',
     geography: 'all',
     sector: 'all',
   });
 
   const [tercileMethod, setTercileMethod] = useState<'absolute' | 'sector_relative'>('sector_relative');
 
+  const [bootstrapEnabled, setBootstrapEnabled] = useState(false);
+  const [bootstrapSettings, setBootstrapSettings] = useState<BootstrapSettings>({
+    iterations: 200,
+    confidenceLevel: 95,
+    strata: 'tercile',
+  });
+  const bootstrap = bootstrapEnabled ? bootstrapSettings : null;
+
   const uploadIdNum = parseInt(uploadId || '0');
 
   const { data: uploadStatus, isLoading: loadingStatus } = trpc.data.getUploadStatus.useQuery(
@@ -44,9 +110,20 @@ export default function Analysis() {
     { enabled: !!uploadId && isAuthenticated }
   );
 
-  const { data: dimensions } = trpc.analysis.getDimensions.useQuery(undefined, {
-    enabled: isAuthenticated,
-  });
+  const { data: dimensions } = trpc.analysis.getDimensions.useQuery(
+    { uploadId: uploadIdNum },
+    { enabled: !!uploadId && isAuthenticated }
+  );
+
+  const { data: metricKeys } = trpc.analysis.getMetricKeys.useQuery(
+    { uploadId: uploadIdNum },
+    { enabled: !!uploadId && isAuthenticated }
+  );
+  const setSolutionsComposite = (update: (composite: SolutionsComposite) => SolutionsComposite) =>
+    setParameters(prev => ({ ...prev, solutionsComposite: update(prev.solutionsComposite) }));
+  const unusedMetricKeys = (metricKeys ?? [])
+    .map(m => m.metricKey)
+    .filter(key => !parameters.solutionsComposite.some(c => c.metric === key));
 
   const tercileQuery = trpc.analysis.getPETercileComparison.useQuery(
     {
@@ -55,6 +132,10 @@ export default function Analysis() {
       includeScope3: parameters.includeScope3,
       winsorize: parameters.winsorize,
       winsorizePercentile: parameters.winsorizePercentile,
+      weighting: parameters.weighting,
+      buckets: parameters.buckets,
+      intensityDenominator: parameters.intensityDenominator,
+      includeEstimatedEmissions: parameters.includeEstimatedEmissions,
     },
     { enabled: !!uploadId && isAuthenticated && uploadStatus?.status === 'completed' }
   );
@@ -65,10 +146,78 @@ export default function Analysis() {
       method: tercileMethod,
       winsorize: parameters.winsorize,
       winsorizePercentile: parameters.winsorizePercentile,
+      includeEstimatedEmissions: parameters.includeEstimatedEmissions,
+      bootstrap,
+      buckets: parameters.buckets,
+      intensityDenominator: parameters.intensityDenominator,
+    },
+    { enabled: !!uploadId && isAuthenticated && uploadStatus?.status === 'completed' }
+  );
+
+  const [backtestSettings, setBacktestSettings] = useState({
+    rebalance: 'monthly' as 'monthly' | 'quarterly',
+    weighting: 'equal' as 'equal' | 'market_cap',
+  });
+  const backtestQuery = trpc.analysis.backtest.useQuery(
+    {
+      uploadId: uploadIdNum,
+      method: tercileMethod,
+      includeScope3: parameters.includeScope3,
+      includeEstimatedEmissions: parameters.includeEstimatedEmissions,
+      buckets: parameters.buckets,
+      intensityDenominator: parameters.intensityDenominator,
+      ...backtestSettings,
+    },
+    { enabled: !!uploadId && isAuthenticated && uploadStatus?.status === 'completed' }
+  );
+
+  const [premiumSectorEffects, setPremiumSectorEffects] = useState(true);
+  const carbonPremiumQuery = trpc.analysis.getCarbonPremium.useQuery(
+    {
+      uploadId: uploadIdNum,
+      includeScope3: parameters.includeScope3,
+      includeEstimatedEmissions: parameters.includeEstimatedEmissions,
+      sectorFixedEffects: premiumSectorEffects,
     },
     { enabled: !!uploadId && isAuthenticated && uploadStatus?.status === 'completed' }
   );
 
+  const [realisedSettings, setRealisedSettings] = useState({
+    window: 5 as 3 | 5,
+    measure: 'trend' as 'cagr' | 'trend',
+    investmentType: 'low_carbon' as InvestmentType,
+  });
+  const realisedQuery = trpc.analysis.getRealisedDecarbonization.useQuery(
+    {
+      uploadId: uploadIdNum,
+      includeScope3: parameters.includeScope3,
+      includeEstimatedEmissions: parameters.includeEstimatedEmissions,
+      sectorGranularity: parameters.sectorGranularity,
+      thresholds: parameters.thresholds,
+      buckets: parameters.buckets,
+      intensityDenominator: parameters.intensityDenominator,
+      solutionsComposite: parameters.solutionsComposite,
+    },
+    { enabled: !!uploadId && isAuthenticated && uploadStatus?.status === 'completed' }
+  );
+  const credibilityQuery = trpc.analysis.getTargetCredibility.useQuery(
+    { uploadId: uploadIdNum },
+    { enabled: !!uploadId && isAuthenticated && uploadStatus?.status === 'completed' }
+  );
+  const offTrackCompanies = (credibilityQuery.data ?? []).filter(c => c.offTrack);
+
+  const { data: scenarios } = trpc.scenarios.list.useQuery();
+
+  const applyScenarioMutation = trpc.analysis.applyScenario.useMutation({
+    onSuccess: ({ resultsCount }) => {
+      toast.success(`Decarbonization rates recomputed for ${resultsCount} results`);
+      resultsQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(`Recompute failed: ${error.message}`);
+    },
+  });
+
   const analyzeMutation = trpc.analysis.analyze.useMutation({
     onSuccess: () => {
       toast.success("Analysis completed successfully!");
@@ -100,7 +249,7 @@ export default function Analysis() {
   const handleRunAnalysis = () => {
     analyzeMutation.mutate({
       uploadId: uploadIdNum,
-      parameters,
+      parameters: { ...parameters, bootstrap: bootstrap ?? undefined },
     });
   };
 
@@ -127,6 +276,9 @@ export default function Analysis() {
           date: new Date(r.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' }),
           investmentType: r.investmentType,
           impliedDecarbRate: (r.impliedDecarbRate || 0) * 100,
+          band: r.impliedDecarbRateLower != null && r.impliedDecarbRateUpper != null
+            ? [r.impliedDecarbRateLower * 100, r.impliedDecarbRateUpper * 100]
+            : undefined,
         }))
     : [];
 
@@ -140,9 +292,76 @@ export default function Analysis() {
     if (item.investmentType === 'low_carbon') entry['Low Carbon'] = item.impliedDecarbRate;
     if (item.investmentType === 'decarbonizing') entry['Decarbonizing'] = item.impliedDecarbRate;
     if (item.investmentType === 'solutions') entry['Solutions'] = item.impliedDecarbRate;
+    if (item.investmentType === 'credible_decarbonizers') entry['Credible Decarbonizers'] = item.impliedDecarbRate;
+    if (item.band) {
+      if (item.investmentType === 'low_carbon') entry['Low Carbon band'] = item.band;
+      if (item.investmentType === 'decarbonizing') entry['Decarbonizing band'] = item.band;
+      if (item.investmentType === 'solutions') entry['Solutions band'] = item.band;
+      if (item.investmentType === 'credible_decarbonizers') entry['Credible Decarbonizers band'] = item.band;
+    }
   }
   const finalChartData = Array.from(dateMap.values());
 
+  // Curve behind the stored rates (results record the scenario id; null = built-in)
+  const storedScenarioId = resultsQuery.data?.[0]?.scenarioId ?? null;
+  const storedScenario = storedScenarioId !== null ? scenarios?.find(s => s.id === storedScenarioId) : undefined;
+  const storedScenarioCurve = storedScenario?.curve ?? DEFAULT_SCENARIO_CURVE;
+
+  // Mean DCF sensitivities over the aggregate results
+  const storedDcfParameters = resultsQuery.data?.[0]?.dcfParameters ?? null;
+  const dcfSensitivityRows = (resultsQuery.data ?? [])
+    .filter(r => !r.geography && !r.sector && r.dcfSensitivities)
+    .map(r => r.dcfSensitivities!);
+  const meanDcfSensitivity = (key: keyof DcfParameters) =>
+    dcfSensitivityRows.reduce((sum, row) => sum + row[key], 0) / dcfSensitivityRows.length;
+  const hasDecarbBands = chartData.some(item => item.band);
+  const hasCarbonPriceBands = !!carbonPriceQuery.data?.some(d => d.impliedCarbonPriceLower != null);
+
+  const formatMonth = (date: Date | string) => new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
+  const backtestChartData = (backtestQuery.data?.periods ?? []).map(p => ({
+    date: formatMonth(p.date),
+    cumulativeReturn: p.cumulativeReturn * 100,
+    drawdown: p.drawdown * 100,
+  }));
+  const rollingChartData = (backtestQuery.data?.rolling ?? []).map(r => ({
+    date: formatMonth(r.date),
+    annualizedReturn: r.annualizedReturn * 100,
+    annualizedVolatility: r.annualizedVolatility * 100,
+    sharpeRatio: r.sharpeRatio,
+  }));
+
+  // Return premium per formation date next to the total-based implied price for the same date
+  const impliedPriceByDate = new Map((carbonPriceQuery.data ?? []).map(d => [new Date(d.date).getTime(), d.impliedCarbonPrice]));
+  const premiumChartData = (carbonPremiumQuery.data?.periods ?? []).map(p => ({
+    date: formatMonth(p.date),
+    premium: p.premium * 100,
+    carbonPrice: impliedPriceByDate.get(new Date(p.date).getTime()) ?? null,
+  }));
+
+  // Realised reduction rates for the chosen window next to the stored implied rate for the same date
+  const realisedRows = (realisedQuery.data ?? []).filter(r => r.window === realisedSettings.window);
+  const impliedRateByDate = new Map(
+    (resultsQuery.data ?? [])
+      .filter(r => !r.geography && !r.sector && r.investmentType === realisedSettings.investmentType && r.impliedDecarbRate != null)
+      .map(r => [new Date(r.date).getTime(), r.impliedDecarbRate! * 100])
+  );
+  const allCompaniesRateByDate = new Map(
+    realisedRows.filter(r => r.groupBy === 'all').map(r => [new Date(r.date).getTime(), r[realisedSettings.measure] * 100])
+  );
+  const realisedChartData = realisedRows
+    .filter(r => r.groupBy === 'investment_type' && r.group === realisedSettings.investmentType)
+    .map(r => ({
+      date: new Date(r.date).getUTCFullYear().toString(),
+      realised: r[realisedSettings.measure] * 100,
+      allCompanies: allCompaniesRateByDate.get(new Date(r.date).getTime()) ?? null,
+      implied: impliedRateByDate.get(new Date(r.date).getTime()) ?? null,
+      companyCount: r.companyCount,
+    }));
+  const latestRealisedTime = Math.max(...realisedRows.map(r => new Date(r.date).getTime()));
+  const latestSectorRates = realisedRows
+    .filter(r => r.groupBy === 'sector' && new Date(r.date).getTime() === latestRealisedTime)
+    .sort((a, b) => b[realisedSettings.measure] - a[realisedSettings.measure]);
+
   // Public access - no auth check
 
   if (loadingStatus) {
@@ -172,6 +391,9 @@ export default function Analysis() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Link href={`/quality/${uploadIdNum}`}>
+              <Button variant="outline" size="sm">Data Quality</Button>
+            </Link>
             <Button onClick={handleExport} variant="outline" size="sm">
               <Download className="h-4 w-4 mr-2" />
               Export CSV
@@ -214,6 +436,22 @@ export default function Analysis() {
             </div>
           </div>
 
+          {analyzeMutation.data && analyzeMutation.data.insufficientSamples.length > 0 && (
+            <Card className="border-amber-200 bg-amber-50">
+              <CardContent className="py-4 space-y-2">
+                <p className="text-amber-800">
+                  <strong>{analyzeMutation.data.insufficientSamples.reduce((sum, s) => sum + s.dateCount, 0)}</strong> sector/region results were not stored:
+                  fewer than {analyzeMutation.data.minSliceSample} companies in the climate or baseline portfolio, or no price could be produced
+                </p>
+                <p className="text-sm text-amber-700">
+                  {analyzeMutation.data.insufficientSamples.map(s =>
+                    `${[s.sector, s.geography].filter(Boolean).join(' × ')} (${INVESTMENT_TYPE_LABELS[s.investmentType]}, ${s.dateCount} ${s.dateCount === 1 ? 'date' : 'dates'})`
+                  ).join(', ')}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Configuration Panel */}
           <Card>
             <CardHeader>
@@ -227,7 +465,7 @@ export default function Analysis() {
                   <Label className="text-base font-semibold">Valuation Methodology</Label>
                   <RadioGroup 
                     value={parameters.methodology} 
-                    onValueChange={(value: 'relative' | 'dcf') => setParameters(prev => ({ ...prev, methodology: value }))}
+                    onValueChange={(value: 'relative' | 'dcf' | 'regression') => setParameters(prev => ({ ...prev, methodology: value }))}
                   >
                     <div className="flex items-center space-x-2">
                       <RadioGroupItem value="relative" id="relative" />
@@ -241,11 +479,52 @@ export default function Analysis() {
                         DCF-based (Discounted cash flow)
                       </Label>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="regression" id="regression" />
+                      <Label htmlFor="regression" className="font-normal cursor-pointer">
+                        Cross-sectional regression (all companies)
+                      </Label>
+                    </div>
                   </RadioGroup>
+                  {parameters.methodology === 'regression' && (
+                    <Select
+                      value={parameters.regressionDependent}
+                      onValueChange={(value: 'log_pe' | 'earnings_yield') => setParameters(prev => ({ ...prev, regressionDependent: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="log_pe">Dependent variable: log P/E</SelectItem>
+                        <SelectItem value="earnings_yield">Dependent variable: earnings yield (E/P)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {parameters.methodology === 'dcf' && (
+                    <div className="space-y-4 pt-1">
+                      {DCF_INPUTS.map(input => (
+                        <div key={input.key} className="space-y-2">
+                          <Label className="font-normal">{input.label}: {input.format(parameters.dcf[input.key])}</Label>
+                          <Slider
+                            min={input.min}
+                            max={input.max}
+                            step={input.step}
+                            value={[parameters.dcf[input.key]]}
+                            onValueChange={([value]) => setParameters(prev => ({
+                              ...prev,
+                              dcf: { ...prev.dcf, [input.key]: value }
+                            }))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <p className="text-xs text-slate-600">
-                    {parameters.methodology === 'relative' 
-                      ? 'Compares P/E ratios between climate and baseline portfolios' 
-                      : 'Uses discounted cash flow to model carbon cost impact on valuations'}
+                    {parameters.methodology === 'relative'
+                      ? 'Compares P/E ratios between climate and baseline portfolios'
+                      : parameters.methodology === 'dcf'
+                      ? 'Solves for the starting carbon price whose discounted, growing cost path reproduces the observed valuation gap'
+                      : 'Regresses valuation on carbon intensity each date with sector and region fixed effects and a log market cap control'}
                   </p>
                 </div>
 
@@ -267,6 +546,25 @@ export default function Analysis() {
                       ? 'Using Scope 1 + 2 + 3 (full value chain emissions)' 
                       : 'Using Scope 1 + 2 only (direct and energy emissions)'}
                   </p>
+                  {!!uploadStatus?.estimatedValuesCount && (
+                    <>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="estimates"
+                          checked={parameters.includeEstimatedEmissions}
+                          onCheckedChange={(checked) => setParameters(prev => ({ ...prev, includeEstimatedEmissions: checked }))}
+                        />
+                        <Label htmlFor="estimates" className="font-normal cursor-pointer">
+                          Include estimated emissions
+                        </Label>
+                      </div>
+                      <p className="text-xs text-slate-600">
+                        {parameters.includeEstimatedEmissions
+                          ? `Using ${uploadStatus.estimatedValuesCount.toLocaleString()} gap-filled values alongside reported emissions`
+                          : 'Using reported emissions only; gap-filled values are ignored'}
+                      </p>
+                    </>
+                  )}
                 </div>
 
                 {/* Sector Granularity */}
@@ -324,6 +622,198 @@ export default function Analysis() {
                   </p>
                 </div>
 
+                {/* Portfolio Weighting */}
+                <div className="space-y-3">
+                  <Label className="text-base font-semibold">Portfolio Weighting</Label>
+                  <Select
+                    value={parameters.weighting}
+                    onValueChange={(value: 'equal' | 'market_cap' | 'sqrt_market_cap' | 'aggregate') => setParameters(prev => ({ ...prev, weighting: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WEIGHTING_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate-600">
+                    {parameters.weighting === 'aggregate'
+                      ? 'Each portfolio treated as one company: total emissions over total market cap, and total market cap over total net profit'
+                      : 'How companies are averaged for portfolio carbon intensity and P/E'}
+                  </p>
+                </div>
+
+                {/* Quantile Buckets */}
+                <div className="space-y-3">
+                  <Label className="text-base font-semibold">Quantile Buckets</Label>
+                  <Select
+                    value={parameters.buckets.count.toString()}
+                    onValueChange={(value) => {
+                      const count = parseInt(value) as QuantileCount;
+                      setParameters(prev => ({ ...prev, buckets: { count, lowBucket: 0, highBucket: count - 1 } }));
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUANTILE_COUNTS.map(count => (
+                        <SelectItem key={count} value={count.toString()}>{count} buckets ({QUANTILE_NAMES[count].toLowerCase()}s)</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['lowBucket', 'highBucket'] as const).map(side => (
+                      <Select
+                        key={side}
+                        value={parameters.buckets[side].toString()}
+                        onValueChange={(value) => setParameters(prev => ({ ...prev, buckets: { ...prev.buckets, [side]: parseInt(value) } }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: parameters.buckets.count }, (_, bucket) => (
+                            <SelectItem
+                              key={bucket}
+                              value={bucket.toString()}
+                              disabled={bucket === parameters.buckets[side === 'lowBucket' ? 'highBucket' : 'lowBucket']}
+                            >
+                              {side === 'lowBucket' ? 'Low' : 'High'}: {bucketLabel(bucket, parameters.buckets.count)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-600">
+                    Buckets by ascending carbon intensity; comparisons are {lowBucketLabel} minus {highBucketLabel}
+                  </p>
+                </div>
+
+                {/* Intensity Denominator */}
+                <div className="space-y-3">
+                  <Label className="text-base font-semibold">Intensity Denominator</Label>
+                  <Select
+                    value={parameters.intensityDenominator}
+                    onValueChange={(value) => setParameters(prev => ({ ...prev, intensityDenominator: value as IntensityDenominator }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(INTENSITY_DENOMINATOR_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate-600">
+                    {parameters.intensityDenominator === 'market_cap'
+                      ? 'Emissions per $M of market cap; share price moves alone can reshuffle the buckets'
+                      : 'Needs the optional Revenue or EVIC sheet; companies without a value are left out'}
+                  </p>
+                </div>
+
+                {/* Confidence Bands */}
+                <div className="space-y-3">
+                  <Label className="text-base font-semibold">Confidence Bands</Label>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="bootstrap"
+                      checked={bootstrapEnabled}
+                      onCheckedChange={setBootstrapEnabled}
+                    />
+                    <Label htmlFor="bootstrap" className="font-normal cursor-pointer">
+                      Bootstrap implied carbon price
+                    </Label>
+                  </div>
+                  {bootstrapEnabled && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <Select
+                        value={bootstrapSettings.iterations.toString()}
+                        onValueChange={(value) => setBootstrapSettings(prev => ({ ...prev, iterations: parseInt(value) }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="100">100 resamples</SelectItem>
+                          <SelectItem value="200">200 resamples</SelectItem>
+                          <SelectItem value="500">500 resamples</SelectItem>
+                          <SelectItem value="1000">1000 resamples</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={bootstrapSettings.confidenceLevel.toString()}
+                        onValueChange={(value) => setBootstrapSettings(prev => ({ ...prev, confidenceLevel: parseInt(value) }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="90">90% band</SelectItem>
+                          <SelectItem value="95">95% band</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={bootstrapSettings.strata}
+                        onValueChange={(value: 'tercile' | 'sector') => setBootstrapSettings(prev => ({ ...prev, strata: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="tercile">Within tercile</SelectItem>
+                          <SelectItem value="sector">Within sector</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-600">
+                    {bootstrapEnabled
+                      ? `Resamples companies ${bootstrapSettings.strata === 'sector' ? 'within each sector of' : 'within'} each portfolio; bands shown for aggregate results`
+                      : 'Point estimates only'}
+                  </p>
+                </div>
+
+                {/* Decarbonization Scenario */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-base font-semibold">Decarbonization Scenario</Label>
+                    <Link href="/scenarios">
+                      <Button variant="link" size="sm" className="px-0">Manage scenarios</Button>
+                    </Link>
+                  </div>
+                  <Select
+                    value={parameters.scenarioId?.toString() ?? 'default'}
+                    onValueChange={(value) => setParameters(prev => ({ ...prev, scenarioId: value === 'default' ? null : parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">{DEFAULT_SCENARIO_NAME}</SelectItem>
+                      {scenarios?.map(scenario => (
+                        <SelectItem key={scenario.id} value={scenario.id.toString()}>{scenario.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => applyScenarioMutation.mutate({ uploadId: uploadIdNum, scenarioId: parameters.scenarioId })}
+                    disabled={applyScenarioMutation.isPending || !resultsQuery.data?.length}
+                  >
+                    {applyScenarioMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply to Stored Results
+                  </Button>
+                  <p className="text-xs text-slate-600">
+                    Maps implied carbon price to annual decarbonization rate; applying recomputes rates from stored carbon prices without re-running the analysis
+                  </p>
+                </div>
+
                 {/* Portfolio Classification Approach */}
                 <div className="space-y-3">
                   <Label className="text-base font-semibold">Portfolio Classification</Label>
@@ -335,14 +825,133 @@ export default function Analysis() {
                         ...prev, 
                         thresholds: { ...prev.thresholds, tertileApproach: checked } 
                       }))}
-                      disabled
                     />
                     <Label htmlFor="tertile" className="font-normal cursor-pointer">
-                      Sector-relative tertiles (bottom vs top third)
+                      Sector-relative quantile buckets
                     </Label>
                   </div>
+                  {!parameters.thresholds.tertileApproach && (
+                    <div className="space-y-4 pt-1">
+                      <div className="space-y-2">
+                        <Label className="font-normal">Low carbon: bottom {parameters.thresholds.lowCarbonPercentile}% of sector intensity</Label>
+                        <Slider
+                          min={5}
+                          max={50}
+                          step={5}
+                          value={[parameters.thresholds.lowCarbonPercentile]}
+                          onValueChange={([value]) => setParameters(prev => ({
+                            ...prev,
+                            thresholds: { ...prev.thresholds, lowCarbonPercentile: value }
+                          }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="font-normal">Decarbonizing: 2050 target of {Math.round(parameters.thresholds.decarbonizingTarget * 100)}% or deeper (credibility-weighted for credible decarbonizers)</Label>
+                        <Slider
+                          min={-1}
+                          max={0}
+                          step={0.05}
+                          value={[parameters.thresholds.decarbonizingTarget]}
+                          onValueChange={([value]) => setParameters(prev => ({
+                            ...prev,
+                            thresholds: { ...prev.thresholds, decarbonizingTarget: value }
+                          }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="font-normal">
+                          Solutions: {describeComposite(parameters.solutionsComposite)} of {parameters.solutionsComposite.length === 0 ? parameters.thresholds.solutionsScore : parameters.thresholds.solutionsCompositeScore} or higher
+                        </Label>
+                        {parameters.solutionsComposite.length === 0 ? (
+                          <Slider
+                            min={-10}
+                            max={10}
+                            step={0.5}
+                            value={[parameters.thresholds.solutionsScore]}
+                            onValueChange={([value]) => setParameters(prev => ({
+                              ...prev,
+                              thresholds: { ...prev.thresholds, solutionsScore: value }
+                            }))}
+                          />
+                        ) : (
+                          // Composites of revenue shares and scores have no common scale, so the cut-off is typed
+                          // and kept apart from the SDG score cut-off
+                          <Input
+                            type="number"
+                            step="any"
+                            aria-label="Solutions composite cut-off"
+                            value={parameters.thresholds.solutionsCompositeScore}
+                            onChange={(e) => setParameters(prev => ({
+                              ...prev,
+                              thresholds: { ...prev.thresholds, solutionsCompositeScore: Number(e.target.value) }
+                            }))}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-600">
+                    {parameters.thresholds.tertileApproach
+                      ? `Companies classified within their sector: low-carbon ${lowBucketLabel.toLowerCase()} and the top ${QUANTILE_NAMES[parameters.buckets.count].toLowerCase()} by target and SDG score`
+                      : 'Fixed cut-offs: intensity percentile within each sector, absolute target and SDG score thresholds'}
+                  </p>
+                </div>
+
+                {/* Solutions Metric */}
+                <div className="space-y-3">
+                  <Label className="text-base font-semibold">Solutions Metric</Label>
+                  {parameters.solutionsComposite.map((item, i) => (
+                    <div key={item.metric} className="flex items-center gap-2">
+                      <Select
+                        value={item.metric}
+                        onValueChange={(metric) => setSolutionsComposite(composite =>
+                          composite.map((c, j) => j === i ? { ...c, metric } : c)
+                        )}
+                      >
+                        <SelectTrigger className="flex-1 font-mono text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[item.metric, ...unusedMetricKeys].map(key => (
+                            <SelectItem key={key} value={key} className="font-mono text-xs">{key}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        step="any"
+                        className="w-20"
+                        aria-label={`${item.metric} weight`}
+                        value={item.weight}
+                        onChange={(e) => setSolutionsComposite(composite =>
+                          composite.map((c, j) => j === i ? { ...c, weight: Number(e.target.value) } : c)
+                        )}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${item.metric}`}
+                        onClick={() => setSolutionsComposite(composite => composite.filter((_, j) => j !== i))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={unusedMetricKeys.length === 0 || parameters.solutionsComposite.length >= MAX_COMPOSITE_METRICS}
+                    onClick={() => setSolutionsComposite(composite => [...composite, { metric: unusedMetricKeys[0], weight: 1 }])}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Metric
+                  </Button>
                   <p className="text-xs text-slate-600">
-                    Companies classified within their sector: bottom third (climate-aligned) vs top third (baseline)
+                    {(metricKeys ?? []).length === 0
+                      ? 'No GreenRev metrics in this upload; solutions rank the SDG alignment score'
+                      : parameters.solutionsComposite.length === 0
+                        ? 'Solutions rank the SDG alignment score; add metrics to rank a weighted sum instead (e.g. SDG 7 + SDG 13)'
+                        : 'Solutions rank the weighted sum; companies missing any weighted metric are left out'}
                   </p>
                 </div>
               </div>
@@ -368,6 +977,7 @@ export default function Analysis() {
                       <SelectItem value="low_carbon">Low Carbon Intensity</SelectItem>
                       <SelectItem value="decarbonizing">Decarbonizing Companies</SelectItem>
                       <SelectItem value="solutions">Solutions Providers</SelectItem>
+                      <SelectItem value="credible_decarbonizers">Credible Decarbonizers</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -417,19 +1027,35 @@ export default function Analysis() {
                 <CardDescription>
                   Annual emission reduction rates inferred from market valuations (%)
                   {parameters.methodology === 'dcf' && ' - DCF methodology'}
+                  {parameters.methodology === 'regression' && ' - Regression methodology'}
                 </CardDescription>
                 <div className="mt-4 p-4 bg-slate-50 rounded-lg text-sm text-slate-700 space-y-2">
                   <p className="font-semibold">Calculation Methodology:</p>
                   <ol className="list-decimal list-inside space-y-1 ml-2">
+                    <li><strong>Portfolio Weighting:</strong> {WEIGHTING_LABELS[resultsQuery.data[0].weighting]} (as stored with these results)</li>
                     <li><strong>Outlier Treatment:</strong> {parameters.winsorize ? `P/E and carbon intensity winsorized at ${parameters.winsorizePercentile}th-${100-parameters.winsorizePercentile}th percentiles` : 'No winsorization applied'}</li>
                     <li><strong>Carbon Risk Discount:</strong> (P/E_climate / P/E_baseline) - 1</li>
-                    <li><strong>Implied Carbon Price:</strong> (Discount × Baseline P/E) / Carbon Intensity Difference</li>
-                    <li><strong>Decarbonization Rate:</strong> Maps carbon price to annual reduction:
+                    {storedDcfParameters ? (
+                      <li><strong>Implied Carbon Price (DCF):</strong> Starting price whose cost path ({DCF_INPUTS.map(input => `${input.label.toLowerCase()} ${input.format(storedDcfParameters[input.key])}`).join(', ')}) matches the valuation gap
+                        {dcfSensitivityRows.length > 0 && (
+                          <ul className="list-disc list-inside ml-6 mt-1 text-xs">
+                            {DCF_INPUTS.map(input => (
+                              <li key={input.key}>{input.label} {input.bump} → {meanDcfSensitivity(input.key) >= 0 ? '+' : '−'}${Math.abs(meanDcfSensitivity(input.key)).toFixed(2)}/tCO2 (mean over aggregate results)</li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ) : parameters.methodology === 'regression' ? (
+                      <li><strong>Implied Carbon Price:</strong> Intensity coefficient from {parameters.regressionDependent === 'log_pe' ? 'log P/E' : 'E/P'} ~ intensity + log market cap + sector and region fixed effects, converted to $/tCO2</li>
+                    ) : (
+                      <li><strong>Implied Carbon Price:</strong> (Discount × Baseline P/E) / Carbon Intensity Difference</li>
+                    )}
+                    <li><strong>Decarbonization Rate:</strong> Maps carbon price to annual reduction along the {storedScenario?.name ?? DEFAULT_SCENARIO_NAME} scenario (linear between points):
                       <ul className="list-disc list-inside ml-6 mt-1 text-xs">
-                        <li>$0-50/tCO2 → 0-2% annual reduction</li>
-                        <li>$50-100/tCO2 → 2-4% annual reduction</li>
-                        <li>$100-200/tCO2 → 4-7% annual reduction</li>
-                        <li>Above $200/tCO2 → capped at 7%</li>
+                        {storedScenarioCurve.map(point => (
+                          <li key={point.carbonPrice}>${point.carbonPrice}/tCO2 → {(point.decarbRate * 100).toFixed(1)}% annual reduction</li>
+                        ))}
+                        <li>Above ${storedScenarioCurve[storedScenarioCurve.length - 1].carbonPrice}/tCO2 → held at {(storedScenarioCurve[storedScenarioCurve.length - 1].decarbRate * 100).toFixed(1)}%</li>
                       </ul>
                     </li>
                   </ol>
@@ -440,7 +1066,7 @@ export default function Analysis() {
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={400}>
-                  <LineChart data={finalChartData}>
+                  <ComposedChart data={finalChartData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="date" />
                     <YAxis 
@@ -449,14 +1075,23 @@ export default function Analysis() {
                       domain={['auto', 'auto']}
                     />
                     <Tooltip 
-                      formatter={(value: number) => [`${value.toFixed(4)}%`, '']}
+                      formatter={(value: number | number[]) => [formatRange(value, v => `${v.toFixed(4)}%`), '']}
                       labelStyle={{ color: '#1e293b' }}
                     />
                     <Legend />
+                    {hasDecarbBands && (
+                      <>
+                        <Area type="monotone" dataKey="Low Carbon band" stroke="none" fill="#3b82f6" fillOpacity={0.15} legendType="none" />
+                        <Area type="monotone" dataKey="Decarbonizing band" stroke="none" fill="#10b981" fillOpacity={0.15} legendType="none" />
+                        <Area type="monotone" dataKey="Solutions band" stroke="none" fill="#8b5cf6" fillOpacity={0.15} legendType="none" />
+                        <Area type="monotone" dataKey="Credible Decarbonizers band" stroke="none" fill="#f59e0b" fillOpacity={0.15} legendType="none" />
+                      </>
+                    )}
                     <Line type="monotone" dataKey="Low Carbon" stroke="#3b82f6" strokeWidth={2} />
                     <Line type="monotone" dataKey="Decarbonizing" stroke="#10b981" strokeWidth={2} />
                     <Line type="monotone" dataKey="Solutions" stroke="#8b5cf6" strokeWidth={2} />
-                  </LineChart>
+                    <Line type="monotone" dataKey="Credible Decarbonizers" stroke="#f59e0b" strokeWidth={2} />
+                  </ComposedChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
@@ -484,7 +1119,7 @@ export default function Analysis() {
                   <div>
                     <CardTitle className="flex items-center gap-2">
                       <BarChart3 className="h-5 w-5" />
-                      P/E Ratio: Top vs Bottom Carbon Intensity Terciles
+                      P/E Ratio: {highBucketLabel} vs {lowBucketLabel} Carbon Intensity
                     </CardTitle>
                     <CardDescription>
                       Average P/E ratios for highest vs lowest carbon intensity companies (after winsorization)
@@ -503,8 +1138,8 @@ export default function Analysis() {
                 <div className="mt-4 p-4 bg-slate-50 rounded-lg text-sm text-slate-700 space-y-2">
                   <p className="font-semibold">Interpretation:</p>
                   <ul className="list-disc list-inside ml-2 space-y-1">
-                    <li><strong>Bottom Tercile (Low Carbon):</strong> Companies with lowest carbon intensity (cleanest)</li>
-                    <li><strong>Top Tercile (High Carbon):</strong> Companies with highest carbon intensity (most carbon-intensive)</li>
+                    <li><strong>{lowBucketLabel} (Low Carbon):</strong> Lower carbon intensity side of the comparison (bucket 1 is the cleanest)</li>
+                    <li><strong>{highBucketLabel} (High Carbon):</strong> Higher carbon intensity side of the comparison (bucket {parameters.buckets.count} is the most carbon-intensive)</li>
                     <li><strong>Valuation Premium:</strong> Positive = low-carbon companies valued higher; Negative = high-carbon companies valued higher</li>
                     <li><strong>{tercileMethod === 'sector_relative' ? 'Sector-Relative' : 'Absolute'}:</strong> {tercileMethod === 'sector_relative' ? 'Compares companies within their sector (e.g., cleanest energy vs dirtiest energy)' : 'Compares all companies across all sectors'}</li>
                   </ul>
@@ -514,8 +1149,8 @@ export default function Analysis() {
                 <ResponsiveContainer width="100%" height={400}>
                   <LineChart data={tercileQuery.data.map(d => ({
                     date: new Date(d.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' }),
-                    'Bottom Tercile (Low Carbon)': d.bottomTercilePE,
-                    'Top Tercile (High Carbon)': d.topTercilePE,
+                    low: d.bottomTercilePE,
+                    high: d.topTercilePE,
                   }))}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                     <XAxis 
@@ -533,8 +1168,8 @@ export default function Analysis() {
                       labelStyle={{ color: '#1e293b' }}
                     />
                     <Legend />
-                    <Line type="monotone" dataKey="Bottom Tercile (Low Carbon)" stroke="#10b981" strokeWidth={2} />
-                    <Line type="monotone" dataKey="Top Tercile (High Carbon)" stroke="#ef4444" strokeWidth={2} />
+                    <Line type="monotone" dataKey="low" name={`${lowBucketLabel} (Low Carbon)`} stroke="#10b981" strokeWidth={2} />
+                    <Line type="monotone" dataKey="high" name={`${highBucketLabel} (High Carbon)`} stroke="#ef4444" strokeWidth={2} />
                   </LineChart>
                 </ResponsiveContainer>
                 <div className="mt-6 grid grid-cols-3 gap-4">
@@ -546,14 +1181,14 @@ export default function Analysis() {
                     <p className="text-xs text-slate-500 mt-1">Low-carbon vs high-carbon</p>
                   </div>
                   <div className="p-4 bg-slate-50 rounded-lg">
-                    <p className="text-sm text-slate-600 mb-1">Avg Bottom Tercile P/E</p>
+                    <p className="text-sm text-slate-600 mb-1">Avg {lowBucketLabel} P/E</p>
                     <p className="text-2xl font-bold text-green-600">
                       {(tercileQuery.data.reduce((sum, d) => sum + d.bottomTercilePE, 0) / tercileQuery.data.length).toFixed(2)}
                     </p>
                     <p className="text-xs text-slate-500 mt-1">Lowest carbon intensity</p>
                   </div>
                   <div className="p-4 bg-slate-50 rounded-lg">
-                    <p className="text-sm text-slate-600 mb-1">Avg Top Tercile P/E</p>
+                    <p className="text-sm text-slate-600 mb-1">Avg {highBucketLabel} P/E</p>
                     <p className="text-2xl font-bold text-red-600">
                       {(tercileQuery.data.reduce((sum, d) => sum + d.topTercilePE, 0) / tercileQuery.data.length).toFixed(2)}
                     </p>
@@ -574,7 +1209,7 @@ export default function Analysis() {
                     Implied Carbon Price (Total-Based Methodology)
                   </CardTitle>
                   <CardDescription>
-                    Carbon price inferred from total market cap, net profit, and emissions of top vs bottom terciles
+                    Carbon price inferred from total market cap, net profit, and emissions of {highBucketLabel} vs {lowBucketLabel}
                   </CardDescription>
                 </div>
               </CardHeader>
@@ -583,7 +1218,7 @@ export default function Analysis() {
                 <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
                   <h4 className="font-semibold text-blue-900 mb-2">Calculation Methodology</h4>
                   <div className="text-sm text-blue-800 space-y-2">
-                    <p><strong>Step 1:</strong> Sum total market cap, net profit, and emissions for top tercile (high carbon) and bottom tercile (low carbon)</p>
+                    <p><strong>Step 1:</strong> Sum total market cap, net profit, and emissions for the high-carbon bucket ({highBucketLabel}) and the low-carbon bucket ({lowBucketLabel})</p>
                     <p><strong>Step 2:</strong> Calculate P/E ratios: P/E = Total Market Cap / Total Net Profit</p>
                     <p><strong>Step 3:</strong> Implied Carbon Price = (Top Net Profit - (Top Market Cap / Bottom P/E)) / Top Emissions</p>
                     <p className="text-xs mt-2 italic">This represents: what carbon price ($/tCO2) would equalize the P/E ratios between high-carbon and low-carbon companies?</p>
@@ -600,14 +1235,14 @@ export default function Analysis() {
                     <p className="text-xs text-slate-500 mt-1">per tonne CO2</p>
                   </div>
                   <div className="p-4 bg-slate-50 rounded-lg">
-                    <p className="text-sm text-slate-600 mb-1">Avg Top Tercile P/E</p>
+                    <p className="text-sm text-slate-600 mb-1">Avg {highBucketLabel} P/E</p>
                     <p className="text-2xl font-bold text-red-600">
                       {(carbonPriceQuery.data.reduce((sum: number, d: any) => sum + d.topPE, 0) / carbonPriceQuery.data.length).toFixed(2)}
                     </p>
                     <p className="text-xs text-slate-500 mt-1">High carbon intensity</p>
                   </div>
                   <div className="p-4 bg-slate-50 rounded-lg">
-                    <p className="text-sm text-slate-600 mb-1">Avg Bottom Tercile P/E</p>
+                    <p className="text-sm text-slate-600 mb-1">Avg {lowBucketLabel} P/E</p>
                     <p className="text-2xl font-bold text-green-600">
                       {(carbonPriceQuery.data.reduce((sum: number, d: any) => sum + d.bottomPE, 0) / carbonPriceQuery.data.length).toFixed(2)}
                     </p>
@@ -625,9 +1260,10 @@ export default function Analysis() {
                 {/* Chart */}
                 <div className="h-96">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={carbonPriceQuery.data.map((d: any) => ({
+                    <ComposedChart data={carbonPriceQuery.data.map((d: any) => ({
                       date: new Date(d.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' }),
                       carbonPrice: d.impliedCarbonPrice,
+                      band: d.impliedCarbonPriceLower != null ? [d.impliedCarbonPriceLower, d.impliedCarbonPriceUpper] : undefined,
                     }))}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                       <XAxis 
@@ -641,19 +1277,32 @@ export default function Analysis() {
                         domain={['auto', 'auto']}
                       />
                       <Tooltip 
-                        formatter={(value: number) => [`$${value.toFixed(2)}/tCO2`, 'Carbon Price']}
+                        formatter={(value: number | number[], name: string) => [
+                          formatRange(value, v => `$${v.toFixed(2)}/tCO2`),
+                          name,
+                        ]}
                         labelStyle={{ color: '#1e293b' }}
                       />
                       <Legend />
+                      {hasCarbonPriceBands && bootstrap && (
+                        <Area
+                          type="monotone"
+                          dataKey="band"
+                          name={`${bootstrap.confidenceLevel}% band`}
+                          stroke="none"
+                          fill="#3b82f6"
+                          fillOpacity={0.15}
+                        />
+                      )}
                       <Line type="monotone" dataKey="carbonPrice" name="Implied Carbon Price" stroke="#3b82f6" strokeWidth={2} />
-                    </LineChart>
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
 
                 {/* Component Breakdown */}
                 <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="p-4 border border-slate-200 rounded-lg">
-                    <h5 className="font-semibold text-slate-900 mb-2">Top Tercile (High Carbon)</h5>
+                    <h5 className="font-semibold text-slate-900 mb-2">{highBucketLabel} (High Carbon)</h5>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-slate-600">Avg Total Market Cap:</span>
@@ -674,7 +1323,7 @@ export default function Analysis() {
                     </div>
                   </div>
                   <div className="p-4 border border-slate-200 rounded-lg">
-                    <h5 className="font-semibold text-slate-900 mb-2">Bottom Tercile (Low Carbon)</h5>
+                    <h5 className="font-semibold text-slate-900 mb-2">{lowBucketLabel} (Low Carbon)</h5>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-slate-600">Avg Total Market Cap:</span>
@@ -705,6 +1354,340 @@ export default function Analysis() {
               </CardContent>
             </Card>
           )}
+
+          {/* Long-Short Tercile Backtest */}
+          {backtestQuery.data?.stats && (
+            <Card className="mt-8">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5" />
+                      Long-Short Backtest ({lowBucketLabel} − {highBucketLabel} Carbon Intensity)
+                    </CardTitle>
+                    <CardDescription>
+                      Long low-carbon, short high-carbon companies from the {tercileMethod === 'sector_relative' ? 'sector-relative' : 'absolute'} {QUANTILE_NAMES[parameters.buckets.count].toLowerCase()}s, marked to market with total return index
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Select
+                      value={backtestSettings.rebalance}
+                      onValueChange={(value: 'monthly' | 'quarterly') => setBacktestSettings(prev => ({ ...prev, rebalance: value }))}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="monthly">Monthly rebalance</SelectItem>
+                        <SelectItem value="quarterly">Quarterly rebalance</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={backtestSettings.weighting}
+                      onValueChange={(value: 'equal' | 'market_cap') => setBacktestSettings(prev => ({ ...prev, weighting: value }))}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="equal">Equal weight</SelectItem>
+                        <SelectItem value="market_cap">Market-cap weight</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+                  {[
+                    { label: 'Cumulative Return', value: `${(backtestQuery.data.stats.cumulativeReturn * 100).toFixed(1)}%` },
+                    { label: 'Annualized Return', value: `${(backtestQuery.data.stats.annualizedReturn * 100).toFixed(2)}%` },
+                    { label: 'Annualized Volatility', value: `${(backtestQuery.data.stats.annualizedVolatility * 100).toFixed(2)}%` },
+                    { label: 'Sharpe Ratio', value: backtestQuery.data.stats.sharpeRatio?.toFixed(2) ?? '-' },
+                    { label: 'Max Drawdown', value: `${(backtestQuery.data.stats.maxDrawdown * 100).toFixed(1)}%` },
+                    {
+                      label: 'Avg Turnover',
+                      value: backtestQuery.data.stats.averageTurnover !== null ? `${(backtestQuery.data.stats.averageTurnover * 100).toFixed(1)}%` : '-',
+                    },
+                  ].map(stat => (
+                    <div key={stat.label} className="p-4 bg-slate-50 rounded-lg">
+                      <p className="text-sm text-slate-600 mb-1">{stat.label}</p>
+                      <p className="text-2xl font-bold text-slate-900">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <ResponsiveContainer width="100%" height={350}>
+                  <ComposedChart data={backtestChartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis label={{ value: 'Return (%)', angle: -90, position: 'insideLeft' }} tickFormatter={(value) => value.toFixed(0)} />
+                    <Tooltip formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]} labelStyle={{ color: '#1e293b' }} />
+                    <Legend />
+                    <Area type="monotone" dataKey="drawdown" name="Drawdown" stroke="none" fill="#ef4444" fillOpacity={0.2} />
+                    <Line type="monotone" dataKey="cumulativeReturn" name="Cumulative Return" stroke="#10b981" strokeWidth={2} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+
+                {rollingChartData.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="font-semibold text-slate-900 mb-2">Rolling 36-Month Statistics</h4>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <LineChart data={rollingChartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" />
+                        <YAxis yAxisId="percent" label={{ value: '%', angle: -90, position: 'insideLeft' }} />
+                        <YAxis yAxisId="sharpe" orientation="right" label={{ value: 'Sharpe', angle: 90, position: 'insideRight' }} />
+                        <Tooltip
+                          formatter={(value: number, name: string) => [name === 'Sharpe Ratio' ? value.toFixed(2) : `${value.toFixed(2)}%`, name]}
+                          labelStyle={{ color: '#1e293b' }}
+                        />
+                        <Legend />
+                        <Line yAxisId="percent" type="monotone" dataKey="annualizedReturn" name="Annualized Return" stroke="#3b82f6" dot={false} />
+                        <Line yAxisId="percent" type="monotone" dataKey="annualizedVolatility" name="Annualized Volatility" stroke="#f59e0b" dot={false} />
+                        <Line yAxisId="sharpe" type="monotone" dataKey="sharpeRatio" name="Sharpe Ratio" stroke="#8b5cf6" dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Returns-Based Carbon Premium */}
+          {carbonPremiumQuery.data && carbonPremiumQuery.data.periods.length > 0 && (
+            <Card className="mt-8">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <BarChart3 className="h-5 w-5" />
+                      Carbon Return Premium (Fama-MacBeth)
+                    </CardTitle>
+                    <CardDescription>
+                      Next-period total return per one standard deviation of carbon intensity, controlling for log market cap
+                      {premiumSectorEffects && ' and sector'}, against the valuation-based implied carbon price
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <Switch id="premium-sector" checked={premiumSectorEffects} onCheckedChange={setPremiumSectorEffects} />
+                    <Label htmlFor="premium-sector" className="font-normal cursor-pointer">Sector fixed effects</Label>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                  <div className="p-4 bg-slate-50 rounded-lg">
+                    <p className="text-sm text-slate-600 mb-1">Mean Premium</p>
+                    <p className="text-2xl font-bold text-slate-900">
+                      {carbonPremiumQuery.data.meanPremium !== null ? `${(carbonPremiumQuery.data.meanPremium * 100).toFixed(3)}%` : '-'}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-slate-50 rounded-lg">
+                    <p className="text-sm text-slate-600 mb-1">Newey-West t-stat</p>
+                    <p className="text-2xl font-bold text-slate-900">
+                      {carbonPremiumQuery.data.tStat !== null ? carbonPremiumQuery.data.tStat.toFixed(2) : '-'}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-slate-50 rounded-lg">
+                    <p className="text-sm text-slate-600 mb-1">Periods</p>
+                    <p className="text-2xl font-bold text-slate-900">{carbonPremiumQuery.data.periods.length}</p>
+                  </div>
+                  <div className="p-4 bg-slate-50 rounded-lg">
+                    <p className="text-sm text-slate-600 mb-1">Newey-West Lags</p>
+                    <p className="text-2xl font-bold text-slate-900">{carbonPremiumQuery.data.neweyWestLags}</p>
+                  </div>
+                </div>
+
+                <ResponsiveContainer width="100%" height={400}>
+                  <ComposedChart data={premiumChartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis
+                      yAxisId="premium"
+                      label={{ value: 'Return Premium (%)', angle: -90, position: 'insideLeft' }}
+                      tickFormatter={(value) => value.toFixed(2)}
+                    />
+                    <YAxis
+                      yAxisId="price"
+                      orientation="right"
+                      label={{ value: 'Carbon Price ($/tCO2)', angle: 90, position: 'insideRight' }}
+                    />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [
+                        name === 'Return Premium' ? `${value.toFixed(3)}%` : `$${value.toFixed(2)}/tCO2`,
+                        name,
+                      ]}
+                      labelStyle={{ color: '#1e293b' }}
+                    />
+                    <Legend />
+                    <Bar yAxisId="premium" dataKey="premium" name="Return Premium" fill="#94a3b8" />
+                    <Line yAxisId="price" type="monotone" dataKey="carbonPrice" name="Implied Carbon Price" stroke="#3b82f6" strokeWidth={2} connectNulls />
+                  </ComposedChart>
+                </ResponsiveContainer>
+
+                <p className="text-xs text-slate-600 mt-4">
+                  A positive premium alongside a valuation discount suggests carbon risk is priced as risk (higher expected returns);
+                  a discount with no premium, or a negative one, points to mispricing.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Realised vs Implied Decarbonization */}
+          {realisedQuery.data && realisedQuery.data.length > 0 && (
+            <Card className="mt-8">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5" />
+                      Realised vs Implied Decarbonization
+                    </CardTitle>
+                    <CardDescription>
+                      Median annual emissions reduction over the trailing {realisedSettings.window} years
+                      ({realisedSettings.measure === 'cagr' ? 'compound rate between the end points' : 'log-linear trend'}),
+                      against the rate implied by valuations
+                    </CardDescription>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 shrink-0">
+                    <Select
+                      value={realisedSettings.investmentType}
+                      onValueChange={(value) => setRealisedSettings(prev => ({ ...prev, investmentType: value as InvestmentType }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(INVESTMENT_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={realisedSettings.window.toString()}
+                      onValueChange={(value) => setRealisedSettings(prev => ({ ...prev, window: parseInt(value) as 3 | 5 }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="3">3 years</SelectItem>
+                        <SelectItem value="5">5 years</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={realisedSettings.measure}
+                      onValueChange={(value) => setRealisedSettings(prev => ({ ...prev, measure: value as 'cagr' | 'trend' }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="trend">Trend slope</SelectItem>
+                        <SelectItem value="cagr">CAGR</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {realisedChartData.length > 0 ? (
+                  <ResponsiveContainer width="100%" height={400}>
+                    <LineChart data={realisedChartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis
+                        label={{ value: 'Annual Reduction (%)', angle: -90, position: 'insideLeft' }}
+                        tickFormatter={(value) => value.toFixed(1)}
+                      />
+                      <Tooltip
+                        formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]}
+                        labelStyle={{ color: '#1e293b' }}
+                      />
+                      <Legend />
+                      <Line type="monotone" dataKey="realised" name={`Realised (${INVESTMENT_TYPE_LABELS[realisedSettings.investmentType]})`} stroke="#10b981" strokeWidth={2} />
+                      <Line type="monotone" dataKey="allCompanies" name="Realised (all companies)" stroke="#94a3b8" strokeDasharray="4 4" connectNulls />
+                      <Line type="monotone" dataKey="implied" name="Implied" stroke="#3b82f6" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <p className="text-sm text-slate-600">No {INVESTMENT_TYPE_LABELS[realisedSettings.investmentType].toLowerCase()} companies with {realisedSettings.window} years of emissions history</p>
+                )}
+
+                {latestSectorRates.length > 0 && (
+                  <div className="mt-6">
+                    <p className="text-sm font-semibold text-slate-900 mb-2">
+                      By sector, {new Date(latestRealisedTime).getUTCFullYear()}
+                    </p>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                      {latestSectorRates.map(r => (
+                        <div key={r.group} className="flex justify-between p-2 bg-slate-50 rounded">
+                          <span className="text-slate-600 truncate mr-2">{r.group}</span>
+                          <span className="font-medium text-slate-900">{(r[realisedSettings.measure] * 100).toFixed(1)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <p className="text-xs text-slate-600 mt-4">
+                  Implied rates above realised ones mean valuations price faster cuts than companies have delivered.
+                  Implied rates are the stored aggregate results; run the analysis to refresh them.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Target Credibility */}
+          {credibilityQuery.data && credibilityQuery.data.length > 0 && (
+            <Card className="mt-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  Target Credibility
+                </CardTitle>
+                <CardDescription>
+                  {offTrackCompanies.length} of {credibilityQuery.data.length} companies with a 2050 target are off track:
+                  their reported Scope 1+2 trend is slower than the annual cut the target requires
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {offTrackCompanies.length > 0 && (
+                  <div className="max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-slate-600">
+                          <th className="py-2 font-medium">Company</th>
+                          <th className="py-2 font-medium">Sector</th>
+                          <th className="py-2 font-medium text-right">2050 Target</th>
+                          <th className="py-2 font-medium text-right">Required / yr</th>
+                          <th className="py-2 font-medium text-right">Realised / yr</th>
+                          <th className="py-2 font-medium text-right">Score</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {offTrackCompanies.map(c => (
+                          <tr key={c.companyId} className="border-b last:border-0">
+                            <td className="py-2 text-slate-900">{c.name}</td>
+                            <td className="py-2 text-slate-600">{c.sector ?? 'Unknown'}</td>
+                            <td className="py-2 text-right">{percent(c.target)}</td>
+                            <td className="py-2 text-right">{percent(c.requiredRate)}</td>
+                            <td className="py-2 text-right">{percent(c.realisedRate)} ({c.window}y)</td>
+                            <td className="py-2 text-right font-medium text-slate-900">{c.score.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <p className="text-xs text-slate-600 mt-4">
+                  Score = realised trend / required rate, capped at 1. The credible decarbonizers portfolio ranks companies on
+                  their target multiplied by this score at each date.
+                </p>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </main>
     </div>
@@ -1,11 +1,28 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { UploadProgress } from "@/components/UploadProgress";
 import { trpc } from "@/lib/trpc";
 import { FileSpreadsheet, Loader2, CheckCircle2, XCircle, Clock, Upload as UploadIcon } from "lucide-react";
 import { Link } from "wouter";
 import { formatDistanceToNow } from "date-fns";
 
+/**
+ * Collapse a sorted list of years into ranges, e.g. "FY2008, FY2010–FY2024"
+ */
+function formatFiscalYears(years: number[]): string {
+  if (years.length === 0) return "None";
+  const ranges: string[] = [];
+  let start = years[0];
+  for (let i = 1; i <= years.length; i++) {
+    if (i < years.length && years[i] === years[i - 1] + 1) continue;
+    const end = years[i - 1];
+    ranges.push(start === end ? `FY${start}` : `FY${start}–FY${end}`);
+    start = years[i];
+  }
+  return ranges.join(", ");
+}
+
 export default function Dashboard() {
   // Auth removed - public access
   const user = null;
@@ -85,7 +102,10 @@ export default function Dashboard() {
                       </div>
                     </div>
                   </CardHeader>
-                  <CardContent>
+                  <CardContent className="space-y-4">
+                    {upload.status === 'processing' && (
+                      <UploadProgress uploadId={upload.id} />
+                    )}
                     <div className="flex items-center justify-between">
                       <div className="grid grid-cols-2 gap-6 text-sm">
                         {upload.companiesCount && (
@@ -102,9 +122,14 @@ export default function Dashboard() {
                         )}
                       </div>
                       {upload.status === 'completed' && (
-                        <Link href={`/analysis/${upload.id}`}>
-                          <Button>View Analysis</Button>
-                        </Link>
+                        <div className="flex gap-2">
+                          <Link href={`/quality/${upload.id}`}>
+                            <Button variant="outline">Data Quality</Button>
+                          </Link>
+                          <Link href={`/analysis/${upload.id}`}>
+                            <Button>View Analysis</Button>
+                          </Link>
+                        </div>
                       )}
                       {upload.status === 'failed' && upload.errorMessage && (
                         <div className="text-sm text-red-600 max-w-md">
@@ -112,6 +137,19 @@ export default function Dashboard() {
                         </div>
                       )}
                     </div>
+                    {upload.fiscalYearsByScope && (
+                      <div className="text-sm">
+                        <p className="text-slate-600 mb-1">Emissions fiscal years</p>
+                        <div className="grid grid-cols-3 gap-4">
+                          {(["scope1", "scope2", "scope3"] as const).map((scope, i) => (
+                            <div key={scope}>
+                              <span className="text-slate-500">Scope {i + 1}: </span>
+                              <span className="text-slate-900">{formatFiscalYears(upload.fiscalYearsByScope![scope])}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
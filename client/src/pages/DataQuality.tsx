@@ -0,0 +1,273 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "wouter";
+
+// Order matches COVERAGE_FIELDS in server/dataQuality.ts (bit i of each coverage cell)
+const COVERAGE_FIELDS = [
+  { key: "marketCap", label: "Market cap" },
+  { key: "priceEarnings", label: "P/E" },
+  { key: "netProfit", label: "Profit" },
+  { key: "scope1Emissions", label: "Scope 1" },
+  { key: "scope2Emissions", label: "Scope 2" },
+  { key: "scope3Emissions", label: "Scope 3" },
+] as const;
+
+const OUTLIER_LABELS: Record<string, string> = {
+  negative_pe: "Negative P/E",
+  zero_market_cap: "Zero market cap",
+  emissions_jump: "Emissions jump > 10×",
+};
+
+const PORTFOLIO_DROP_LABELS: Record<string, string> = {
+  used: "Used",
+  no_observation: "No row for company and date",
+  missing_market_cap: "Missing or non-positive market cap",
+  missing_denominator: "Missing revenue or EVIC",
+  missing_emissions: "Missing an included emissions scope",
+  missing_pe: "Missing P/E",
+  non_positive_pe: "Non-positive P/E",
+};
+
+const CARBON_PRICE_DROP_LABELS: Record<string, string> = {
+  used: "Used",
+  no_tercile: "No tercile assigned",
+  missing_market_cap: "Missing market cap",
+  missing_net_profit: "Missing net profit",
+  missing_emissions: "Missing an included emissions scope",
+};
+
+const CELL_COLORS = {
+  present: "#16a34a",
+  missing: "#fca5a5",
+  noRow: "#f1f5f9",
+};
+
+/**
+ * Company x date heatmap for one field; drawn on a canvas since uploads run to
+ * thousands of companies and hundreds of dates
+ */
+function CoverageHeatmap({ coverage, bit }: { coverage: number[][]; bit: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const rows = coverage.length;
+    const cols = rows > 0 ? coverage[0].length : 0;
+    canvas.width = Math.max(cols, 1);
+    canvas.height = Math.max(rows, 1);
+
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const mask = coverage[r][c];
+        ctx.fillStyle = mask < 0 ? CELL_COLORS.noRow : mask & (1 << bit) ? CELL_COLORS.present : CELL_COLORS.missing;
+        ctx.fillRect(c, r, 1, 1);
+      }
+    }
+  }, [coverage, bit]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-96 border rounded"
+      style={{ imageRendering: "pixelated" }}
+    />
+  );
+}
+
+function CountTable({ counts, labels }: { counts: Record<string, number>; labels: Record<string, string> }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {Object.entries(labels).map(([key, label]) => (
+          <tr key={key} className="border-b last:border-0">
+            <td className="py-2 text-slate-600">{label}</td>
+            <td className="py-2 text-right font-medium text-slate-900">{(counts[key] ?? 0).toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Data quality report for an upload: coverage, outliers and analysis filter drop-outs
+ */
+export default function DataQuality() {
+  const { uploadId } = useParams<{ uploadId: string }>();
+  const uploadIdNum = parseInt(uploadId || "0");
+
+  const [field, setField] = useState<number>(0);
+  const [includeScope3, setIncludeScope3] = useState(false);
+  const [includeEstimatedEmissions, setIncludeEstimatedEmissions] = useState(true);
+
+  const { data: uploadStatus } = trpc.data.getUploadStatus.useQuery({ uploadId: uploadIdNum }, { enabled: !!uploadId });
+  const { data: report, isLoading } = trpc.data.getQualityReport.useQuery(
+    { uploadId: uploadIdNum, includeScope3, includeEstimatedEmissions },
+    { enabled: !!uploadId && uploadStatus?.status === "completed" }
+  );
+
+  const firstDate = report?.dates[0];
+  const lastDate = report?.dates[report.dates.length - 1];
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200">
+        <div className="container mx-auto py-4 px-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href={`/analysis/${uploadIdNum}`}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Analysis
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900">Data Quality</h1>
+              <p className="text-sm text-slate-600">{uploadStatus?.filename || "Loading..."}</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto py-8 px-4 space-y-6">
+        {isLoading || !report ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <>
+            {/* Coverage */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Coverage</CardTitle>
+                <CardDescription>
+                  {report.companies.length.toLocaleString()} companies (rows, A-Z) × {report.dates.length.toLocaleString()} dates
+                  {firstDate && lastDate && ` (${new Date(firstDate).toLocaleDateString()} to ${new Date(lastDate).toLocaleDateString()})`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                  {COVERAGE_FIELDS.map((f, i) => (
+                    <button
+                      key={f.key}
+                      onClick={() => setField(i)}
+                      className={`rounded border p-3 text-left ${field === i ? "border-slate-900 bg-slate-100" : "bg-white"}`}
+                    >
+                      <p className="text-xs text-slate-600">{f.label}</p>
+                      <p className="text-lg font-semibold text-slate-900">
+                        {(report.fieldCoverage[f.key] * 100).toFixed(1)}%
+                      </p>
+                    </button>
+                  ))}
+                </div>
+                <CoverageHeatmap coverage={report.coverage} bit={field} />
+                <div className="flex gap-4 text-xs text-slate-600">
+                  <span><span className="inline-block w-3 h-3 mr-1 align-middle" style={{ background: CELL_COLORS.present }} />Value present</span>
+                  <span><span className="inline-block w-3 h-3 mr-1 align-middle" style={{ background: CELL_COLORS.missing }} />Missing</span>
+                  <span><span className="inline-block w-3 h-3 mr-1 align-middle border" style={{ background: CELL_COLORS.noRow }} />No row</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Filter drop-outs */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Rows Dropped by Analysis Filters</CardTitle>
+                <CardDescription>Company-date rows at each filter, for the options below</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex flex-wrap gap-6">
+                  <div className="flex items-center space-x-2">
+                    <Switch id="quality-scope3" checked={includeScope3} onCheckedChange={setIncludeScope3} />
+                    <Label htmlFor="quality-scope3" className="font-normal cursor-pointer">Include Scope 3 emissions</Label>
+                  </div>
+                  {!!uploadStatus?.estimatedValuesCount && (
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="quality-estimates"
+                        checked={includeEstimatedEmissions}
+                        onCheckedChange={setIncludeEstimatedEmissions}
+                      />
+                      <Label htmlFor="quality-estimates" className="font-normal cursor-pointer">Include estimated emissions</Label>
+                    </div>
+                  )}
+                </div>
+                <div className="grid md:grid-cols-2 gap-8">
+                  <div className="space-y-2">
+                    <Label className="text-base font-semibold">Portfolio metrics (P/E comparison)</Label>
+                    <CountTable counts={report.portfolioMetricsDrops} labels={PORTFOLIO_DROP_LABELS} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-base font-semibold">Total-based carbon price (sector-relative)</Label>
+                    <p className="text-xs text-slate-600">
+                      Top and bottom tercile rows; {report.carbonPriceDrops.datesSkipped.toLocaleString()} dates skipped for an empty tercile
+                    </p>
+                    <CountTable counts={report.carbonPriceDrops} labels={CARBON_PRICE_DROP_LABELS} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Outliers */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Outliers</CardTitle>
+                <CardDescription>
+                  {Object.entries(report.outlierCounts)
+                    .map(([type, count]) => `${OUTLIER_LABELS[type]}: ${count.toLocaleString()}`)
+                    .join(" · ")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.outliers.length === 0 ? (
+                  <p className="text-sm text-slate-600">No outliers flagged</p>
+                ) : (
+                  <div className="max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead className="sticky top-0 bg-white">
+                        <tr className="border-b text-left text-slate-600">
+                          <th className="py-2">Company</th>
+                          <th className="py-2">Date</th>
+                          <th className="py-2">Flag</th>
+                          <th className="py-2 text-right">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.outliers.map((flag, i) => {
+                          const company = report.companies.find(c => c.id === flag.companyId);
+                          const fieldLabel = COVERAGE_FIELDS.find(f => f.key === flag.field)?.label;
+                          return (
+                            <tr key={i} className="border-b last:border-0">
+                              <td className="py-2 text-slate-900">{company?.name ?? flag.companyId}</td>
+                              <td className="py-2 text-slate-600">{new Date(flag.date).toLocaleDateString()}</td>
+                              <td className="py-2 text-slate-600">
+                                {OUTLIER_LABELS[flag.type]}{flag.type === "emissions_jump" && ` (${fieldLabel})`}
+                              </td>
+                              <td className="py-2 text-right text-slate-900">
+                                {flag.previousValue !== null && `${flag.previousValue.toLocaleString()} → `}
+                                {flag.value.toLocaleString()}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
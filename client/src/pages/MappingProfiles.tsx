@@ -0,0 +1,280 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import {
+  DATASTREAM_COLUMN_MAPPING,
+  LOGICAL_SHEETS,
+  OPTIONAL_SHEETS,
+  type ColumnMapping,
+} from "@shared/columnMapping";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+
+const COLUMN_FIELDS: Array<{ key: keyof ColumnMapping["columns"]; label: string; hint: string }> = [
+  { key: "date", label: "Date", hint: "Date column on RI, MV, PE, Profit, Revenue and EVIC" },
+  { key: "companyName", label: "Company name", hint: "Descriptive sheet" },
+  { key: "isin", label: "ISIN", hint: "Descriptive sheet" },
+  { key: "geography", label: "Geography", hint: "Descriptive sheet" },
+  { key: "sector", label: "Sector", hint: "Descriptive sheet" },
+  { key: "industry", label: "Industry", hint: "Descriptive sheet" },
+  { key: "issuerIsin", label: "Issuer ISIN", hint: "S1/S2/S3, GreenRev, EmissionTargets" },
+  { key: "sdgAlignmentScore", label: "SDG alignment score", hint: "GreenRev sheet" },
+  { key: "emissionTarget2050", label: "2050 emission target", hint: "EmissionTargets sheet" },
+  { key: "fiscalYearEnd", label: "Fiscal year-end (optional)", hint: "Descriptive sheet; month or year-end date" },
+  { key: "snapshotDate", label: "Snapshot date (optional)", hint: "GreenRev and EmissionTargets; date each score or target applies from" },
+  { key: "emissionsTemplate", label: "Emissions column template", hint: "Use {scope} and {year} (two- or four-digit FY)" },
+];
+
+const SUFFIX_FIELDS: Array<{ key: keyof ColumnMapping["suffixes"]; label: string }> = [
+  { key: "totalReturn", label: "Total return (RI)" },
+  { key: "marketValue", label: "Market value (MV)" },
+  { key: "profit", label: "Profit" },
+  { key: "revenue", label: "Revenue (optional)" },
+  { key: "evic", label: "EVIC (optional)" },
+];
+
+type Draft = { id: number | null; name: string; config: ColumnMapping };
+
+const newDraft = (): Draft => ({
+  id: null,
+  name: "",
+  config: structuredClone(DATASTREAM_COLUMN_MAPPING),
+});
+
+/**
+ * Create and edit column-mapping profiles for non-Datastream workbooks
+ */
+export default function MappingProfiles() {
+  const [draft, setDraft] = useState<Draft>(newDraft);
+
+  const utils = trpc.useUtils();
+  const { data: profiles, isLoading } = trpc.mappingProfiles.list.useQuery();
+
+  const onSaved = () => {
+    toast.success("Profile saved");
+    utils.mappingProfiles.list.invalidate();
+  };
+  const onError = (error: { message: string }) => toast.error(`Save failed: ${error.message}`);
+
+  const createMutation = trpc.mappingProfiles.create.useMutation({
+    onSuccess: ({ id }) => {
+      setDraft(d => ({ ...d, id }));
+      onSaved();
+    },
+    onError,
+  });
+  const updateMutation = trpc.mappingProfiles.update.useMutation({ onSuccess: onSaved, onError });
+  const deleteMutation = trpc.mappingProfiles.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Profile deleted");
+      setDraft(newDraft());
+      utils.mappingProfiles.list.invalidate();
+    },
+    onError: (error) => toast.error(`Delete failed: ${error.message}`),
+  });
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  const setSection = <S extends "sheets" | "columns" | "suffixes">(
+    section: S,
+    key: keyof ColumnMapping[S],
+    value: string
+  ) => {
+    setDraft(d => ({
+      ...d,
+      config: { ...d.config, [section]: { ...d.config[section], [key]: value } },
+    }));
+  };
+
+  const handleSave = () => {
+    if (draft.id === null) {
+      createMutation.mutate({ name: draft.name, config: draft.config });
+    } else {
+      updateMutation.mutate({ id: draft.id, name: draft.name, config: draft.config });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="border-b bg-white">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-xl font-bold text-slate-900">Climate Scenario Analyzer</h1>
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link href="/upload">
+              <Button variant="ghost">Upload</Button>
+            </Link>
+            <Link href="/dashboard">
+              <Button variant="ghost">Dashboard</Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-900 mb-2">Column Mapping Profiles</h2>
+            <p className="text-slate-600">
+              Map sheet and column names from Bloomberg, Refinitiv or other exports onto the fields the analyzer expects
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-6">
+            {/* Profile List */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Profiles</CardTitle>
+                <CardDescription>Datastream is built in and always available</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Button variant="outline" className="w-full" onClick={() => setDraft(newDraft())}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Profile
+                </Button>
+                {isLoading ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-slate-400 mx-auto" />
+                ) : (
+                  profiles?.map(profile => (
+                    <Button
+                      key={profile.id}
+                      variant={draft.id === profile.id ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => setDraft({ id: profile.id, name: profile.name, config: profile.config })}
+                    >
+                      {profile.name}
+                    </Button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Editor */}
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>{draft.id === null ? "New Profile" : "Edit Profile"}</CardTitle>
+                <CardDescription>New profiles start from the Datastream layout</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-name" className="text-base font-semibold">Name</Label>
+                  <Input
+                    id="profile-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                    placeholder="e.g. Bloomberg export"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">Sheet Names</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {[...LOGICAL_SHEETS, ...OPTIONAL_SHEETS].map(sheet => (
+                      <div key={sheet} className="space-y-1">
+                        <Label htmlFor={`sheet-${sheet}`} className="text-sm font-normal text-slate-600">
+                          {sheet}{(OPTIONAL_SHEETS as readonly string[]).includes(sheet) && " (optional)"}
+                        </Label>
+                        <Input
+                          id={`sheet-${sheet}`}
+                          value={draft.config.sheets[sheet] ?? ""}
+                          onChange={(e) => setSection("sheets", sheet, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">Columns</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {COLUMN_FIELDS.map(field => (
+                      <div key={field.key} className="space-y-1">
+                        <Label htmlFor={`column-${field.key}`} className="text-sm font-normal text-slate-600">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={`column-${field.key}`}
+                          value={draft.config.columns[field.key] ?? ""}
+                          onChange={(e) => setSection("columns", field.key, e.target.value)}
+                        />
+                        <p className="text-xs text-slate-500">{field.hint}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">Company Column Suffixes</Label>
+                  <p className="text-sm text-slate-600">
+                    Wide sheets name each company column "&lt;company name&gt;&lt;suffix&gt;"
+                  </p>
+                  <div className="grid grid-cols-3 gap-3">
+                    {SUFFIX_FIELDS.map(field => (
+                      <div key={field.key} className="space-y-1">
+                        <Label htmlFor={`suffix-${field.key}`} className="text-sm font-normal text-slate-600">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={`suffix-${field.key}`}
+                          value={draft.config.suffixes[field.key] ?? ""}
+                          onChange={(e) => setSection("suffixes", field.key, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="pe-pattern" className="text-base font-semibold">PE Column Pattern</Label>
+                  <Input
+                    id="pe-pattern"
+                    className="font-mono"
+                    value={draft.config.peColumnPattern}
+                    onChange={(e) => setDraft(d => ({ ...d, config: { ...d.config, peColumnPattern: e.target.value } }))}
+                  />
+                  <p className="text-xs text-slate-500">Regular expression; capture group 1 must be the ISIN</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="metric-pattern" className="text-base font-semibold">GreenRev Metric Column Pattern</Label>
+                  <Input
+                    id="metric-pattern"
+                    className="font-mono"
+                    value={draft.config.metricColumnPattern ?? ""}
+                    placeholder={DATASTREAM_COLUMN_MAPPING.metricColumnPattern}
+                    onChange={(e) => setDraft(d => ({ ...d, config: { ...d.config, metricColumnPattern: e.target.value } }))}
+                  />
+                  <p className="text-xs text-slate-500">Regular expression; matching GreenRev columns (SDG alignment scores, green revenue shares) become metrics for solutions composites</p>
+                </div>
+
+                <div className="flex gap-3">
+                  <Button onClick={handleSave} disabled={saving || draft.name.trim() === ""}>
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Profile
+                  </Button>
+                  {draft.id !== null && (
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate({ id: draft.id! })}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
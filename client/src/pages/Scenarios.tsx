@@ -0,0 +1,281 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import {
+  DEFAULT_SCENARIO_CURVE,
+  DEFAULT_SCENARIO_NAME,
+  MAX_SCENARIO_POINTS,
+  interpolateDecarbRate,
+  isAscendingCurve,
+  type ScenarioCurve,
+} from "@shared/scenarios";
+import { Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+
+type Draft = { id: number | null; name: string; description: string; curve: ScenarioCurve };
+
+const newDraft = (): Draft => ({
+  id: null,
+  name: "",
+  description: "",
+  curve: structuredClone(DEFAULT_SCENARIO_CURVE),
+});
+
+/**
+ * Create and edit carbon price to decarbonization rate scenario curves
+ */
+export default function Scenarios() {
+  const [draft, setDraft] = useState<Draft>(newDraft);
+
+  const utils = trpc.useUtils();
+  const { data: scenarios, isLoading } = trpc.scenarios.list.useQuery();
+
+  const onError = (error: { message: string }) => toast.error(`Save failed: ${error.message}`);
+
+  const createMutation = trpc.scenarios.create.useMutation({
+    onSuccess: ({ id }) => {
+      setDraft(d => ({ ...d, id }));
+      toast.success("Scenario saved");
+      utils.scenarios.list.invalidate();
+    },
+    onError,
+  });
+  const updateMutation = trpc.scenarios.update.useMutation({
+    onSuccess: ({ resultsUpdated }) => {
+      toast.success(resultsUpdated > 0 ? `Scenario saved; ${resultsUpdated} stored results updated` : "Scenario saved");
+      utils.scenarios.list.invalidate();
+    },
+    onError,
+  });
+  const deleteMutation = trpc.scenarios.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Scenario deleted");
+      setDraft(newDraft());
+      utils.scenarios.list.invalidate();
+    },
+    onError: (error) => toast.error(`Delete failed: ${error.message}`),
+  });
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+  const curveValid = draft.curve.length > 0 && isAscendingCurve(draft.curve) && draft.curve.every(p => p.carbonPrice > 0);
+
+  const setPoint = (index: number, key: "carbonPrice" | "decarbRate", value: number) => {
+    setDraft(d => ({
+      ...d,
+      curve: d.curve.map((point, i) => (i === index ? { ...point, [key]: value } : point)),
+    }));
+  };
+
+  const handleSave = () => {
+    const input = { name: draft.name, description: draft.description.trim() || null, curve: draft.curve };
+    if (draft.id === null) {
+      createMutation.mutate(input);
+    } else {
+      updateMutation.mutate({ id: draft.id, ...input });
+    }
+  };
+
+  // Sample the curve from $0 to 1.5x the last point so the flat tail shows
+  const maxPrice = Math.max(...draft.curve.map(p => p.carbonPrice), 0) * 1.5 || 300;
+  const previewData = curveValid
+    ? Array.from({ length: 61 }, (_, i) => {
+        const carbonPrice = (maxPrice * i) / 60;
+        return { carbonPrice: Math.round(carbonPrice), decarbRate: interpolateDecarbRate(draft.curve, carbonPrice) * 100 };
+      })
+    : [];
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="border-b bg-white">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-xl font-bold text-slate-900">Climate Scenario Analyzer</h1>
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link href="/upload">
+              <Button variant="ghost">Upload</Button>
+            </Link>
+            <Link href="/dashboard">
+              <Button variant="ghost">Dashboard</Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-900 mb-2">Decarbonization Scenarios</h2>
+            <p className="text-slate-600">
+              Curves that turn an implied carbon price into an annual emission reduction rate, e.g. NGFS Net Zero 2050 or Delayed Transition
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-6">
+            {/* Scenario List */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Scenarios</CardTitle>
+                <CardDescription>{DEFAULT_SCENARIO_NAME} is always available</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Button variant="outline" className="w-full" onClick={() => setDraft(newDraft())}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Scenario
+                </Button>
+                {isLoading ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-slate-400 mx-auto" />
+                ) : (
+                  scenarios?.map(scenario => (
+                    <Button
+                      key={scenario.id}
+                      variant={draft.id === scenario.id ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => setDraft({
+                        id: scenario.id,
+                        name: scenario.name,
+                        description: scenario.description ?? "",
+                        curve: scenario.curve,
+                      })}
+                    >
+                      {scenario.name}
+                    </Button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Editor */}
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>{draft.id === null ? "New Scenario" : "Edit Scenario"}</CardTitle>
+                <CardDescription>
+                  New scenarios start from the built-in curve. Saving a scenario recomputes the stored rates of results that use it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="scenario-name" className="text-base font-semibold">Name</Label>
+                    <Input
+                      id="scenario-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                      placeholder="e.g. NGFS Net Zero 2050"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="scenario-description" className="text-base font-semibold">Description</Label>
+                    <Input
+                      id="scenario-description"
+                      value={draft.description}
+                      onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+                      placeholder="Source or vintage (optional)"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">Curve Points</Label>
+                  <p className="text-sm text-slate-600">
+                    Linear between points and from $0 → 0% to the first point; held flat above the last point
+                  </p>
+                  <div className="space-y-2">
+                    {draft.curve.map((point, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                        <div className="space-y-1">
+                          <Label htmlFor={`price-${index}`} className="text-sm font-normal text-slate-600">Carbon price ($/tCO2)</Label>
+                          <Input
+                            id={`price-${index}`}
+                            type="number"
+                            min={0}
+                            value={point.carbonPrice}
+                            onChange={(e) => setPoint(index, "carbonPrice", parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`rate-${index}`} className="text-sm font-normal text-slate-600">Annual reduction (%)</Label>
+                          <Input
+                            id={`rate-${index}`}
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={0.1}
+                            value={+(point.decarbRate * 100).toFixed(4)}
+                            onChange={(e) => setPoint(index, "decarbRate", (parseFloat(e.target.value) || 0) / 100)}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDraft(d => ({ ...d, curve: d.curve.filter((_, i) => i !== index) }))}
+                          disabled={draft.curve.length <= 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft(d => {
+                      const last = d.curve[d.curve.length - 1];
+                      return { ...d, curve: [...d.curve, { carbonPrice: (last?.carbonPrice ?? 0) + 50, decarbRate: last?.decarbRate ?? 0 }] };
+                    })}
+                    disabled={draft.curve.length >= MAX_SCENARIO_POINTS}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Point
+                  </Button>
+                  {!curveValid && (
+                    <p className="text-sm text-red-600">Carbon prices must be positive and strictly increasing</p>
+                  )}
+                </div>
+
+                {previewData.length > 0 && (
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={previewData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis dataKey="carbonPrice" tick={{ fontSize: 12 }} tickFormatter={(v) => `$${v}`} />
+                      <YAxis tick={{ fontSize: 12 }} tickFormatter={(v: number) => `${v.toFixed(1)}%`} />
+                      <Tooltip
+                        formatter={(value: number) => [`${value.toFixed(2)}%`, "Annual reduction"]}
+                        labelFormatter={(label) => `$${label}/tCO2`}
+                      />
+                      <Line type="linear" dataKey="decarbRate" stroke="#10b981" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+
+                <div className="flex gap-3">
+                  <Button onClick={handleSave} disabled={saving || draft.name.trim() === "" || !curveValid}>
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Scenario
+                  </Button>
+                  {draft.id !== null && (
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate({ id: draft.id! })}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,11 +1,25 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { Upload as UploadIcon, FileSpreadsheet, Loader2, CheckCircle2, XCircle } from "lucide-react";
-import { useState, useRef } from "react";
+import { UploadProgress } from "@/components/UploadProgress";
+import { WorkbookValidationReport } from "@/components/WorkbookValidationReport";
+import { useEffect, useState, useRef } from "react";
 import { Link, useLocation } from "wouter";
 import { toast } from "sonner";
+import { DEFAULT_ESTIMATION_OPTIONS, type EstimationOptions } from "@shared/estimation";
+
+const EXCEL_EXTENSIONS = [".xlsx", ".xls"];
+// Pre-tidied long-format files (one row per ISIN x date) skip workbook validation
+const LONG_FORMAT_EXTENSIONS = [".csv", ".parquet"];
+
+const hasExtension = (filename: string, extensions: string[]) =>
+  extensions.some(ext => filename.toLowerCase().endsWith(ext));
 
 export default function Upload() {
   // Auth removed - public access
@@ -13,13 +27,32 @@ export default function Upload() {
   const [, setLocation] = useLocation();
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [processingUploadId, setProcessingUploadId] = useState<number | null>(null);
+  const [stagedUpload, setStagedUpload] = useState<{
+    filename: string;
+    fileKey: string;
+    fileUrl: string;
+    mappingProfileId: number | null;
+  } | null>(null);
+  // "datastream" selects the built-in layout; otherwise a saved profile id
+  const [mappingProfile, setMappingProfile] = useState<string>("datastream");
+  // Emissions alignment, applied when the upload is committed
+  const [publicationLagMonths, setPublicationLagMonths] = useState(6);
+  const [fiscalYearEndFile, setFiscalYearEndFile] = useState<File | null>(null);
+  const [estimationOptions, setEstimationOptions] = useState<EstimationOptions>(DEFAULT_ESTIMATION_OPTIONS);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const { data: mappingProfiles } = trpc.mappingProfiles.list.useQuery();
+  const mappingProfileId = mappingProfile === "datastream" ? null : parseInt(mappingProfile);
+  const isLongFormat = file !== null && hasExtension(file.name, LONG_FORMAT_EXTENSIONS);
+
   const getUploadUrlMutation = trpc.data.getUploadUrl.useMutation();
+  const validateWorkbookMutation = trpc.data.validateWorkbook.useMutation();
+  const validationReport = validateWorkbookMutation.data;
   const processUploadMutation = trpc.data.processUpload.useMutation({
     onSuccess: (data) => {
       toast.success("File uploaded successfully! Processing data...");
-      setLocation(`/analysis/${data.uploadId}`);
+      setProcessingUploadId(data.uploadId);
     },
     onError: (error) => {
       toast.error(`Processing failed: ${error.message}`);
@@ -27,15 +60,66 @@ export default function Upload() {
     },
   });
 
+  // Same query the progress bar polls; used here to move on once processing finishes
+  const { data: progress } = trpc.data.getUploadProgress.useQuery(
+    { uploadId: processingUploadId ?? 0 },
+    { enabled: processingUploadId !== null }
+  );
+
+  useEffect(() => {
+    if (!progress || processingUploadId === null) return;
+    if (progress.status === 'completed') {
+      toast.success("Data processing completed!");
+      setLocation(`/analysis/${processingUploadId}`);
+    } else if (progress.status === 'failed') {
+      toast.error(`Processing failed: ${progress.errorMessage ?? 'Unknown error'}`);
+      setProcessingUploadId(null);
+      setUploading(false);
+    }
+  }, [progress?.status, processingUploadId]);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      if (!selectedFile.name.endsWith('.xlsx') && !selectedFile.name.endsWith('.xls')) {
-        toast.error("Please select an Excel file (.xlsx or .xls)");
+      if (!hasExtension(selectedFile.name, [...EXCEL_EXTENSIONS, ...LONG_FORMAT_EXTENSIONS])) {
+        toast.error("Please select an Excel (.xlsx, .xls), CSV or Parquet file");
         return;
       }
       setFile(selectedFile);
+      resetValidation();
+    }
+  };
+
+  const resetValidation = () => {
+    setStagedUpload(null);
+    validateWorkbookMutation.reset();
+  };
+
+  const uploadToStorage = async (fileToUpload: File) => {
+    // Step 1: Get pre-signed S3 upload URL
+    const { uploadUrl, apiKey, fileKey } = await getUploadUrlMutation.mutateAsync({
+      filename: fileToUpload.name,
+    });
+
+    // Step 2: Upload file directly to S3
+    const formData = new FormData();
+    formData.append('file', fileToUpload);
+
+    const uploadResponse = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: formData,
+    });
+
+    if (!uploadResponse.ok) {
+      const errorText = await uploadResponse.text();
+      throw new Error(`S3 upload failed: ${errorText}`);
     }
+
+    const uploadResult = await uploadResponse.json();
+    return { fileKey, fileUrl: uploadResult.url as string };
   };
 
   const handleUpload = async () => {
@@ -47,40 +131,30 @@ export default function Upload() {
     setUploading(true);
 
     try {
-      // Step 1: Get pre-signed S3 upload URL
-      toast.info("Preparing upload...");
-      const { uploadUrl, apiKey, fileKey } = await getUploadUrlMutation.mutateAsync({
-        filename: file.name,
-      });
-
-      // Step 2: Upload file directly to S3
       toast.info("Uploading file to cloud storage...");
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const uploadResponse = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: formData,
-      });
-
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        throw new Error(`S3 upload failed: ${errorText}`);
-      }
+      const { fileKey, fileUrl } = await uploadToStorage(file);
 
-      const uploadResult = await uploadResponse.json();
-      const fileUrl = uploadResult.url;
+      if (isLongFormat) {
+        // Long-format files go straight to processing
+        const fiscalYearEndFileUrl = fiscalYearEndFile ? (await uploadToStorage(fiscalYearEndFile)).fileUrl : null;
+        toast.info("Processing data...");
+        await processUploadMutation.mutateAsync({
+          filename: file.name,
+          fileKey,
+          fileUrl,
+          mappingProfileId: null,
+          publicationLagMonths,
+          fiscalYearEndFileUrl,
+          estimationOptions,
+        });
+        return;
+      }
 
-      // Step 3: Notify backend to process the uploaded file
-      toast.info("Processing data...");
-      await processUploadMutation.mutateAsync({
-        filename: file.name,
-        fileKey,
-        fileUrl,
-      });
+      // Step 3: Validate the workbook; nothing is ingested until the user commits
+      toast.info("Validating workbook...");
+      await validateWorkbookMutation.mutateAsync({ fileUrl, mappingProfileId });
+      setStagedUpload({ filename: file.name, fileKey, fileUrl, mappingProfileId });
+      setUploading(false);
     } catch (error) {
       console.error('Upload error:', error);
       toast.error(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -88,6 +162,31 @@ export default function Upload() {
     }
   };
 
+  const handleCommit = async () => {
+    if (!stagedUpload) return;
+
+    setUploading(true);
+
+    let fiscalYearEndFileUrl: string | null = null;
+    if (fiscalYearEndFile) {
+      try {
+        fiscalYearEndFileUrl = (await uploadToStorage(fiscalYearEndFile)).fileUrl;
+      } catch (error) {
+        toast.error(`Fiscal year-end file upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        setUploading(false);
+        return;
+      }
+    }
+
+    try {
+      // Step 4: Notify backend to process the validated file
+      toast.info("Processing data...");
+      await processUploadMutation.mutateAsync({ ...stagedUpload, publicationLagMonths, fiscalYearEndFileUrl, estimationOptions });
+    } catch (error) {
+      console.error('Upload error:', error);
+    }
+  };
+
   // Public access - no auth check
 
   return (
@@ -122,7 +221,10 @@ export default function Upload() {
             <CardHeader>
               <CardTitle>Select Data File</CardTitle>
               <CardDescription>
-                Your Excel file should contain the following sheets: Descriptive, RI, MV, S1, S2, S3, PE, GreenRev, EmissionTargets
+                Your Excel file should contain the following sheets: Descriptive, RI, MV, S1, S2, S3, PE, Profit, GreenRev, EmissionTargets.
+                Workbooks from other providers can be ingested with a saved column-mapping profile.
+                Long-format CSV or Parquet files need one row per ISIN and date with isin, date, market_cap,
+                price_earnings, net_profit and scope1/2/3_emissions columns.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -134,7 +236,7 @@ export default function Upload() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".xlsx,.xls"
+                  accept={[...EXCEL_EXTENSIONS, ...LONG_FORMAT_EXTENSIONS].join(",")}
                   onChange={handleFileSelect}
                   className="hidden"
                 />
@@ -151,6 +253,7 @@ export default function Upload() {
                       onClick={(e) => {
                         e.stopPropagation();
                         setFile(null);
+                        resetValidation();
                       }}
                     >
                       Remove
@@ -159,7 +262,7 @@ export default function Upload() {
                 ) : (
                   <div>
                     <p className="text-lg font-medium text-slate-900 mb-2">
-                      Click to select Excel file
+                      Click to select Excel, CSV or Parquet file
                     </p>
                     <p className="text-sm text-slate-600">
                       or drag and drop your file here
@@ -168,28 +271,183 @@ export default function Upload() {
                 )}
               </div>
 
-              {/* Upload Button */}
-              <Button
-                onClick={handleUpload}
-                disabled={!file || uploading}
-                className="w-full"
-                size="lg"
-              >
-                {uploading ? (
-                  <>
-                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                    Uploading and Processing...
-                  </>
-                ) : (
-                  <>
-                    <UploadIcon className="mr-2 h-5 w-5" />
-                    Upload and Analyze
-                  </>
-                )}
-              </Button>
+              {/* Column Mapping Profile (Excel workbooks only) */}
+              {!isLongFormat && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-base font-semibold">Column Mapping</Label>
+                    <Link href="/mapping-profiles">
+                      <Button variant="link" size="sm" className="px-0">Manage profiles</Button>
+                    </Link>
+                  </div>
+                  <Select
+                    value={mappingProfile}
+                    onValueChange={(value) => {
+                      setMappingProfile(value);
+                      resetValidation();
+                    }}
+                    disabled={uploading || processingUploadId !== null}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="datastream">Datastream (built-in)</SelectItem>
+                      {mappingProfiles?.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id.toString()}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Emissions Alignment */}
+              <div className="space-y-3">
+                <Label className="text-base font-semibold">Emissions Alignment</Label>
+                <p className="text-sm text-slate-600">
+                  Each fiscal year's emissions are used only once its year-end plus the publication lag has passed.
+                  Year-ends come from the Descriptive sheet or a long-format fiscal_year_end column (June if unknown) unless a mapping file is given.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="publication-lag" className="text-sm font-normal text-slate-600">
+                      Publication lag (months)
+                    </Label>
+                    <Input
+                      id="publication-lag"
+                      type="number"
+                      min={0}
+                      max={36}
+                      value={publicationLagMonths}
+                      onChange={(e) => setPublicationLagMonths(Math.min(36, Math.max(0, parseInt(e.target.value) || 0)))}
+                      disabled={uploading || processingUploadId !== null}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="fye-file" className="text-sm font-normal text-slate-600">
+                      Fiscal year-end mapping (CSV: isin, fiscal_year_end)
+                    </Label>
+                    <Input
+                      id="fye-file"
+                      type="file"
+                      accept=".csv"
+                      onChange={(e) => setFiscalYearEndFile(e.target.files?.[0] ?? null)}
+                      disabled={uploading || processingUploadId !== null}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Emissions Gap-Filling */}
+              <div className="space-y-3">
+                <Label className="text-base font-semibold">Emissions Gap-Filling</Label>
+                <p className="text-sm text-slate-600">
+                  Missing Scope 1/2/3 values can be estimated. Estimates are flagged and can be excluded on the Analysis page.
+                </p>
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="estimate-interpolate"
+                      checked={estimationOptions.interpolate}
+                      onCheckedChange={(checked) => setEstimationOptions(prev => ({ ...prev, interpolate: checked === true }))}
+                      disabled={uploading || processingUploadId !== null}
+                    />
+                    <Label htmlFor="estimate-interpolate" className="font-normal cursor-pointer">
+                      Interpolate between reported years
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="estimate-carry-forward"
+                      checked={estimationOptions.carryForward}
+                      onCheckedChange={(checked) => setEstimationOptions(prev => ({ ...prev, carryForward: checked === true }))}
+                      disabled={uploading || processingUploadId !== null}
+                    />
+                    <Label htmlFor="estimate-carry-forward" className="font-normal cursor-pointer">
+                      Carry the last reported value forward for up to
+                    </Label>
+                    <Input
+                      id="estimate-max-age"
+                      type="number"
+                      min={1}
+                      max={120}
+                      className="w-20 h-8"
+                      value={estimationOptions.maxAgeMonths}
+                      onChange={(e) => setEstimationOptions(prev => ({
+                        ...prev,
+                        maxAgeMonths: Math.min(120, Math.max(1, parseInt(e.target.value) || 1)),
+                      }))}
+                      disabled={!estimationOptions.carryForward || uploading || processingUploadId !== null}
+                    />
+                    <span className="text-sm text-slate-600">months</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="estimate-sector-median"
+                      checked={estimationOptions.sectorMedian}
+                      onCheckedChange={(checked) => setEstimationOptions(prev => ({ ...prev, sectorMedian: checked === true }))}
+                      disabled={uploading || processingUploadId !== null}
+                    />
+                    <Label htmlFor="estimate-sector-median" className="font-normal cursor-pointer">
+                      Use sector-median intensity × market cap for anything still missing
+                    </Label>
+                  </div>
+                </div>
+              </div>
+
+              {/* Processing Progress */}
+              {processingUploadId !== null && (
+                <UploadProgress uploadId={processingUploadId} />
+              )}
+
+              {/* Upload / Commit Button */}
+              {stagedUpload && validationReport ? (
+                <Button
+                  onClick={handleCommit}
+                  disabled={!validationReport.canIngest || uploading || processingUploadId !== null}
+                  className="w-full"
+                  size="lg"
+                >
+                  {uploading ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle2 className="mr-2 h-5 w-5" />
+                      Commit and Analyze
+                    </>
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleUpload}
+                  disabled={!file || uploading}
+                  className="w-full"
+                  size="lg"
+                >
+                  {uploading ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      {isLongFormat ? "Uploading..." : "Uploading and Validating..."}
+                    </>
+                  ) : (
+                    <>
+                      <UploadIcon className="mr-2 h-5 w-5" />
+                      {isLongFormat ? "Upload and Analyze" : "Upload and Validate"}
+                    </>
+                  )}
+                </Button>
+              )}
             </CardContent>
           </Card>
 
+          {/* Validation Report */}
+          {validationReport && <WorkbookValidationReport report={validationReport} />}
+
           {/* Data Requirements */}
           <Card>
             <CardHeader>
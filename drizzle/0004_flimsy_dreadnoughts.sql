@@ -0,0 +1,5 @@
+ALTER TABLE `companies` DROP INDEX `companies_isin_unique`;--> statement-breakpoint
+ALTER TABLE `companies` ADD `upload_id` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `time_series` ADD `upload_id` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `companies` ADD CONSTRAINT `upload_isin_idx` UNIQUE(`upload_id`,`isin`);--> statement-breakpoint
+CREATE INDEX `upload_date_idx` ON `time_series` (`upload_id`,`date`);
\ No newline at end of file
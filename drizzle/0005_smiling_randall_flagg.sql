@@ -0,0 +1,17 @@
+CREATE TABLE `upload_jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`upload_id` int NOT NULL,
+	`status` enum('pending','running','completed','failed') NOT NULL DEFAULT 'pending',
+	`completed_stage` enum('parse','companies','time_series','terciles','carbon_price'),
+	`attempts` int NOT NULL DEFAULT 0,
+	`max_attempts` int NOT NULL DEFAULT 5,
+	`next_run_at` timestamp NOT NULL DEFAULT (now()),
+	`last_error` text,
+	`startedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `upload_jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `upload_job_upload_idx` UNIQUE(`upload_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `status_next_run_idx` ON `upload_jobs` (`status`,`next_run_at`);
\ No newline at end of file
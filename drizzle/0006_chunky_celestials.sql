@@ -0,0 +1,3 @@
+ALTER TABLE `data_uploads` ADD `progress_stage` enum('parse','companies','time_series','terciles','carbon_price');--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `progress_rows_done` int;--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `progress_rows_total` int;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `column_mapping_profiles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`config` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `column_mapping_profiles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `mapping_profile_name_idx` UNIQUE(`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `mapping_profile_id` int;
\ No newline at end of file
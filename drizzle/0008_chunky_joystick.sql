@@ -0,0 +1 @@
+ALTER TABLE `data_uploads` ADD `fiscal_years_by_scope` json;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `companies` ADD `fiscal_year_end_month` int;--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `publication_lag_months` int DEFAULT 6 NOT NULL;--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `fiscal_year_end_file_url` text;
\ No newline at end of file
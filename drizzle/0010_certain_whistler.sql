@@ -0,0 +1,11 @@
+ALTER TABLE `carbon_price_cache` DROP INDEX `upload_date_method_params_idx`;--> statement-breakpoint
+ALTER TABLE `company_terciles` DROP INDEX `upload_company_date_method_idx`;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `include_estimates` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `company_terciles` ADD `include_estimates` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `estimation_options` json;--> statement-breakpoint
+ALTER TABLE `data_uploads` ADD `estimated_values_count` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `time_series` ADD `scope1_source` enum('reported','carried_forward','interpolated','sector_median');--> statement-breakpoint
+ALTER TABLE `time_series` ADD `scope2_source` enum('reported','carried_forward','interpolated','sector_median');--> statement-breakpoint
+ALTER TABLE `time_series` ADD `scope3_source` enum('reported','carried_forward','interpolated','sector_median');--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD CONSTRAINT `upload_date_method_params_idx` UNIQUE(`upload_id`,`date`,`method`,`include_scope3`,`include_estimates`,`winsorize`,`winsorize_percentile`);--> statement-breakpoint
+ALTER TABLE `company_terciles` ADD CONSTRAINT `upload_company_date_method_idx` UNIQUE(`upload_id`,`company_id`,`date`,`method`,`include_scope3`,`include_estimates`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE `carbon_price_cache` DROP INDEX `upload_date_method_params_idx`;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `implied_carbon_price_lower` float;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `implied_carbon_price_upper` float;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `implied_carbon_price_std_error` float;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `implied_decarb_rate_lower` float;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `implied_decarb_rate_upper` float;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `bootstrap_iterations` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `bootstrap_strata` enum('tercile','sector') DEFAULT 'tercile' NOT NULL;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `confidence_level` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `implied_carbon_price_lower` float;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `implied_carbon_price_upper` float;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `implied_carbon_price_std_error` float;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD CONSTRAINT `upload_date_method_params_idx` UNIQUE(`upload_id`,`date`,`method`,`include_scope3`,`include_estimates`,`winsorize`,`winsorize_percentile`,`bootstrap_iterations`,`bootstrap_strata`,`confidence_level`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `analysis_results` ADD `weighting` enum('equal','market_cap','sqrt_market_cap','aggregate') DEFAULT 'equal' NOT NULL;
\ No newline at end of file
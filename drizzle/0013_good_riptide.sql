@@ -0,0 +1,10 @@
+ALTER TABLE `carbon_price_cache` DROP INDEX `upload_date_method_params_idx`;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `bucket_count` int DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `bucket_index` int;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `bucket_count` int DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `low_bucket` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `high_bucket` int DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE `company_terciles` ADD `intensity_rank` int;--> statement-breakpoint
+ALTER TABLE `company_terciles` ADD `ranked_count` int;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD CONSTRAINT `upload_date_method_params_idx` UNIQUE(`upload_id`,`date`,`method`,`include_scope3`,`include_estimates`,`winsorize`,`winsorize_percentile`,`bootstrap_iterations`,`bootstrap_strata`,`confidence_level`,`bucket_count`,`low_bucket`,`high_bucket`);--> statement-breakpoint
+UPDATE `company_terciles` ct JOIN (SELECT t.`id`, ROW_NUMBER() OVER w - 1 AS `intensity_rank`, COUNT(*) OVER w AS `ranked_count` FROM `company_terciles` t JOIN `companies` c ON c.`id` = t.`company_id` WHERE t.`carbon_intensity` IS NOT NULL AND (t.`method` = 'absolute' OR c.`sector` IS NOT NULL) WINDOW w AS (PARTITION BY t.`upload_id`, t.`date`, t.`method`, t.`include_scope3`, t.`include_estimates`, CASE WHEN t.`method` = 'sector_relative' THEN c.`sector` END ORDER BY t.`carbon_intensity`)) ranked ON ranked.`id` = ct.`id` SET ct.`intensity_rank` = ranked.`intensity_rank`, ct.`ranked_count` = ranked.`ranked_count`;
@@ -0,0 +1,12 @@
+CREATE TABLE `decarbonization_scenarios` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`curve` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `decarbonization_scenarios_id` PRIMARY KEY(`id`),
+	CONSTRAINT `scenario_name_idx` UNIQUE(`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `scenario_id` int;
\ No newline at end of file
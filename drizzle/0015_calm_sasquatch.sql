@@ -0,0 +1,2 @@
+ALTER TABLE `analysis_results` ADD `dcf_parameters` json;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `dcf_sensitivities` json;
\ No newline at end of file
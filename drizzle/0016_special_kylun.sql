@@ -0,0 +1,9 @@
+ALTER TABLE `carbon_price_cache` DROP INDEX `upload_date_method_params_idx`;--> statement-breakpoint
+ALTER TABLE `company_terciles` DROP INDEX `upload_company_date_method_idx`;--> statement-breakpoint
+ALTER TABLE `analysis_results` ADD `intensity_denominator` enum('market_cap','revenue','evic') DEFAULT 'market_cap' NOT NULL;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD `intensity_denominator` enum('market_cap','revenue','evic') DEFAULT 'market_cap' NOT NULL;--> statement-breakpoint
+ALTER TABLE `company_terciles` ADD `intensity_denominator` enum('market_cap','revenue','evic') DEFAULT 'market_cap' NOT NULL;--> statement-breakpoint
+ALTER TABLE `time_series` ADD `revenue` float;--> statement-breakpoint
+ALTER TABLE `time_series` ADD `evic` float;--> statement-breakpoint
+ALTER TABLE `carbon_price_cache` ADD CONSTRAINT `upload_date_method_params_idx` UNIQUE(`upload_id`,`date`,`method`,`include_scope3`,`include_estimates`,`winsorize`,`winsorize_percentile`,`bootstrap_iterations`,`bootstrap_strata`,`confidence_level`,`bucket_count`,`low_bucket`,`high_bucket`,`intensity_denominator`);--> statement-breakpoint
+ALTER TABLE `company_terciles` ADD CONSTRAINT `upload_company_date_method_idx` UNIQUE(`upload_id`,`company_id`,`date`,`method`,`include_scope3`,`include_estimates`,`intensity_denominator`);
\ No newline at end of file
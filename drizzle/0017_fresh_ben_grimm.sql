@@ -0,0 +1 @@
+ALTER TABLE `analysis_results` MODIFY COLUMN `investment_type` enum('low_carbon','decarbonizing','solutions','credible_decarbonizers') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE `emission_target_snapshots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`upload_id` int NOT NULL,
+	`company_id` int NOT NULL,
+	`snapshot_date` timestamp NOT NULL,
+	`emission_target_2050` float NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `emission_target_snapshots_id` PRIMARY KEY(`id`),
+	CONSTRAINT `company_snapshot_idx` UNIQUE(`company_id`,`snapshot_date`)
+);
+--> statement-breakpoint
+CREATE TABLE `sdg_alignment_snapshots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`upload_id` int NOT NULL,
+	`company_id` int NOT NULL,
+	`snapshot_date` timestamp NOT NULL,
+	`sdg_alignment_score` float NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `sdg_alignment_snapshots_id` PRIMARY KEY(`id`),
+	CONSTRAINT `company_snapshot_idx` UNIQUE(`company_id`,`snapshot_date`)
+);
+--> statement-breakpoint
+CREATE INDEX `upload_idx` ON `emission_target_snapshots` (`upload_id`);--> statement-breakpoint
+CREATE INDEX `upload_idx` ON `sdg_alignment_snapshots` (`upload_id`);
\ No newline at end of file
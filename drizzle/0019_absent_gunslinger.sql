@@ -0,0 +1,13 @@
+CREATE TABLE `company_metrics` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`upload_id` int NOT NULL,
+	`company_id` int NOT NULL,
+	`metric_key` varchar(100) NOT NULL,
+	`snapshot_date` timestamp,
+	`value` float NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `company_metrics_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `company_metric_idx` ON `company_metrics` (`company_id`,`metric_key`);--> statement-breakpoint
+CREATE INDEX `upload_idx` ON `company_metrics` (`upload_id`);
\ No newline at end of file
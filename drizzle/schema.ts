@@ -1,4 +1,9 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, float, index, unique } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, float, index, unique, json } from "drizzle-orm/mysql-core";
+import type { ColumnMapping } from "../shared/columnMapping";
+import type { ScenarioCurve } from "../shared/scenarios";
+import type { FiscalYearsByScope } from "../shared/fiscalYears";
+import type { EstimationOptions } from "../shared/estimation";
+import type { DcfParameters, DcfSensitivities } from "../shared/dcf";
 
 /**
  * Core user table backing auth flow.
@@ -19,19 +24,23 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
 /**
- * Companies master data
+ * Companies master data (one row per ISIN per upload)
  */
 export const companies = mysqlTable("companies", {
   id: int("id").autoincrement().primaryKey(),
-  isin: varchar("isin", { length: 12 }).notNull().unique(),
+  uploadId: int("upload_id").notNull(),
+  isin: varchar("isin", { length: 12 }).notNull(),
   name: text("name").notNull(),
   geography: varchar("geography", { length: 100 }),
   sector: varchar("sector", { length: 100 }),
   industry: varchar("industry", { length: 100 }),
   sdgAlignmentScore: float("sdg_alignment_score"),
   emissionTarget2050: float("emission_target_2050"),
+  // Month (1-12) the company's fiscal year ends; null when unknown (June assumed)
+  fiscalYearEndMonth: int("fiscal_year_end_month"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
+  uploadIsinIdx: unique("upload_isin_idx").on(table.uploadId, table.isin),
   isinIdx: index("isin_idx").on(table.isin),
   geographyIdx: index("geography_idx").on(table.geography),
   sectorIdx: index("sector_idx").on(table.sector),
@@ -41,10 +50,11 @@ export type Company = typeof companies.$inferSelect;
 export type InsertCompany = typeof companies.$inferInsert;
 
 /**
- * Time series data for companies
+ * Time series data for companies (scoped to the owning upload)
  */
 export const timeSeries = mysqlTable("time_series", {
   id: int("id").autoincrement().primaryKey(),
+  uploadId: int("upload_id").notNull(),
   companyId: int("company_id").notNull(),
   date: timestamp("date").notNull(),
   totalReturnIndex: float("total_return_index"),
@@ -54,15 +64,84 @@ export const timeSeries = mysqlTable("time_series", {
   scope2Emissions: float("scope2_emissions"),
   scope3Emissions: float("scope3_emissions"),
   netProfit: float("net_profit"),
+  // Optional intensity denominators (Revenue and EVIC sheets)
+  revenue: float("revenue"),
+  evic: float("evic"),
+  // Provenance of each emissions value (see server/emissionsEstimator.ts); null when the value is missing
+  scope1Source: mysqlEnum("scope1_source", ["reported", "carried_forward", "interpolated", "sector_median"]),
+  scope2Source: mysqlEnum("scope2_source", ["reported", "carried_forward", "interpolated", "sector_median"]),
+  scope3Source: mysqlEnum("scope3_source", ["reported", "carried_forward", "interpolated", "sector_median"]),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
   companyDateIdx: unique("company_date_idx").on(table.companyId, table.date),
+  uploadDateIdx: index("upload_date_idx").on(table.uploadId, table.date),
   dateIdx: index("date_idx").on(table.date),
 }));
 
 export type TimeSeries = typeof timeSeries.$inferSelect;
 export type InsertTimeSeries = typeof timeSeries.$inferInsert;
 
+/**
+ * Dated 2050 emission targets, so each analysis date sees only targets set by
+ * then. companies.emissionTarget2050 holds the latest value.
+ */
+export const emissionTargetSnapshots = mysqlTable("emission_target_snapshots", {
+  id: int("id").autoincrement().primaryKey(),
+  uploadId: int("upload_id").notNull(),
+  companyId: int("company_id").notNull(),
+  // First date the target applies
+  snapshotDate: timestamp("snapshot_date").notNull(),
+  emissionTarget2050: float("emission_target_2050").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  companySnapshotIdx: unique("company_snapshot_idx").on(table.companyId, table.snapshotDate),
+  uploadIdx: index("upload_idx").on(table.uploadId),
+}));
+
+export type EmissionTargetSnapshot = typeof emissionTargetSnapshots.$inferSelect;
+export type InsertEmissionTargetSnapshot = typeof emissionTargetSnapshots.$inferInsert;
+
+/**
+ * Dated SDG alignment scores; companies.sdgAlignmentScore holds the latest value
+ */
+export const sdgAlignmentSnapshots = mysqlTable("sdg_alignment_snapshots", {
+  id: int("id").autoincrement().primaryKey(),
+  uploadId: int("upload_id").notNull(),
+  companyId: int("company_id").notNull(),
+  // First date the score applies
+  snapshotDate: timestamp("snapshot_date").notNull(),
+  sdgAlignmentScore: float("sdg_alignment_score").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  companySnapshotIdx: unique("company_snapshot_idx").on(table.companyId, table.snapshotDate),
+  uploadIdx: index("upload_idx").on(table.uploadId),
+}));
+
+export type SdgAlignmentSnapshot = typeof sdgAlignmentSnapshots.$inferSelect;
+export type InsertSdgAlignmentSnapshot = typeof sdgAlignmentSnapshots.$inferInsert;
+
+/**
+ * Key-value company metrics from the GreenRev sheet (every SDG alignment
+ * score and green revenue share), keyed by column header. Used to build
+ * thematic solutions portfolios.
+ */
+export const companyMetrics = mysqlTable("company_metrics", {
+  id: int("id").autoincrement().primaryKey(),
+  uploadId: int("upload_id").notNull(),
+  companyId: int("company_id").notNull(),
+  metricKey: varchar("metric_key", { length: 100 }).notNull(),
+  // First date the value applies; null for undated values, which apply at every date
+  snapshotDate: timestamp("snapshot_date"),
+  value: float("value").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  companyMetricIdx: index("company_metric_idx").on(table.companyId, table.metricKey),
+  uploadIdx: index("upload_idx").on(table.uploadId),
+}));
+
+export type CompanyMetric = typeof companyMetrics.$inferSelect;
+export type InsertCompanyMetric = typeof companyMetrics.$inferInsert;
+
 /**
  * Data uploads tracking
  */
@@ -75,7 +154,22 @@ export const dataUploads = mysqlTable("data_uploads", {
   status: mysqlEnum("status", ["processing", "completed", "failed"]).default("processing").notNull(),
   companiesCount: int("companies_count"),
   timePeriodsCount: int("time_periods_count"),
+  // Fiscal years found in each emissions sheet at ingest
+  fiscalYearsByScope: json("fiscal_years_by_scope").$type<FiscalYearsByScope>(),
   errorMessage: text("error_message"),
+  // Live progress of the processing pipeline (see server/uploadJobs.ts)
+  progressStage: mysqlEnum("progress_stage", ["parse", "companies", "time_series", "terciles", "carbon_price"]),
+  progressRowsDone: int("progress_rows_done"),
+  progressRowsTotal: int("progress_rows_total"),
+  // Column-mapping profile used to parse the workbook; null means the built-in Datastream layout
+  mappingProfileId: int("mapping_profile_id"),
+  // Emissions alignment: months after fiscal year-end before figures are used,
+  // and an optional ISIN -> fiscal year-end CSV that overrides the Descriptive sheet
+  publicationLagMonths: int("publication_lag_months").default(6).notNull(),
+  fiscalYearEndFileUrl: text("fiscal_year_end_file_url"),
+  // Gap-filling applied to missing emissions, and how many values it filled
+  estimationOptions: json("estimation_options").$type<EstimationOptions>(),
+  estimatedValuesCount: int("estimated_values_count").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
 }, (table) => ({
@@ -92,7 +186,7 @@ export type InsertDataUpload = typeof dataUploads.$inferInsert;
 export const analysisResults = mysqlTable("analysis_results", {
   id: int("id").autoincrement().primaryKey(),
   uploadId: int("upload_id").notNull(),
-  investmentType: mysqlEnum("investment_type", ["low_carbon", "decarbonizing", "solutions"]).notNull(),
+  investmentType: mysqlEnum("investment_type", ["low_carbon", "decarbonizing", "solutions", "credible_decarbonizers"]).notNull(),
   date: timestamp("date").notNull(),
   geography: varchar("geography", { length: 100 }),
   sector: varchar("sector", { length: 100 }),
@@ -101,7 +195,24 @@ export const analysisResults = mysqlTable("analysis_results", {
   valuationPremium: float("valuation_premium"),
   impliedCarbonPrice: float("implied_carbon_price"),
   impliedDecarbRate: float("implied_decarb_rate"),
+  // Bootstrap band and standard error of the implied carbon price (null when not bootstrapped)
+  impliedCarbonPriceLower: float("implied_carbon_price_lower"),
+  impliedCarbonPriceUpper: float("implied_carbon_price_upper"),
+  impliedCarbonPriceStdError: float("implied_carbon_price_std_error"),
+  impliedDecarbRateLower: float("implied_decarb_rate_lower"),
+  impliedDecarbRateUpper: float("implied_decarb_rate_upper"),
   portfolioSize: int("portfolio_size"),
+  weighting: mysqlEnum("weighting", ["equal", "market_cap", "sqrt_market_cap", "aggregate"]).default("equal").notNull(),
+  // Quantile buckets used for classification; bucketIndex is the low-carbon portfolio's bucket (null for other types)
+  bucketCount: int("bucket_count").default(3).notNull(),
+  bucketIndex: int("bucket_index"),
+  // Decarbonization scenario behind impliedDecarbRate (null = built-in curve)
+  scenarioId: int("scenario_id"),
+  // DCF methodology only: inputs used and change in implied price per input bump
+  dcfParameters: json("dcf_parameters").$type<DcfParameters>(),
+  dcfSensitivities: json("dcf_sensitivities").$type<DcfSensitivities>(),
+  // What emissions were divided by for carbon intensity
+  intensityDenominator: mysqlEnum("intensity_denominator", ["market_cap", "revenue", "evic"]).default("market_cap").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
   uploadDateIdx: index("upload_date_idx").on(table.uploadId, table.date),
@@ -121,7 +232,14 @@ export const companyTerciles = mysqlTable("company_terciles", {
   date: timestamp("date").notNull(),
   method: mysqlEnum("method", ["absolute", "sector_relative"]).notNull(),
   includeScope3: int("include_scope3").notNull(), // 0 or 1 (boolean)
+  includeEstimates: int("include_estimates").default(0).notNull(), // 0 or 1 (boolean)
+  intensityDenominator: mysqlEnum("intensity_denominator", ["market_cap", "revenue", "evic"]).default("market_cap").notNull(),
   carbonIntensity: float("carbon_intensity"),
+  // Position in the intensity ranking (0 = lowest) and the ranking's size; any
+  // quantile bucket is derived from these when read (see quantileBucketAt)
+  intensityRank: int("intensity_rank"),
+  rankedCount: int("ranked_count"),
+  // Tercile of the ranking: lowest is "bottom", highest is "top"
   tercileAssignment: mysqlEnum("tercile_assignment", ["bottom", "middle", "top"]),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
@@ -130,7 +248,9 @@ export const companyTerciles = mysqlTable("company_terciles", {
     table.companyId,
     table.date,
     table.method,
-    table.includeScope3
+    table.includeScope3,
+    table.includeEstimates,
+    table.intensityDenominator
   ),
   uploadDateIdx: index("upload_date_idx").on(table.uploadId, table.date),
   tercileIdx: index("tercile_idx").on(table.tercileAssignment),
@@ -148,8 +268,19 @@ export const carbonPriceCache = mysqlTable("carbon_price_cache", {
   date: timestamp("date").notNull(),
   method: mysqlEnum("method", ["absolute", "sector_relative"]).notNull(),
   includeScope3: int("include_scope3").notNull(),
+  includeEstimates: int("include_estimates").default(0).notNull(),
   winsorize: int("winsorize").notNull(),
   winsorizePercentile: int("winsorize_percentile"),
+  // Bootstrap settings; zero iterations means a point estimate only
+  bootstrapIterations: int("bootstrap_iterations").default(0).notNull(),
+  bootstrapStrata: mysqlEnum("bootstrap_strata", ["tercile", "sector"]).default("tercile").notNull(),
+  confidenceLevel: int("confidence_level").default(0).notNull(),
+  // Quantile buckets compared; "top" fields are the high bucket, "bottom" fields the low bucket
+  bucketCount: int("bucket_count").default(3).notNull(),
+  lowBucket: int("low_bucket").default(0).notNull(),
+  highBucket: int("high_bucket").default(2).notNull(),
+  // Denominator of the intensities the buckets were formed on
+  intensityDenominator: mysqlEnum("intensity_denominator", ["market_cap", "revenue", "evic"]).default("market_cap").notNull(),
   // Top tercile aggregates
   topTercileEmissions: float("top_tercile_emissions"),
   topTercileProfit: float("top_tercile_profit"),
@@ -164,6 +295,9 @@ export const carbonPriceCache = mysqlTable("carbon_price_cache", {
   bottomTercileCompanyCount: int("bottom_tercile_company_count"),
   // Calculated values
   impliedCarbonPrice: float("implied_carbon_price"),
+  impliedCarbonPriceLower: float("implied_carbon_price_lower"),
+  impliedCarbonPriceUpper: float("implied_carbon_price_upper"),
+  impliedCarbonPriceStdError: float("implied_carbon_price_std_error"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
   uploadDateMethodIdx: unique("upload_date_method_params_idx").on(
@@ -171,10 +305,75 @@ export const carbonPriceCache = mysqlTable("carbon_price_cache", {
     table.date,
     table.method,
     table.includeScope3,
+    table.includeEstimates,
     table.winsorize,
-    table.winsorizePercentile
+    table.winsorizePercentile,
+    table.bootstrapIterations,
+    table.bootstrapStrata,
+    table.confidenceLevel,
+    table.bucketCount,
+    table.lowBucket,
+    table.highBucket,
+    table.intensityDenominator
   ),
 }));
 
 export type CarbonPriceCache = typeof carbonPriceCache.$inferSelect;
 export type InsertCarbonPriceCache = typeof carbonPriceCache.$inferInsert;
+
+/**
+ * Background processing jobs for uploads (checkpointed per pipeline stage)
+ */
+export const uploadJobs = mysqlTable("upload_jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  uploadId: int("upload_id").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed"]).default("pending").notNull(),
+  // Last stage that finished successfully; null until the first checkpoint
+  completedStage: mysqlEnum("completed_stage", ["parse", "companies", "time_series", "terciles", "carbon_price"]),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("max_attempts").default(5).notNull(),
+  nextRunAt: timestamp("next_run_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  startedAt: timestamp("startedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  uploadIdIdx: unique("upload_job_upload_idx").on(table.uploadId),
+  statusRunIdx: index("status_next_run_idx").on(table.status, table.nextRunAt),
+}));
+
+export type UploadJob = typeof uploadJobs.$inferSelect;
+export type InsertUploadJob = typeof uploadJobs.$inferInsert;
+
+/**
+ * Saved column-mapping profiles for non-Datastream workbook layouts
+ */
+export const columnMappingProfiles = mysqlTable("column_mapping_profiles", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  config: json("config").$type<ColumnMapping>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  nameIdx: unique("mapping_profile_name_idx").on(table.name),
+}));
+
+export type ColumnMappingProfile = typeof columnMappingProfiles.$inferSelect;
+export type InsertColumnMappingProfile = typeof columnMappingProfiles.$inferInsert;
+
+/**
+ * Saved carbon price to decarbonization rate curves (NGFS pathways or custom)
+ */
+export const decarbonizationScenarios = mysqlTable("decarbonization_scenarios", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  curve: json("curve").$type<ScenarioCurve>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  nameIdx: unique("scenario_name_idx").on(table.name),
+}));
+
+export type DecarbonizationScenario = typeof decarbonizationScenarios.$inferSelect;
+export type InsertDecarbonizationScenario = typeof decarbonizationScenarios.$inferInsert;
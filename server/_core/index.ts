@@ -7,6 +7,7 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { startUploadWorker } from "../uploadJobs";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -60,6 +61,11 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Resume interrupted uploads and process new ones in the background
+  startUploadWorker().catch(error => {
+    console.error("[UploadWorker] Failed to start:", error);
+  });
 }
 
 startServer().catch(console.error);
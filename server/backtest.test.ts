@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { CompanyTercile, TimeSeries } from "../drizzle/schema";
+import { inferPeriodsPerYear, isRebalanceDate, runBacktest, summarizeReturns } from "./backtest";
+
+function ts(companyId: number, date: string, totalReturnIndex: number, marketCap = 100): TimeSeries {
+  return {
+    id: 0,
+    uploadId: 1,
+    companyId,
+    date: new Date(date),
+    totalReturnIndex,
+    marketCap,
+    priceEarnings: 15,
+    scope1Emissions: 10,
+    scope2Emissions: null,
+    scope3Emissions: null,
+    netProfit: 8,
+    scope1Source: "reported",
+    scope2Source: null,
+    scope3Source: null,
+    createdAt: new Date(),
+  };
+}
+
+function tercile(companyId: number, date: string, assignment: CompanyTercile["tercileAssignment"]): CompanyTercile {
+  return {
+    id: 0,
+    uploadId: 1,
+    companyId,
+    date: new Date(date),
+    method: "sector_relative",
+    includeScope3: 0,
+    includeEstimates: 0,
+    carbonIntensity: null,
+    intensityRank: { bottom: 0, middle: 1, top: 2 }[assignment],
+    rankedCount: 3,
+    tercileAssignment: assignment,
+    createdAt: new Date(),
+  };
+}
+
+const DATES = ["2020-01-31", "2020-02-29", "2020-03-31", "2020-04-30"];
+
+describe("Backtest", () => {
+  describe("isRebalanceDate", () => {
+    it("should rebalance at the first date and on a new month or quarter", () => {
+      const jan = new Date("2020-01-31");
+      expect(isRebalanceDate(jan, null, "quarterly")).toBe(true);
+      expect(isRebalanceDate(new Date("2020-02-29"), jan, "monthly")).toBe(true);
+      expect(isRebalanceDate(new Date("2020-03-31"), jan, "quarterly")).toBe(false);
+      expect(isRebalanceDate(new Date("2020-04-30"), jan, "quarterly")).toBe(true);
+    });
+  });
+
+  describe("inferPeriodsPerYear", () => {
+    it("should infer monthly and quarterly spacing", () => {
+      expect(inferPeriodsPerYear(DATES.map(d => new Date(d)))).toBe(12);
+      expect(inferPeriodsPerYear(["2020-03-31", "2020-06-30", "2020-09-30"].map(d => new Date(d)))).toBe(4);
+    });
+  });
+
+  describe("summarizeReturns", () => {
+    it("should annualize compounded returns and volatility", () => {
+      const stats = summarizeReturns([0.01, 0.01, 0.01, 0.01], 12);
+      expect(stats.annualizedReturn).toBeCloseTo(1.01 ** 12 - 1);
+      expect(stats.annualizedVolatility).toBe(0);
+      expect(stats.sharpeRatio).toBeNull();
+    });
+  });
+
+  describe("runBacktest", () => {
+    // Company 1 (bottom) gains 10% a month, company 2 (top) loses 5%
+    const timeSeries = DATES.flatMap((date, i) => [ts(1, date, 100 * 1.1 ** i, 300), ts(2, date, 100 * 0.95 ** i), ts(3, date, 100, 50)]);
+    const terciles = DATES.flatMap(date => [tercile(1, date, "bottom"), tercile(2, date, "top"), tercile(3, date, "bottom")]);
+
+    it("should compound the long-short spread and track drawdowns", () => {
+      const result = runBacktest(terciles.filter(t => t.companyId !== 3), timeSeries, { rebalance: "monthly", weighting: "equal" });
+
+      expect(result.periods).toHaveLength(3);
+      expect(result.periods[0].longShortReturn).toBeCloseTo(0.15);
+      expect(result.stats!.cumulativeReturn).toBeCloseTo(1.15 ** 3 - 1);
+      expect(result.stats!.maxDrawdown).toBe(0);
+      expect(result.periods[0].turnover).toBeNull();
+      expect(result.periods[1].turnover).toBeCloseTo(0);
+    });
+
+    it("should weight the long leg by market cap", () => {
+      const equal = runBacktest(terciles, timeSeries, { rebalance: "monthly", weighting: "equal" });
+      const capWeighted = runBacktest(terciles, timeSeries, { rebalance: "monthly", weighting: "market_cap" });
+
+      expect(equal.periods[0].longReturn).toBeCloseTo(0.05);
+      expect(capWeighted.periods[0].longReturn).toBeCloseTo(0.1 * 300 / 350);
+    });
+
+    it("should record turnover when weights drift between rebalances", () => {
+      const result = runBacktest(terciles, timeSeries, { rebalance: "monthly", weighting: "equal" });
+
+      // After a month the long leg drifted to 1.1/2.1 vs 1/2.1; rebalancing to 50/50 trades the gap
+      expect(result.periods[1].turnover).toBeCloseTo(Math.abs(1.1 / 2.1 - 0.5));
+    });
+
+    it("should trade any pair of quantile buckets", () => {
+      const result = runBacktest(terciles.filter(t => t.companyId !== 3), timeSeries, {
+        rebalance: "monthly",
+        weighting: "equal",
+        buckets: { count: 3, lowBucket: 2, highBucket: 0 },
+      });
+
+      expect(result.periods[0].longShortReturn).toBeCloseTo(-0.15);
+    });
+
+    it("should bucket the stored intensity ranks for another count", () => {
+      // Ranks 0 and 2 of 3 are the two halves; the middle company has no half
+      const result = runBacktest(terciles.filter(t => t.companyId !== 3), timeSeries, {
+        rebalance: "monthly",
+        weighting: "equal",
+        buckets: { count: 2, lowBucket: 0, highBucket: 1 },
+      });
+
+      expect(result.periods[0].longShortReturn).toBeCloseTo(0.15);
+    });
+  });
+});
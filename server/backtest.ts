@@ -0,0 +1,244 @@
+import type { CompanyTercile, TimeSeries } from '../drizzle/schema';
+import { DEFAULT_QUANTILE_BUCKETS, quantileBucketAt, type QuantileBuckets } from '@shared/quantiles';
+
+/**
+ * Long-short carbon tercile backtest: long the bottom (low carbon) tercile,
+ * short the top (high carbon) tercile, rebalanced from company_terciles and
+ * marked to market with totalReturnIndex. Any pair of quantile buckets can
+ * stand in for bottom and top.
+ */
+
+export type RebalanceFrequency = 'monthly' | 'quarterly';
+export type BacktestWeighting = 'equal' | 'market_cap';
+
+export interface BacktestOptions {
+  rebalance: RebalanceFrequency;
+  weighting: BacktestWeighting;
+  /** Long buckets.lowBucket, short buckets.highBucket, bucketed from each tercile row's intensity rank */
+  buckets?: QuantileBuckets;
+}
+
+export interface BacktestPeriod {
+  /** End of the holding period */
+  date: Date;
+  longReturn: number;
+  shortReturn: number;
+  longShortReturn: number;
+  cumulativeReturn: number;
+  drawdown: number;
+  /** One-way turnover of both legs when the period starts with a rebalance; null otherwise and at formation */
+  turnover: number | null;
+  longCount: number;
+  shortCount: number;
+}
+
+export interface PerformanceStats {
+  annualizedReturn: number;
+  annualizedVolatility: number;
+  /** Annualized mean over volatility, with no risk-free rate (the strategy is self-financing) */
+  sharpeRatio: number | null;
+}
+
+export interface RollingStats extends PerformanceStats {
+  date: Date;
+}
+
+export interface BacktestResult {
+  periods: BacktestPeriod[];
+  stats: (PerformanceStats & {
+    cumulativeReturn: number;
+    maxDrawdown: number;
+    averageTurnover: number | null;
+    periodsPerYear: number;
+  }) | null;
+  rolling: RollingStats[];
+}
+
+/** Window for the rolling statistics, in months */
+export const ROLLING_WINDOW_MONTHS = 36;
+
+type Weights = Map<number, number>;
+
+/**
+ * Whether a new rebalance is due at `date` given the last rebalance date
+ */
+export function isRebalanceDate(date: Date, lastRebalance: Date | null, frequency: RebalanceFrequency): boolean {
+  if (!lastRebalance) return true;
+  const period = (d: Date) =>
+    d.getUTCFullYear() * 12 + (frequency === 'quarterly' ? Math.floor(d.getUTCMonth() / 3) * 3 : d.getUTCMonth());
+  return period(date) !== period(lastRebalance);
+}
+
+/**
+ * Periods per year implied by the median spacing of the dates
+ */
+export function inferPeriodsPerYear(dates: Date[]): number {
+  if (dates.length < 2) return 12;
+  const gaps = dates.slice(1).map((d, i) => (d.getTime() - dates[i].getTime()) / 86_400_000).sort((a, b) => a - b);
+  const medianGap = gaps[Math.floor(gaps.length / 2)];
+  return Math.max(1, Math.round(365.25 / medianGap));
+}
+
+/**
+ * Annualized return, volatility and Sharpe ratio of a return series
+ */
+export function summarizeReturns(returns: number[], periodsPerYear: number): PerformanceStats {
+  const n = returns.length;
+  const growth = returns.reduce((acc, r) => acc * (1 + r), 1);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / n;
+  const variance = n > 1 ? returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (n - 1) : 0;
+  const annualizedVolatility = Math.sqrt(variance * periodsPerYear);
+
+  return {
+    annualizedReturn: Math.pow(growth, periodsPerYear / n) - 1,
+    annualizedVolatility,
+    sharpeRatio: annualizedVolatility > 0 ? (mean * periodsPerYear) / annualizedVolatility : null,
+  };
+}
+
+function normalize(weights: Weights): Weights {
+  const total = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+  return new Map(Array.from(weights.entries()).map(([id, w]) => [id, total > 0 ? w / total : 0]));
+}
+
+function oneWayTurnover(previous: Weights, next: Weights): number {
+  const ids = new Set([...Array.from(previous.keys()), ...Array.from(next.keys())]);
+  let total = 0;
+  ids.forEach(id => {
+    total += Math.abs((next.get(id) ?? 0) - (previous.get(id) ?? 0));
+  });
+  return total / 2;
+}
+
+/**
+ * Return of a leg over one period; holdings without a next index value are
+ * dropped and the rest renormalized. Also returns the drifted weights.
+ */
+function holdLeg(
+  weights: Weights,
+  periodReturns: Map<number, number>
+): { legReturn: number; drifted: Weights } {
+  const held = new Map(Array.from(weights.entries()).filter(([id]) => periodReturns.has(id)));
+  const normalized = normalize(held);
+
+  let legReturn = 0;
+  const drifted: Weights = new Map();
+  normalized.forEach((w, id) => {
+    const r = periodReturns.get(id)!;
+    legReturn += w * r;
+    drifted.set(id, w * (1 + r));
+  });
+
+  return { legReturn, drifted: normalize(drifted) };
+}
+
+/**
+ * Run the backtest. Terciles must be one variant (method, scope, estimates).
+ */
+export function runBacktest(
+  terciles: CompanyTercile[],
+  timeSeries: TimeSeries[],
+  options: BacktestOptions
+): BacktestResult {
+  const indexByDate = new Map<number, Map<number, TimeSeries>>();
+  for (const ts of timeSeries) {
+    if (ts.totalReturnIndex == null || ts.totalReturnIndex <= 0) continue;
+    const key = ts.date.getTime();
+    if (!indexByDate.has(key)) indexByDate.set(key, new Map());
+    indexByDate.get(key)!.set(ts.companyId, ts);
+  }
+
+  const tercilesByDate = new Map<number, CompanyTercile[]>();
+  for (const tercile of terciles) {
+    const key = tercile.date.getTime();
+    if (!tercilesByDate.has(key)) tercilesByDate.set(key, []);
+    tercilesByDate.get(key)!.push(tercile);
+  }
+
+  const dates = Array.from(indexByDate.keys()).sort((a, b) => a - b).map(t => new Date(t));
+  const buckets = options.buckets ?? DEFAULT_QUANTILE_BUCKETS;
+  const periods: BacktestPeriod[] = [];
+
+  let long: Weights = new Map();
+  let short: Weights = new Map();
+  let lastRebalance: Date | null = null;
+  let wealth = 1;
+  let peak = 1;
+
+  for (let d = 0; d < dates.length - 1; d++) {
+    const date = dates[d];
+    const prices = indexByDate.get(date.getTime())!;
+    let turnover: number | null = null;
+
+    if (isRebalanceDate(date, lastRebalance, options.rebalance) && tercilesByDate.has(date.getTime())) {
+      const target = (bucket: number) => normalize(new Map(
+        tercilesByDate.get(date.getTime())!
+          .filter(t => quantileBucketAt(t.intensityRank, t.rankedCount, buckets.count) === bucket && prices.has(t.companyId))
+          .map(t => [t.companyId, options.weighting === 'market_cap' ? Math.max(0, prices.get(t.companyId)!.marketCap ?? 0) : 1])
+      ));
+      const nextLong = target(buckets.lowBucket);
+      const nextShort = target(buckets.highBucket);
+
+      if (nextLong.size > 0 && nextShort.size > 0) {
+        if (lastRebalance) turnover = oneWayTurnover(long, nextLong) + oneWayTurnover(short, nextShort);
+        long = nextLong;
+        short = nextShort;
+        lastRebalance = date;
+      }
+    }
+
+    if (!lastRebalance) continue;
+
+    const nextPrices = indexByDate.get(dates[d + 1].getTime())!;
+    const periodReturns = new Map<number, number>();
+    prices.forEach((ts, companyId) => {
+      const next = nextPrices.get(companyId);
+      if (next) periodReturns.set(companyId, next.totalReturnIndex! / ts.totalReturnIndex! - 1);
+    });
+
+    const longLeg = holdLeg(long, periodReturns);
+    const shortLeg = holdLeg(short, periodReturns);
+    long = longLeg.drifted;
+    short = shortLeg.drifted;
+
+    const longShortReturn = longLeg.legReturn - shortLeg.legReturn;
+    wealth *= 1 + longShortReturn;
+    peak = Math.max(peak, wealth);
+
+    periods.push({
+      date: dates[d + 1],
+      longReturn: longLeg.legReturn,
+      shortReturn: shortLeg.legReturn,
+      longShortReturn,
+      cumulativeReturn: wealth - 1,
+      drawdown: wealth / peak - 1,
+      turnover,
+      longCount: long.size,
+      shortCount: short.size,
+    });
+  }
+
+  if (periods.length === 0) return { periods, stats: null, rolling: [] };
+
+  const periodsPerYear = inferPeriodsPerYear(dates);
+  const returns = periods.map(p => p.longShortReturn);
+  const turnovers = periods.map(p => p.turnover).filter((t): t is number => t !== null);
+
+  const window = Math.max(2, Math.round((ROLLING_WINDOW_MONTHS * periodsPerYear) / 12));
+  const rolling: RollingStats[] = [];
+  for (let end = window; end <= returns.length; end++) {
+    rolling.push({ date: periods[end - 1].date, ...summarizeReturns(returns.slice(end - window, end), periodsPerYear) });
+  }
+
+  return {
+    periods,
+    stats: {
+      ...summarizeReturns(returns, periodsPerYear),
+      cumulativeReturn: wealth - 1,
+      maxDrawdown: Math.min(0, ...periods.map(p => p.drawdown)),
+      averageTurnover: turnovers.length > 0 ? turnovers.reduce((sum, t) => sum + t, 0) / turnovers.length : null,
+      periodsPerYear,
+    },
+    rolling,
+  };
+}
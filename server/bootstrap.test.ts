@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { bootstrapEstimate, createRng, percentile, resample, summarizeBootstrap } from "./bootstrap";
+
+describe("Bootstrap", () => {
+  describe("createRng", () => {
+    it("should repeat the same sequence for the same seed", () => {
+      const a = createRng(42);
+      const b = createRng(42);
+      const first = [a(), a(), a()];
+
+      expect([b(), b(), b()]).toEqual(first);
+      first.forEach(v => {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThan(1);
+      });
+    });
+  });
+
+  describe("resample", () => {
+    it("should preserve the size of each stratum", () => {
+      const items = [
+        { id: 1, sector: "Energy" },
+        { id: 2, sector: "Energy" },
+        { id: 3, sector: "Tech" },
+      ];
+      const sample = resample(items, createRng(1), item => item.sector);
+
+      expect(sample).toHaveLength(3);
+      expect(sample.filter(item => item.sector === "Energy")).toHaveLength(2);
+      expect(sample.filter(item => item.sector === "Tech")).toEqual([items[2]]);
+    });
+  });
+
+  describe("percentile", () => {
+    it("should interpolate between ranks", () => {
+      expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+      expect(percentile([0, 10], 25)).toBe(2.5);
+      expect(percentile([], 50)).toBeNaN();
+    });
+  });
+
+  describe("summarizeBootstrap", () => {
+    it("should return percentile bounds and standard error over finite estimates", () => {
+      const estimates = Array.from({ length: 101 }, (_, i) => i);
+      const interval = summarizeBootstrap([...estimates, NaN], 90);
+
+      expect(interval?.lower).toBeCloseTo(5);
+      expect(interval?.upper).toBeCloseTo(95);
+      expect(interval?.iterations).toBe(101);
+      expect(interval?.standardError).toBeCloseTo(Math.sqrt(858.5));
+    });
+
+    it("should return null when no resample produced an estimate", () => {
+      expect(summarizeBootstrap([NaN, Infinity], 95)).toBeNull();
+    });
+  });
+
+  describe("bootstrapEstimate", () => {
+    it("should be reproducible for a seed and bracket the point estimate", () => {
+      const climate = [1, 2, 3, 4, 5].map(v => ({ v, sector: "A" }));
+      const baseline = [6, 7, 8, 9, 10].map(v => ({ v, sector: "A" }));
+      const mean = (xs: typeof climate) => xs.reduce((sum, x) => sum + x.v, 0) / xs.length;
+      const estimate = (c: typeof climate, b: typeof climate) => mean(b) - mean(c);
+      const options = { iterations: 200, confidenceLevel: 95, strata: "tercile" as const };
+
+      const first = bootstrapEstimate(climate, baseline, options, 7, x => x.sector, estimate);
+      const second = bootstrapEstimate(climate, baseline, options, 7, x => x.sector, estimate);
+
+      expect(second).toEqual(first);
+      expect(first!.lower).toBeLessThanOrEqual(5);
+      expect(first!.upper).toBeGreaterThanOrEqual(5);
+    });
+  });
+});
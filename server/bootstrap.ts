@@ -0,0 +1,119 @@
+/**
+ * Bootstrap helpers for sampling uncertainty in implied carbon prices.
+ * Companies are resampled with replacement, either within each portfolio
+ * (tercile) as a whole or within each sector of it, and the estimate is
+ * recomputed on every resample.
+ */
+
+export type BootstrapStrata = 'tercile' | 'sector';
+
+export interface BootstrapOptions {
+  iterations: number;
+  /** Two-sided confidence level in percent, e.g. 95 */
+  confidenceLevel: number;
+  strata: BootstrapStrata;
+}
+
+export interface BootstrapInterval {
+  lower: number;
+  upper: number;
+  standardError: number;
+  /** Resamples that produced an estimate */
+  iterations: number;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so cached intervals are reproducible
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed derived from a date so each date gets its own, stable resamples
+ */
+export function seedFromDate(date: Date): number {
+  return Math.floor(date.getTime() / 1000) ^ 0x5bd1e995;
+}
+
+/**
+ * Draw items.length items with replacement; with a stratum key, each stratum
+ * is resampled to its own size so the sector mix is preserved
+ */
+export function resample<T>(items: T[], rng: () => number, stratumOf?: (item: T) => string): T[] {
+  if (!stratumOf) {
+    return items.map(() => items[Math.floor(rng() * items.length)]);
+  }
+
+  const strata = new Map<string, T[]>();
+  for (const item of items) {
+    const key = stratumOf(item);
+    if (!strata.has(key)) strata.set(key, []);
+    strata.get(key)!.push(item);
+  }
+  return Array.from(strata.values()).flatMap(group => resample(group, rng));
+}
+
+/**
+ * Linear-interpolated percentile of an ascending-sorted array (p in 0-100)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (sorted.length - 1) * p / 100;
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+/**
+ * Percentile interval and standard error of bootstrap estimates; null when no
+ * resample produced an estimate
+ */
+export function summarizeBootstrap(estimates: number[], confidenceLevel: number): BootstrapInterval | null {
+  const finite = estimates.filter(Number.isFinite);
+  if (finite.length === 0) return null;
+
+  const sorted = [...finite].sort((a, b) => a - b);
+  const tail = (100 - confidenceLevel) / 2;
+  const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+  const variance = finite.length > 1
+    ? finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (finite.length - 1)
+    : 0;
+
+  return {
+    lower: percentile(sorted, tail),
+    upper: percentile(sorted, 100 - tail),
+    standardError: Math.sqrt(variance),
+    iterations: finite.length,
+  };
+}
+
+/**
+ * Run `estimate` on `iterations` resamples of the two portfolios
+ */
+export function bootstrapEstimate<T>(
+  climate: T[],
+  baseline: T[],
+  options: BootstrapOptions,
+  seed: number,
+  sectorOf: (item: T) => string,
+  estimate: (climate: T[], baseline: T[]) => number | null
+): BootstrapInterval | null {
+  const rng = createRng(seed);
+  const stratumOf = options.strata === 'sector' ? sectorOf : undefined;
+  const estimates: number[] = [];
+
+  for (let i = 0; i < options.iterations; i++) {
+    const value = estimate(resample(climate, rng, stratumOf), resample(baseline, rng, stratumOf));
+    if (value !== null) estimates.push(value);
+  }
+
+  return summarizeBootstrap(estimates, options.confidenceLevel);
+}
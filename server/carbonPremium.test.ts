@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { Company, TimeSeries } from "../drizzle/schema";
+import { calculateCarbonPremium, computeForwardReturns } from "./carbonPremium";
+
+function company(id: number, sector: string): Company {
+  return {
+    id,
+    uploadId: 1,
+    isin: `XX${id}`,
+    name: `Company ${id}`,
+    geography: null,
+    sector,
+    industry: null,
+    sdgAlignmentScore: null,
+    emissionTarget2050: null,
+    fiscalYearEndMonth: null,
+    createdAt: new Date(),
+  };
+}
+
+function ts(companyId: number, date: string, values: Partial<TimeSeries> = {}): TimeSeries {
+  return {
+    id: 0,
+    uploadId: 1,
+    companyId,
+    date: new Date(date),
+    totalReturnIndex: 100,
+    marketCap: 1_000_000_000,
+    priceEarnings: 15,
+    scope1Emissions: 1000,
+    scope2Emissions: 0,
+    scope3Emissions: null,
+    netProfit: 50,
+    scope1Source: "reported",
+    scope2Source: "reported",
+    scope3Source: null,
+    createdAt: new Date(),
+    ...values,
+  };
+}
+
+const DATES = ["2020-01-31", "2020-02-29", "2020-03-31", "2020-04-30"];
+const OPTIONS = { includeScope3: false, includeEstimates: true, sectorFixedEffects: false, neweyWestLags: null };
+
+describe("Carbon Premium", () => {
+  describe("computeForwardReturns", () => {
+    it("should return the change in total return index to the next date", () => {
+      const dates = DATES.slice(0, 3).map(d => new Date(d));
+      const returns = computeForwardReturns(
+        [
+          ts(1, DATES[0], { totalReturnIndex: 100 }),
+          ts(1, DATES[1], { totalReturnIndex: 110 }),
+          ts(1, DATES[2], { totalReturnIndex: null }),
+          ts(2, DATES[0], { totalReturnIndex: 50 }),
+        ],
+        dates
+      );
+
+      expect(returns.get(`1|${dates[0].getTime()}`)).toBeCloseTo(0.1);
+      expect(returns.has(`1|${dates[1].getTime()}`)).toBe(false);
+      expect(returns.has(`2|${dates[0].getTime()}`)).toBe(false);
+    });
+  });
+
+  describe("calculateCarbonPremium", () => {
+    // Returns rise linearly with intensity, so the standardized slope is
+    // the return spread per standard deviation of intensity
+    const companies = Array.from({ length: 12 }, (_, i) => company(i + 1, i % 2 === 0 ? "Energy" : "Tech"));
+    const timeSeries = companies.flatMap((c, i) => {
+      const scope1 = 100 * (i + 1);
+      const marketCap = 1_000_000_000 * (1 + (i * 5) % 7);
+      let index = 100;
+      return DATES.map((date, d) => {
+        const row = ts(c.id, date, { totalReturnIndex: index, scope1Emissions: scope1, marketCap });
+        index *= 1 + 0.01 * d + 0.002 * (scope1 / (marketCap / 1_000_000));
+        return row;
+      });
+    });
+
+    it("should estimate one premium per formation date with a next-period return", () => {
+      const result = calculateCarbonPremium(companies, timeSeries, OPTIONS);
+
+      expect(result.periods).toHaveLength(3);
+      expect(result.periods.every(p => p.premium > 0)).toBe(true);
+      expect(result.meanPremium).toBeGreaterThan(0);
+      expect(result.neweyWestLags).toBe(1);
+    });
+
+    it("should skip dates with too few companies", () => {
+      const result = calculateCarbonPremium(companies.slice(0, 5), timeSeries.filter(t => t.companyId <= 5), OPTIONS);
+
+      expect(result.periods).toHaveLength(0);
+      expect(result.meanPremium).toBeNull();
+      expect(result.tStat).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { Company, TimeSeries } from '../drizzle/schema';
+import { calculateCarbonIntensity } from './portfolioAnalyzerV2';
+import { selectEmissions } from './emissionsEstimator';
+import { defaultNeweyWestLags, dummyColumns, neweyWestStandardError, ols } from './regression';
+
+/**
+ * Returns-based carbon premium: each period, regress next-period total
+ * returns on carbon intensity (Fama-MacBeth), then average the slopes.
+ *
+ * A positive premium means carbon-intensive companies earn higher subsequent
+ * returns, i.e. the valuation discount is compensation for risk. A discount
+ * with no return premium (or a negative one) points to mispricing instead.
+ */
+
+export interface CarbonPremiumOptions {
+  includeScope3: boolean;
+  includeEstimates: boolean;
+  /** Sector dummies alongside the log market cap control */
+  sectorFixedEffects: boolean;
+  /** Newey-West lags; null uses floor(4 * (T / 100)^(2/9)) */
+  neweyWestLags: number | null;
+}
+
+export interface CarbonPremiumPeriod {
+  /** Formation date: intensity measured here, return earned to the next date */
+  date: Date;
+  /** Return difference per one cross-sectional standard deviation of intensity */
+  premium: number;
+  standardError: number;
+  observations: number;
+}
+
+export interface CarbonPremiumResult {
+  periods: CarbonPremiumPeriod[];
+  meanPremium: number | null;
+  neweyWestStdError: number | null;
+  tStat: number | null;
+  neweyWestLags: number;
+}
+
+/** Cross-sections smaller than this are skipped */
+export const MIN_CROSS_SECTION = 10;
+
+/**
+ * Simple return from each date to the next date in `dates`, keyed by
+ * companyId|time of the formation date. Companies missing either index
+ * value, or with a non-positive starting value, get no return.
+ */
+export function computeForwardReturns(timeSeries: TimeSeries[], dates: Date[]): Map<string, number> {
+  const index = new Map<string, number>();
+  for (const ts of timeSeries) {
+    if (ts.totalReturnIndex != null) index.set(`${ts.companyId}|${ts.date.getTime()}`, ts.totalReturnIndex);
+  }
+
+  const returns = new Map<string, number>();
+  const companyIds = Array.from(new Set(timeSeries.map(ts => ts.companyId)));
+
+  for (let d = 0; d < dates.length - 1; d++) {
+    const from = dates[d].getTime();
+    const to = dates[d + 1].getTime();
+    for (const companyId of companyIds) {
+      const start = index.get(`${companyId}|${from}`);
+      const end = index.get(`${companyId}|${to}`);
+      if (start === undefined || end === undefined || start <= 0) continue;
+      returns.set(`${companyId}|${from}`, end / start - 1);
+    }
+  }
+
+  return returns;
+}
+
+/**
+ * Fama-MacBeth regressions of forward returns on standardized carbon
+ * intensity with a log market cap control (and optional sector dummies),
+ * summarized with a Newey-West standard error on the mean premium
+ */
+export function calculateCarbonPremium(
+  companies: Company[],
+  timeSeries: TimeSeries[],
+  options: CarbonPremiumOptions
+): CarbonPremiumResult {
+  const dates = Array.from(new Set(timeSeries.map(ts => ts.date.getTime())))
+    .sort((a, b) => a - b)
+    .map(t => new Date(t));
+  const forwardReturns = computeForwardReturns(timeSeries, dates);
+  const sectorById = new Map(companies.map(c => [c.id, c.sector ?? 'Unknown']));
+
+  const timeSeriesByDate = new Map<number, TimeSeries[]>();
+  for (const ts of timeSeries) {
+    const key = ts.date.getTime();
+    if (!timeSeriesByDate.has(key)) timeSeriesByDate.set(key, []);
+    timeSeriesByDate.get(key)!.push(ts);
+  }
+
+  const periods: CarbonPremiumPeriod[] = [];
+
+  for (const date of dates) {
+    const rows: { intensity: number; logMarketCap: number; sector: string; forwardReturn: number }[] = [];
+
+    for (const ts of timeSeriesByDate.get(date.getTime()) ?? []) {
+      const forwardReturn = forwardReturns.get(`${ts.companyId}|${date.getTime()}`);
+      if (forwardReturn === undefined || !sectorById.has(ts.companyId)) continue;
+
+      const { scope1, scope2, scope3 } = selectEmissions(ts, options.includeEstimates);
+      const intensity = calculateCarbonIntensity(scope1, scope2, scope3, ts.marketCap, options.includeScope3);
+      if (intensity === null) continue;
+
+      rows.push({
+        intensity,
+        logMarketCap: Math.log(ts.marketCap!),
+        sector: sectorById.get(ts.companyId)!,
+        forwardReturn,
+      });
+    }
+
+    if (rows.length < MIN_CROSS_SECTION) continue;
+
+    // Standardize so the slope is comparable across dates with different intensity spreads
+    const mean = rows.reduce((sum, r) => sum + r.intensity, 0) / rows.length;
+    const sd = Math.sqrt(rows.reduce((sum, r) => sum + (r.intensity - mean) ** 2, 0) / rows.length);
+    if (sd === 0) continue;
+
+    const sectorDummies = options.sectorFixedEffects ? dummyColumns(rows.map(r => r.sector)) : rows.map(() => []);
+    const x = rows.map((r, i) => [1, (r.intensity - mean) / sd, r.logMarketCap, ...sectorDummies[i]]);
+    const fit = ols(x, rows.map(r => r.forwardReturn));
+    if (!fit) continue;
+
+    periods.push({
+      date,
+      premium: fit.coefficients[1],
+      standardError: fit.standardErrors[1],
+      observations: fit.observations,
+    });
+  }
+
+  const premiums = periods.map(p => p.premium);
+  const neweyWestLags = options.neweyWestLags ?? defaultNeweyWestLags(premiums.length);
+
+  if (premiums.length < 2) {
+    return {
+      periods,
+      meanPremium: premiums[0] ?? null,
+      neweyWestStdError: null,
+      tStat: null,
+      neweyWestLags,
+    };
+  }
+
+  const meanPremium = premiums.reduce((sum, v) => sum + v, 0) / premiums.length;
+  const neweyWestStdError = neweyWestStandardError(premiums, neweyWestLags);
+
+  return {
+    periods,
+    meanPremium,
+    neweyWestStdError,
+    tStat: neweyWestStdError > 0 ? meanPremium / neweyWestStdError : null,
+    neweyWestLags,
+  };
+}
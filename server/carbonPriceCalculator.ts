@@ -1,6 +1,10 @@
-import { getDb } from "./db";
-import { companyTerciles, carbonPriceCache, timeSeries, InsertCarbonPriceCache } from "../drizzle/schema";
+import { getCompaniesByUpload, getDataUploadById, getDb } from "./db";
+import { companyTerciles, carbonPriceCache, timeSeries, InsertCarbonPriceCache, TimeSeries } from "../drizzle/schema";
 import { eq, and } from "drizzle-orm";
+import { selectEmissions } from "./emissionsEstimator";
+import { bootstrapEstimate, seedFromDate, type BootstrapOptions } from "./bootstrap";
+import { DEFAULT_QUANTILE_BUCKETS, quantileBucketAt, type QuantileBuckets } from "@shared/quantiles";
+import { DEFAULT_INTENSITY_DENOMINATOR, type IntensityDenominator } from "@shared/intensity";
 
 export interface CarbonPriceResult {
   date: Date;
@@ -15,23 +19,123 @@ export interface CarbonPriceResult {
   bottomTercilePeRatio: number;
   bottomTercileCompanyCount: number;
   impliedCarbonPrice: number;
+  // Bootstrap percentile band and standard error; null when bootstrapping was off
+  impliedCarbonPriceLower: number | null;
+  impliedCarbonPriceUpper: number | null;
+  impliedCarbonPriceStdError: number | null;
+}
+
+export type CarbonPriceExclusion = "missing_market_cap" | "missing_net_profit" | "missing_emissions";
+
+/**
+ * Why a top- or bottom-tercile row is left out of the totals, or null if it is used.
+ * Scope 1 and 2, and Scope 3 when included, must all be reported.
+ */
+export function getCarbonPriceExclusion(ts: TimeSeries, includeScope3: boolean): CarbonPriceExclusion | null {
+  if (ts.marketCap == null) return "missing_market_cap";
+  if (ts.netProfit == null) return "missing_net_profit";
+  if (ts.scope1Emissions == null || ts.scope2Emissions == null || (includeScope3 && ts.scope3Emissions == null)) {
+    return "missing_emissions";
+  }
+  return null;
+}
+
+/**
+ * Time series row as seen by the calculation; estimated emissions are nulled when excluded
+ */
+export function withSelectedEmissions(ts: TimeSeries, includeEstimates: boolean): TimeSeries {
+  const { scope1, scope2, scope3 } = selectEmissions(ts, includeEstimates);
+  return { ...ts, scope1Emissions: scope1, scope2Emissions: scope2, scope3Emissions: scope3 };
+}
+
+interface TercileTotals {
+  totalMarketCap: number;
+  totalProfit: number;
+  totalEmissions: number;
+  peRatio: number;
+  companyCount: number;
+}
+
+/**
+ * Sum market cap, profit and emissions over a tercile's valid rows
+ */
+function aggregateTercile(
+  validTs: TimeSeries[],
+  includeScope3: boolean,
+  winsorize: boolean,
+  winsorizePercentile: number
+): TercileTotals {
+  let marketCaps = validTs.map(ts => ts.marketCap!);
+  let profits = validTs.map(ts => ts.netProfit!);
+  // Valid rows have every included scope (see getCarbonPriceExclusion)
+  let emissions = validTs.map(ts =>
+    ts.scope1Emissions! + ts.scope2Emissions! + (includeScope3 ? ts.scope3Emissions! : 0)
+  );
+  
+  // Apply winsorization if enabled
+  if (winsorize && marketCaps.length > 10) {
+    marketCaps = winsorizeArray(marketCaps, winsorizePercentile);
+    profits = winsorizeArray(profits, winsorizePercentile);
+    emissions = winsorizeArray(emissions, winsorizePercentile);
+  }
+  
+  const totalMarketCap = marketCaps.reduce((sum, v) => sum + v, 0);
+  const totalProfit = profits.reduce((sum, v) => sum + v, 0);
+  const totalEmissions = emissions.reduce((sum, v) => sum + v, 0);
+  
+  return {
+    totalMarketCap,
+    totalProfit,
+    totalEmissions,
+    peRatio: totalProfit > 0 ? totalMarketCap / totalProfit : 0,
+    companyCount: validTs.length,
+  };
 }
 
 /**
- * Calculate total-based carbon price using pre-computed terciles
+ * Formula: (Top Net Profit - (Top Market Cap / Bottom P/E)) / Top Emissions
+ * Result is in $M/tCO2, multiplied by 1,000,000 to get $/tCO2
+ */
+function impliedCarbonPriceFromTotals(top: TercileTotals, bottom: TercileTotals): number {
+  if (bottom.peRatio <= 0 || top.totalEmissions <= 0) return 0;
+  const adjustedTopProfit = top.totalMarketCap / bottom.peRatio;
+  const profitDifference = top.totalProfit - adjustedTopProfit;
+  return (profitDifference / top.totalEmissions) * 1_000_000; // Convert $M/tCO2 to $/tCO2
+}
+
+/**
+ * Calculate total-based carbon price using pre-computed terciles.
+ * With bootstrap options, companies are resampled within each tercile (or
+ * within each sector of it) to give a percentile band and standard error.
+ * Other quantile buckets compare buckets.highBucket ("top") against
+ * buckets.lowBucket ("bottom"). Buckets are formed on intensities with the
+ * given denominator; the totals themselves don't depend on it.
  */
 export async function calculateTotalBasedCarbonPrice(
   uploadId: number,
   method: "absolute" | "sector_relative",
   includeScope3: boolean,
   winsorize: boolean,
-  winsorizePercentile: number
+  winsorizePercentile: number,
+  includeEstimates = true,
+  bootstrap: BootstrapOptions | null = null,
+  buckets: QuantileBuckets = DEFAULT_QUANTILE_BUCKETS,
+  intensityDenominator: IntensityDenominator = DEFAULT_INTENSITY_DENOMINATOR
 ): Promise<CarbonPriceResult[]> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
+  // Uploads without gap-filling only have reported-only terciles
+  const upload = await getDataUploadById(uploadId);
+  const useEstimates = includeEstimates && (upload?.estimatedValuesCount ?? 0) > 0;
+  
   const includeScope3Int = includeScope3 ? 1 : 0;
+  const includeEstimatesInt = useEstimates ? 1 : 0;
   const winsorizeInt = winsorize ? 1 : 0;
+  // Point-estimate-only rows are cached with zero iterations
+  const bootstrapIterations = bootstrap?.iterations ?? 0;
+  const bootstrapStrata = bootstrap?.strata ?? "tercile";
+  const confidenceLevel = bootstrap?.confidenceLevel ?? 0;
   
   // Check cache first
   const cached = await db
@@ -42,8 +146,16 @@ export async function calculateTotalBasedCarbonPrice(
         eq(carbonPriceCache.uploadId, uploadId),
         eq(carbonPriceCache.method, method),
         eq(carbonPriceCache.includeScope3, includeScope3Int),
+        eq(carbonPriceCache.includeEstimates, includeEstimatesInt),
         eq(carbonPriceCache.winsorize, winsorizeInt),
-        eq(carbonPriceCache.winsorizePercentile, winsorizePercentile)
+        eq(carbonPriceCache.winsorizePercentile, winsorizePercentile),
+        eq(carbonPriceCache.bootstrapIterations, bootstrapIterations),
+        eq(carbonPriceCache.bootstrapStrata, bootstrapStrata),
+        eq(carbonPriceCache.confidenceLevel, confidenceLevel),
+        eq(carbonPriceCache.bucketCount, buckets.count),
+        eq(carbonPriceCache.lowBucket, buckets.lowBucket),
+        eq(carbonPriceCache.highBucket, buckets.highBucket),
+        eq(carbonPriceCache.intensityDenominator, intensityDenominator)
       )
     );
   
@@ -62,6 +174,9 @@ export async function calculateTotalBasedCarbonPrice(
       bottomTercilePeRatio: row.bottomTercilePeRatio || 0,
       bottomTercileCompanyCount: row.bottomTercileCompanyCount || 0,
       impliedCarbonPrice: row.impliedCarbonPrice || 0,
+      impliedCarbonPriceLower: row.impliedCarbonPriceLower,
+      impliedCarbonPriceUpper: row.impliedCarbonPriceUpper,
+      impliedCarbonPriceStdError: row.impliedCarbonPriceStdError,
     }));
   }
   
@@ -75,7 +190,9 @@ export async function calculateTotalBasedCarbonPrice(
       and(
         eq(companyTerciles.uploadId, uploadId),
         eq(companyTerciles.method, method),
-        eq(companyTerciles.includeScope3, includeScope3Int)
+        eq(companyTerciles.includeScope3, includeScope3Int),
+        eq(companyTerciles.includeEstimates, includeEstimatesInt),
+        eq(companyTerciles.intensityDenominator, intensityDenominator)
       )
     );
   
@@ -84,6 +201,11 @@ export async function calculateTotalBasedCarbonPrice(
     return [];
   }
   
+  // Sectors are only needed to stratify bootstrap resamples
+  const companySectors = bootstrap?.strata === "sector"
+    ? new Map((await getCompaniesByUpload(uploadId)).map(c => [c.id, c.sector ?? "Unknown"]))
+    : new Map<number, string>();
+  
   // Group terciles by date
   const tercilesByDate = new Map<string, typeof terciles>();
   for (const tercile of terciles) {
@@ -101,13 +223,14 @@ export async function calculateTotalBasedCarbonPrice(
   for (const [dateKey, dateTerciles] of Array.from(tercilesByDate.entries())) {
     const date = new Date(dateKey);
     
-    // Get company IDs for top and bottom terciles
+    // Get company IDs for the high ("top") and low ("bottom") buckets, bucketed from the stored ranks
+    const bucketOf = (t: typeof dateTerciles[number]) => quantileBucketAt(t.intensityRank, t.rankedCount, buckets.count);
     const topTercileCompanyIds = dateTerciles
-      .filter(t => t.tercileAssignment === "top")
+      .filter(t => bucketOf(t) === buckets.highBucket)
       .map(t => t.companyId);
     
     const bottomTercileCompanyIds = dateTerciles
-      .filter(t => t.tercileAssignment === "bottom")
+      .filter(t => bucketOf(t) === buckets.lowBucket)
       .map(t => t.companyId);
     
     if (topTercileCompanyIds.length === 0 || bottomTercileCompanyIds.length === 0) {
@@ -115,107 +238,59 @@ export async function calculateTotalBasedCarbonPrice(
     }
     
     // Load time series data for these companies at this date
-    const topTsData = await db
+    const topTsData = (await db
       .select()
       .from(timeSeries)
       .where(
         and(
+          eq(timeSeries.uploadId, uploadId),
           eq(timeSeries.date, date),
           // Note: inArray requires a non-empty array, already checked above
         )
-      );
+      )).map(ts => withSelectedEmissions(ts, useEstimates));
     
     // Filter to only the companies in our terciles
     const topTs = topTsData.filter(ts => topTercileCompanyIds.includes(ts.companyId));
     const bottomTs = topTsData.filter(ts => bottomTercileCompanyIds.includes(ts.companyId));
     
-    // Calculate totals for top tercile
-    const topValidTs = topTs.filter(ts => 
-      ts.marketCap != null && ts.netProfit != null &&
-      (ts.scope1Emissions != null || ts.scope2Emissions != null)
-    );
-    
-    if (topValidTs.length === 0) continue;
+    const topValidTs = topTs.filter(ts => getCarbonPriceExclusion(ts, includeScope3) === null);
+    const bottomValidTs = bottomTs.filter(ts => getCarbonPriceExclusion(ts, includeScope3) === null);
+    if (topValidTs.length === 0 || bottomValidTs.length === 0) continue;
     
-    let topMarketCaps = topValidTs.map(ts => ts.marketCap!);
-    let topProfits = topValidTs.map(ts => ts.netProfit!);
-    let topEmissions = topValidTs.map(ts => {
-      const scope1 = ts.scope1Emissions || 0;
-      const scope2 = ts.scope2Emissions || 0;
-      const scope3 = includeScope3 ? (ts.scope3Emissions || 0) : 0;
-      return scope1 + scope2 + scope3;
-    });
-    let topPeRatios = topValidTs.map(ts => ts.priceEarnings || 0).filter(pe => pe > 0);
-    
-    // Apply winsorization if enabled
-    if (winsorize && topMarketCaps.length > 10) {
-      topMarketCaps = winsorizeArray(topMarketCaps, winsorizePercentile);
-      topProfits = winsorizeArray(topProfits, winsorizePercentile);
-      topEmissions = winsorizeArray(topEmissions, winsorizePercentile);
-      topPeRatios = winsorizeArray(topPeRatios, winsorizePercentile);
-    }
+    const top = aggregateTercile(topValidTs, includeScope3, winsorize, winsorizePercentile);
+    const bottom = aggregateTercile(bottomValidTs, includeScope3, winsorize, winsorizePercentile);
+    const impliedCarbonPrice = impliedCarbonPriceFromTotals(top, bottom);
     
-    const topTotalMarketCap = topMarketCaps.reduce((sum, v) => sum + v, 0);
-    const topTotalProfit = topProfits.reduce((sum, v) => sum + v, 0);
-    const topTotalEmissions = topEmissions.reduce((sum, v) => sum + v, 0);
-    const topAvgPe = topPeRatios.length > 0 ? topPeRatios.reduce((sum, v) => sum + v, 0) / topPeRatios.length : 0;
-    const topPeRatio = topTotalProfit > 0 ? topTotalMarketCap / topTotalProfit : 0;
-    
-    // Calculate totals for bottom tercile
-    const bottomValidTs = bottomTs.filter(ts => 
-      ts.marketCap != null && ts.netProfit != null &&
-      (ts.scope1Emissions != null || ts.scope2Emissions != null)
-    );
-    
-    if (bottomValidTs.length === 0) continue;
-    
-    let bottomMarketCaps = bottomValidTs.map(ts => ts.marketCap!);
-    let bottomProfits = bottomValidTs.map(ts => ts.netProfit!);
-    let bottomEmissions = bottomValidTs.map(ts => {
-      const scope1 = ts.scope1Emissions || 0;
-      const scope2 = ts.scope2Emissions || 0;
-      const scope3 = includeScope3 ? (ts.scope3Emissions || 0) : 0;
-      return scope1 + scope2 + scope3;
-    });
-    let bottomPeRatios = bottomValidTs.map(ts => ts.priceEarnings || 0).filter(pe => pe > 0);
-    
-    // Apply winsorization if enabled
-    if (winsorize && bottomMarketCaps.length > 10) {
-      bottomMarketCaps = winsorizeArray(bottomMarketCaps, winsorizePercentile);
-      bottomProfits = winsorizeArray(bottomProfits, winsorizePercentile);
-      bottomEmissions = winsorizeArray(bottomEmissions, winsorizePercentile);
-      bottomPeRatios = winsorizeArray(bottomPeRatios, winsorizePercentile);
-    }
-    
-    const bottomTotalMarketCap = bottomMarketCaps.reduce((sum, v) => sum + v, 0);
-    const bottomTotalProfit = bottomProfits.reduce((sum, v) => sum + v, 0);
-    const bottomTotalEmissions = bottomEmissions.reduce((sum, v) => sum + v, 0);
-    const bottomAvgPe = bottomPeRatios.length > 0 ? bottomPeRatios.reduce((sum, v) => sum + v, 0) / bottomPeRatios.length : 0;
-    const bottomPeRatio = bottomTotalProfit > 0 ? bottomTotalMarketCap / bottomTotalProfit : 0;
-    
-    // Calculate implied carbon price
-    // Formula: (Top Net Profit - (Top Market Cap / Bottom P/E)) / Top Emissions
-    // Result is in $M/tCO2, multiply by 1,000,000 to get $/tCO2
-    let impliedCarbonPrice = 0;
-    if (bottomPeRatio > 0 && topTotalEmissions > 0) {
-      const adjustedTopProfit = topTotalMarketCap / bottomPeRatio;
-      const profitDifference = topTotalProfit - adjustedTopProfit;
-      impliedCarbonPrice = (profitDifference / topTotalEmissions) * 1_000_000; // Convert $M/tCO2 to $/tCO2
-    }
+    const interval = bootstrap
+      ? bootstrapEstimate(
+          topValidTs,
+          bottomValidTs,
+          bootstrap,
+          seedFromDate(date),
+          ts => companySectors.get(ts.companyId) ?? "Unknown",
+          (topSample, bottomSample) => impliedCarbonPriceFromTotals(
+            aggregateTercile(topSample, includeScope3, winsorize, winsorizePercentile),
+            aggregateTercile(bottomSample, includeScope3, winsorize, winsorizePercentile)
+          )
+        )
+      : null;
     
     const result: CarbonPriceResult = {
       date,
-      topTercileEmissions: topTotalEmissions,
-      topTercileProfit: topTotalProfit,
-      topTercileMarketCap: topTotalMarketCap,
-      topTercilePeRatio: topPeRatio,
-      topTercileCompanyCount: topValidTs.length,
-      bottomTercileEmissions: bottomTotalEmissions,
-      bottomTercileProfit: bottomTotalProfit,
-      bottomTercileMarketCap: bottomTotalMarketCap,
-      bottomTercilePeRatio: bottomPeRatio,
-      bottomTercileCompanyCount: bottomValidTs.length,
+      topTercileEmissions: top.totalEmissions,
+      topTercileProfit: top.totalProfit,
+      topTercileMarketCap: top.totalMarketCap,
+      topTercilePeRatio: top.peRatio,
+      topTercileCompanyCount: top.companyCount,
+      bottomTercileEmissions: bottom.totalEmissions,
+      bottomTercileProfit: bottom.totalProfit,
+      bottomTercileMarketCap: bottom.totalMarketCap,
+      bottomTercilePeRatio: bottom.peRatio,
+      bottomTercileCompanyCount: bottom.companyCount,
       impliedCarbonPrice,
+      impliedCarbonPriceLower: interval?.lower ?? null,
+      impliedCarbonPriceUpper: interval?.upper ?? null,
+      impliedCarbonPriceStdError: interval?.standardError ?? null,
     };
     
     results.push(result);
@@ -226,19 +301,30 @@ export async function calculateTotalBasedCarbonPrice(
       date,
       method,
       includeScope3: includeScope3Int,
+      includeEstimates: includeEstimatesInt,
       winsorize: winsorizeInt,
       winsorizePercentile,
-      topTercileEmissions: topTotalEmissions,
-      topTercileProfit: topTotalProfit,
-      topTercileMarketCap: topTotalMarketCap,
-      topTercilePeRatio: topPeRatio,
-      topTercileCompanyCount: topValidTs.length,
-      bottomTercileEmissions: bottomTotalEmissions,
-      bottomTercileProfit: bottomTotalProfit,
-      bottomTercileMarketCap: bottomTotalMarketCap,
-      bottomTercilePeRatio: bottomPeRatio,
-      bottomTercileCompanyCount: bottomValidTs.length,
+      bootstrapIterations,
+      bootstrapStrata,
+      confidenceLevel,
+      bucketCount: buckets.count,
+      lowBucket: buckets.lowBucket,
+      highBucket: buckets.highBucket,
+      intensityDenominator,
+      topTercileEmissions: top.totalEmissions,
+      topTercileProfit: top.totalProfit,
+      topTercileMarketCap: top.totalMarketCap,
+      topTercilePeRatio: top.peRatio,
+      topTercileCompanyCount: top.companyCount,
+      bottomTercileEmissions: bottom.totalEmissions,
+      bottomTercileProfit: bottom.totalProfit,
+      bottomTercileMarketCap: bottom.totalMarketCap,
+      bottomTercilePeRatio: bottom.peRatio,
+      bottomTercileCompanyCount: bottom.companyCount,
       impliedCarbonPrice,
+      impliedCarbonPriceLower: result.impliedCarbonPriceLower,
+      impliedCarbonPriceUpper: result.impliedCarbonPriceUpper,
+      impliedCarbonPriceStdError: result.impliedCarbonPriceStdError,
     });
   }
   
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import type { Company, CompanyMetric, EmissionTargetSnapshot, SdgAlignmentSnapshot, TimeSeries } from "../drizzle/schema";
+import {
+  attributeAt,
+  groupMetricsByCompany,
+  groupSnapshotsByCompany,
+  metricAt,
+  type CompanyMetrics,
+  type CompanySnapshots,
+} from "./companySnapshots";
+import { classifyCompaniesSectorRelative, type AnalysisParameters, type CompanyWithTimeSeries } from "./portfolioAnalyzerV2";
+
+function company(id: number, emissionTarget2050: number | null, sdgAlignmentScore: number | null): Company {
+  return {
+    id,
+    uploadId: 1,
+    isin: `XX${id}`,
+    name: `Company ${id}`,
+    geography: "US",
+    sector: "Energy",
+    industry: null,
+    sdgAlignmentScore,
+    emissionTarget2050,
+    fiscalYearEndMonth: null,
+    createdAt: new Date(),
+  };
+}
+
+const snapshots: CompanySnapshots = {
+  emissionTarget2050: [
+    { date: new Date("2015-01-01"), value: -0.3 },
+    { date: new Date("2020-01-01"), value: -0.8 },
+  ],
+  sdgAlignmentScore: [],
+};
+
+describe("Company Snapshots", () => {
+  describe("attributeAt", () => {
+    it("should use the latest snapshot on or before the date", () => {
+      const latest = company(1, -0.8, 2);
+      expect(attributeAt(latest, snapshots, "emissionTarget2050", new Date("2019-12-31"))).toBe(-0.3);
+      expect(attributeAt(latest, snapshots, "emissionTarget2050", new Date("2020-01-01"))).toBe(-0.8);
+    });
+
+    it("should return null before the first snapshot", () => {
+      expect(attributeAt(company(1, -0.8, 2), snapshots, "emissionTarget2050", new Date("2014-12-31"))).toBeNull();
+    });
+
+    it("should fall back to the company column without snapshots of the attribute", () => {
+      expect(attributeAt(company(1, -0.8, 2), snapshots, "sdgAlignmentScore", new Date("2010-01-01"))).toBe(2);
+      expect(attributeAt(company(1, -0.8, 2), undefined, "emissionTarget2050", new Date("2010-01-01"))).toBe(-0.8);
+    });
+  });
+
+  describe("groupSnapshotsByCompany", () => {
+    it("should group rows by company in date order", () => {
+      const row = (companyId: number, date: string) => ({ id: 0, uploadId: 1, companyId, snapshotDate: new Date(date), createdAt: new Date() });
+      const targets: EmissionTargetSnapshot[] = [
+        { ...row(1, "2020-01-01"), emissionTarget2050: -0.8 },
+        { ...row(1, "2015-01-01"), emissionTarget2050: -0.3 },
+      ];
+      const scores: SdgAlignmentSnapshot[] = [{ ...row(2, "2018-01-01"), sdgAlignmentScore: 4 }];
+
+      const byCompany = groupSnapshotsByCompany(targets, scores);
+
+      expect(byCompany.get(1)!.emissionTarget2050.map(s => s.value)).toEqual([-0.3, -0.8]);
+      expect(byCompany.get(1)!.sdgAlignmentScore).toHaveLength(0);
+      expect(byCompany.get(2)!.sdgAlignmentScore).toEqual([{ date: new Date("2018-01-01"), value: 4 }]);
+    });
+  });
+
+  describe("point-in-time classification", () => {
+    // Company 1 set its net zero target in 2020; the others have had static targets throughout
+    const companiesWithData: CompanyWithTimeSeries[] = [
+      { company: company(1, -1, null), snapshots: { emissionTarget2050: [{ date: new Date("2020-01-01"), value: -1 }], sdgAlignmentScore: [] } },
+      { company: company(2, -0.6, null) },
+      { company: company(3, -0.4, null) },
+    ].map(c => ({ ...c, timeSeries: [] as TimeSeries[] }));
+    const parameters: AnalysisParameters = {
+      includeScope3: false,
+      methodology: "relative",
+      sectorGranularity: "sector",
+      thresholds: { tertileApproach: false, decarbonizingTarget: -0.5 },
+      winsorize: false,
+      winsorizePercentile: 5,
+    };
+
+    it("should not use a target before it was set", () => {
+      const before = classifyCompaniesSectorRelative(companiesWithData, new Date("2019-06-30"), parameters);
+      const after = classifyCompaniesSectorRelative(companiesWithData, new Date("2020-06-30"), parameters);
+
+      expect(before.decarbonizing).toEqual([2]);
+      expect(after.decarbonizing.sort()).toEqual([1, 2]);
+    });
+  });
+
+  describe("metricAt", () => {
+    const metrics: CompanyMetrics = new Map([
+      ["SDG_07_NET_ALIGNMENT_SCORE", [{ date: new Date("2018-01-01"), value: 1 }, { date: new Date("2020-01-01"), value: 3 }]],
+      ["GREEN_REVENUE_SHARE", [{ date: null, value: 0.25 }]],
+    ]);
+
+    it("should use the latest dated value on or before the date", () => {
+      expect(metricAt(metrics, "SDG_07_NET_ALIGNMENT_SCORE", new Date("2019-06-30"))).toBe(1);
+      expect(metricAt(metrics, "SDG_07_NET_ALIGNMENT_SCORE", new Date("2017-06-30"))).toBeNull();
+    });
+
+    it("should apply undated values at every date and return null for missing metrics", () => {
+      expect(metricAt(metrics, "GREEN_REVENUE_SHARE", new Date("2000-01-01"))).toBe(0.25);
+      expect(metricAt(metrics, "SDG_13_NET_ALIGNMENT_SCORE", new Date("2020-01-01"))).toBeNull();
+      expect(metricAt(undefined, "GREEN_REVENUE_SHARE", new Date("2020-01-01"))).toBeNull();
+    });
+  });
+
+  describe("groupMetricsByCompany", () => {
+    it("should group rows by company and key, undated first", () => {
+      const row = (companyId: number, snapshotDate: Date | null, value: number): CompanyMetric => ({
+        id: 0, uploadId: 1, companyId, metricKey: "SDG_07_NET_ALIGNMENT_SCORE", snapshotDate, value, createdAt: new Date(),
+      });
+
+      const byCompany = groupMetricsByCompany([row(1, new Date("2020-01-01"), 3), row(1, null, 2), row(1, new Date("2018-01-01"), 1)]);
+
+      expect(byCompany.get(1)!.get("SDG_07_NET_ALIGNMENT_SCORE")!.map(m => m.value)).toEqual([2, 1, 3]);
+    });
+  });
+
+  describe("solutions composite classification", () => {
+    const metricsOf = (sdg7: number, sdg13: number | null): CompanyMetrics => new Map([
+      ["SDG_07_NET_ALIGNMENT_SCORE", [{ date: null, value: sdg7 }]],
+      ...(sdg13 === null ? [] : [["SDG_13_NET_ALIGNMENT_SCORE", [{ date: null, value: sdg13 }]] as const]),
+    ]);
+    // Company 1 leads on SDG 7 alone; company 2 on SDG 7 + SDG 13
+    const companiesWithData: CompanyWithTimeSeries[] = [
+      { company: company(1, null, 5), metrics: metricsOf(5, -4) },
+      { company: company(2, null, 3), metrics: metricsOf(3, 3) },
+      { company: company(3, null, 1), metrics: metricsOf(1, 0) },
+      { company: company(4, null, 4), metrics: metricsOf(4, null) },
+    ].map(c => ({ ...c, timeSeries: [] as TimeSeries[] }));
+    const parameters: AnalysisParameters = {
+      includeScope3: false,
+      methodology: "relative",
+      sectorGranularity: "sector",
+      thresholds: { tertileApproach: false, solutionsScore: 2 },
+      winsorize: false,
+      winsorizePercentile: 5,
+    };
+    const date = new Date("2020-06-30");
+
+    it("should rank the SDG alignment score without a composite", () => {
+      const result = classifyCompaniesSectorRelative(companiesWithData, date, parameters);
+
+      expect(result.solutions).toEqual([1, 4, 2]);
+    });
+
+    it("should rank the weighted sum of composite metrics", () => {
+      const result = classifyCompaniesSectorRelative(companiesWithData, date, {
+        ...parameters,
+        solutionsComposite: [
+          { metric: "SDG_07_NET_ALIGNMENT_SCORE", weight: 1 },
+          { metric: "SDG_13_NET_ALIGNMENT_SCORE", weight: 1 },
+        ],
+      });
+
+      // Company 4 has no SDG 13 score, so it is not ranked
+      expect(result.solutions).toEqual([2]);
+      expect(result.baseline).toContain(4);
+    });
+
+    it("should apply the composite cut-off rather than the SDG score cut-off", () => {
+      const result = classifyCompaniesSectorRelative(companiesWithData, date, {
+        ...parameters,
+        thresholds: { tertileApproach: false, solutionsScore: 2, solutionsCompositeScore: 1 },
+        solutionsComposite: [
+          { metric: "SDG_07_NET_ALIGNMENT_SCORE", weight: 1 },
+          { metric: "SDG_13_NET_ALIGNMENT_SCORE", weight: 1 },
+        ],
+      });
+
+      expect(result.solutions).toEqual([2, 1, 3]);
+    });
+
+    it("should take the top bucket of the composite in bucket mode", () => {
+      const result = classifyCompaniesSectorRelative(companiesWithData, date, {
+        ...parameters,
+        thresholds: { tertileApproach: true },
+        solutionsComposite: [{ metric: "SDG_13_NET_ALIGNMENT_SCORE", weight: 0.5 }],
+      });
+
+      expect(result.solutions).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { Company, CompanyMetric, EmissionTargetSnapshot, SdgAlignmentSnapshot } from '../drizzle/schema';
+
+/**
+ * Point-in-time company attributes. 2050 targets and SDG alignment scores
+ * change over time; reading today's value at every historical date would
+ * leak later information into the classification, so dated snapshots are
+ * used where the upload has them.
+ */
+
+export type SnapshotField = 'emissionTarget2050' | 'sdgAlignmentScore';
+
+export interface AttributeSnapshot {
+  /** First date the value applies */
+  date: Date;
+  value: number;
+}
+
+/** A company's snapshots of each attribute, in date order */
+export type CompanySnapshots = Record<SnapshotField, AttributeSnapshot[]>;
+
+/**
+ * Value of an attribute at a date: the latest snapshot on or before it, or
+ * null before the first one. Without snapshots of the attribute the static
+ * company column applies at every date.
+ */
+export function attributeAt(
+  company: Company,
+  snapshots: CompanySnapshots | undefined,
+  field: SnapshotField,
+  date: Date
+): number | null {
+  const dated = snapshots?.[field];
+  if (!dated || dated.length === 0) return company[field];
+
+  let value: number | null = null;
+  for (const snapshot of dated) {
+    if (snapshot.date.getTime() > date.getTime()) break;
+    value = snapshot.value;
+  }
+  return value;
+}
+
+/**
+ * Group an upload's snapshot rows by company id
+ */
+export function groupSnapshotsByCompany(
+  targets: EmissionTargetSnapshot[],
+  scores: SdgAlignmentSnapshot[]
+): Map<number, CompanySnapshots> {
+  const byCompany = new Map<number, CompanySnapshots>();
+  const add = (companyId: number, field: SnapshotField, snapshot: AttributeSnapshot) => {
+    if (!byCompany.has(companyId)) byCompany.set(companyId, { emissionTarget2050: [], sdgAlignmentScore: [] });
+    byCompany.get(companyId)![field].push(snapshot);
+  };
+
+  for (const row of targets) {
+    add(row.companyId, 'emissionTarget2050', { date: row.snapshotDate, value: row.emissionTarget2050 });
+  }
+  for (const row of scores) {
+    add(row.companyId, 'sdgAlignmentScore', { date: row.snapshotDate, value: row.sdgAlignmentScore });
+  }
+
+  byCompany.forEach(snapshots => {
+    snapshots.emissionTarget2050.sort((a, b) => a.date.getTime() - b.date.getTime());
+    snapshots.sdgAlignmentScore.sort((a, b) => a.date.getTime() - b.date.getTime());
+  });
+  return byCompany;
+}
+
+export interface MetricValue {
+  /** First date the value applies; null applies at every date */
+  date: Date | null;
+  value: number;
+}
+
+/** A company's values of each metric key, undated first and then in date order */
+export type CompanyMetrics = Map<string, MetricValue[]>;
+
+/**
+ * Value of a metric at a date: the latest dated value on or before it, or
+ * null before the first one. A metric with only an undated value has it at
+ * every date.
+ */
+export function metricAt(metrics: CompanyMetrics | undefined, metricKey: string, date: Date): number | null {
+  const values = metrics?.get(metricKey);
+  if (!values || values.length === 0) return null;
+
+  const dated = values.filter(v => v.date !== null);
+  if (dated.length === 0) return values[values.length - 1].value;
+
+  let value: number | null = null;
+  for (const metric of dated) {
+    if (metric.date!.getTime() > date.getTime()) break;
+    value = metric.value;
+  }
+  return value;
+}
+
+/**
+ * Group an upload's metric rows by company id
+ */
+export function groupMetricsByCompany(rows: CompanyMetric[]): Map<number, CompanyMetrics> {
+  const byCompany = new Map<number, CompanyMetrics>();
+  for (const row of rows) {
+    if (!byCompany.has(row.companyId)) byCompany.set(row.companyId, new Map());
+    const metrics = byCompany.get(row.companyId)!;
+    if (!metrics.has(row.metricKey)) metrics.set(row.metricKey, []);
+    metrics.get(row.metricKey)!.push({ date: row.snapshotDate, value: row.value });
+  }
+
+  const time = (value: MetricValue) => value.date?.getTime() ?? -Infinity;
+  byCompany.forEach(metrics => {
+    metrics.forEach(values => values.sort((a, b) => time(a) - time(b)));
+  });
+  return byCompany;
+}
@@ -0,0 +1,282 @@
+import { describe, expect, it } from "vitest";
+import { DATASTREAM_COLUMN_MAPPING } from "../shared/columnMapping";
+import {
+  findAvailableFiscalYear,
+  parseFiscalYearEndMonth,
+  discoverEmissionsColumns,
+  getEmissionsColumnPattern,
+  normalizeFiscalYear,
+  processClimateData,
+  readCompanyMetrics,
+  type RawSheetData,
+} from "./dataProcessor";
+
+describe("Data Processor", () => {
+  describe("normalizeFiscalYear", () => {
+    it("should expand two-digit years around a 1950 pivot", () => {
+      expect(normalizeFiscalYear(25)).toBe(2025);
+      expect(normalizeFiscalYear(5)).toBe(2005);
+      expect(normalizeFiscalYear(98)).toBe(1998);
+    });
+
+    it("should pass four-digit years through", () => {
+      expect(normalizeFiscalYear(2009)).toBe(2009);
+    });
+  });
+
+  describe("discoverEmissionsColumns", () => {
+    it("should match two- and four-digit fiscal years for the requested scope only", () => {
+      const rows = [
+        { ISSUER_ISIN: "US0378331005", CARBON_EMISSIONS_SCOPE_1_FY08: 1, CARBON_EMISSIONS_SCOPE_1_FY2025: 2 },
+        { ISSUER_ISIN: "GB0002634946", CARBON_EMISSIONS_SCOPE_1_FY24: 3, CARBON_EMISSIONS_SCOPE_2_FY24: 4 },
+      ];
+      const columns = discoverEmissionsColumns(rows, DATASTREAM_COLUMN_MAPPING, 1);
+      expect(Array.from(columns.entries()).sort((a, b) => a[1] - b[1])).toEqual([
+        ["CARBON_EMISSIONS_SCOPE_1_FY08", 2008],
+        ["CARBON_EMISSIONS_SCOPE_1_FY24", 2024],
+        ["CARBON_EMISSIONS_SCOPE_1_FY2025", 2025],
+      ]);
+    });
+
+    it("should not match other lengths or trailing text", () => {
+      const pattern = getEmissionsColumnPattern(DATASTREAM_COLUMN_MAPPING, 2);
+      expect(pattern.test("CARBON_EMISSIONS_SCOPE_2_FY202")).toBe(false);
+      expect(pattern.test("CARBON_EMISSIONS_SCOPE_2_FY24_EST")).toBe(false);
+    });
+  });
+
+  describe("processClimateData", () => {
+    const rawData: RawSheetData = {
+      Descriptive: [{ NAME: "APPLE", Type: "US0378331005", "LEVEL2 SECTOR NAME": "Technology" }],
+      RI: [
+        { Name: "2009-12-31", "APPLE - TOT RETURN IND": 90 },
+        { Name: "2025-12-31", "APPLE - TOT RETURN IND": 200 },
+      ],
+      MV: [],
+      PE: [],
+      Profit: [],
+      S1: [{ ISSUER_ISIN: "US0378331005", CARBON_EMISSIONS_SCOPE_1_FY09: 100, CARBON_EMISSIONS_SCOPE_1_FY2025: 50 }],
+      S2: [{ ISSUER_ISIN: "US0378331005", CARBON_EMISSIONS_SCOPE_2_FY25: 20 }],
+      S3: [],
+      GreenRev: [],
+      EmissionTargets: [],
+    };
+
+    // No lag, so each fiscal year is usable right after its June year-end
+    const data = processClimateData(rawData, DATASTREAM_COLUMN_MAPPING, { publicationLagMonths: 0 });
+
+    it("should use emissions outside the old FY10-FY24 window", () => {
+      const byYear = new Map(data.timeSeries.map(ts => [ts.date.getFullYear(), ts]));
+      expect(byYear.get(2009)?.scope1Emissions).toBe(100);
+      expect(byYear.get(2025)?.scope1Emissions).toBe(50);
+      expect(byYear.get(2025)?.scope2Emissions).toBe(20);
+    });
+
+    it("should report the fiscal years found for each scope", () => {
+      expect(data.stats.fiscalYearsByScope).toEqual({
+        scope1: [2009, 2025],
+        scope2: [2025],
+        scope3: [],
+      });
+    });
+  });
+
+  describe("parseFiscalYearEndMonth", () => {
+    it("should accept month numbers, month names and year-end dates", () => {
+      expect(parseFiscalYearEndMonth(3)).toBe(3);
+      expect(parseFiscalYearEndMonth("12")).toBe(12);
+      expect(parseFiscalYearEndMonth("Dec")).toBe(12);
+      expect(parseFiscalYearEndMonth("MARCH")).toBe(3);
+      expect(parseFiscalYearEndMonth("2023-09-30")).toBe(9);
+    });
+
+    it("should return null for missing or unparseable values", () => {
+      expect(parseFiscalYearEndMonth(null)).toBeNull();
+      expect(parseFiscalYearEndMonth("NA")).toBeNull();
+      expect(parseFiscalYearEndMonth("")).toBeNull();
+    });
+  });
+
+  describe("findAvailableFiscalYear", () => {
+    it("should match the old June year-end behaviour with no lag", () => {
+      expect(findAvailableFiscalYear(new Date(2020, 6, 15), 6, 0)).toBe(2020);
+      expect(findAvailableFiscalYear(new Date(2020, 5, 30), 6, 0)).toBe(2019);
+    });
+
+    it("should follow each company's own year-end", () => {
+      // December year-end: FY2020 is usable from January 2021
+      expect(findAvailableFiscalYear(new Date(2021, 0, 31), 12, 0)).toBe(2020);
+      expect(findAvailableFiscalYear(new Date(2020, 11, 31), 12, 0)).toBe(2019);
+      // March year-end: FY2021 ends March 2021
+      expect(findAvailableFiscalYear(new Date(2021, 3, 30), 3, 0)).toBe(2021);
+    });
+
+    it("should hold back figures until the publication lag has passed", () => {
+      // December year-end with a 6 month lag: FY2020 is usable from July 2021
+      expect(findAvailableFiscalYear(new Date(2021, 5, 30), 12, 6)).toBe(2019);
+      expect(findAvailableFiscalYear(new Date(2021, 6, 31), 12, 6)).toBe(2020);
+    });
+  });
+
+  describe("processClimateData emissions alignment", () => {
+    const rawData: RawSheetData = {
+      Descriptive: [
+        { NAME: "DEC CO", Type: "US0378331005", "FISCAL YEAR END": "DEC" },
+        { NAME: "MAR CO", Type: "GB0002634946", "FISCAL YEAR END": 6 },
+      ],
+      RI: [{ Name: "2021-05-31", "DEC CO - TOT RETURN IND": 100, "MAR CO - TOT RETURN IND": 100 }],
+      MV: [],
+      PE: [],
+      Profit: [],
+      S1: [
+        { ISSUER_ISIN: "US0378331005", CARBON_EMISSIONS_SCOPE_1_FY20: 20, CARBON_EMISSIONS_SCOPE_1_FY21: 21 },
+        { ISSUER_ISIN: "GB0002634946", CARBON_EMISSIONS_SCOPE_1_FY20: 20, CARBON_EMISSIONS_SCOPE_1_FY21: 21 },
+      ],
+      S2: [],
+      S3: [],
+      GreenRev: [],
+      EmissionTargets: [],
+    };
+
+    const data = processClimateData(rawData, DATASTREAM_COLUMN_MAPPING, {
+      publicationLagMonths: 1,
+      // The mapping file overrides the Descriptive sheet
+      fiscalYearEnds: new Map([["GB0002634946", 3]]),
+    });
+
+    it("should store each company's fiscal year-end month", () => {
+      expect(data.companies.map(c => c.fiscalYearEndMonth)).toEqual([12, 3]);
+    });
+
+    it("should pick the latest fiscal year published by each price date", () => {
+      // May 2021: December FY2020 was published in February; March FY2021 in May
+      const [decCo, marCo] = data.timeSeries;
+      expect(decCo.scope1Emissions).toBe(20);
+      expect(marCo.scope1Emissions).toBe(21);
+    });
+  });
+
+  describe("processClimateData optional Revenue and EVIC sheets", () => {
+    const rawData: RawSheetData = {
+      Descriptive: [{ NAME: "APPLE", Type: "US0378331005" }],
+      RI: [
+        { Name: "2021-01-31", "APPLE - TOT RETURN IND": 100 },
+        { Name: "2021-02-28", "APPLE - TOT RETURN IND": 101 },
+      ],
+      MV: [],
+      PE: [],
+      Profit: [],
+      S1: [],
+      S2: [],
+      S3: [],
+      GreenRev: [],
+      EmissionTargets: [],
+      // Revenue dated a few days off the price dates, EVIC on the first date only
+      Revenue: [
+        { Name: "2021-01-29", "APPLE - NET SALES OR REVENUES": 300 },
+        { Name: "2021-02-26", "APPLE - NET SALES OR REVENUES": 310 },
+      ],
+      EVIC: [{ Name: "2021-01-31", "APPLE - ENTERPRISE VALUE": 2000 }],
+    };
+
+    it("should match revenue and EVIC to the nearest date within the window", () => {
+      const [jan, feb] = processClimateData(rawData).timeSeries;
+      expect(jan.revenue).toBe(300);
+      expect(feb.revenue).toBe(310);
+      expect(jan.evic).toBe(2000);
+      expect(feb.evic).toBe(2000);
+    });
+
+    it("should leave revenue and EVIC null when the sheets are absent", () => {
+      const { Revenue, EVIC, ...required } = rawData;
+      const [jan] = processClimateData(required).timeSeries;
+      expect(jan.revenue).toBeNull();
+      expect(jan.evic).toBeNull();
+    });
+  });
+
+  describe("processClimateData target and SDG score snapshots", () => {
+    const rawData: RawSheetData = {
+      Descriptive: [
+        { NAME: "APPLE", Type: "US0378331005" },
+        { NAME: "BAE", Type: "GB0002634946" },
+      ],
+      RI: [],
+      MV: [],
+      PE: [],
+      Profit: [],
+      S1: [],
+      S2: [],
+      S3: [],
+      // Apple's score is dated; BAE's row has no date and stays static
+      GreenRev: [
+        { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2018-01-01", SDG_07_NET_ALIGNMENT_SCORE: 1 },
+        { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2020-01-01", SDG_07_NET_ALIGNMENT_SCORE: 3 },
+        { ISSUER_ISIN: "GB0002634946", SDG_07_NET_ALIGNMENT_SCORE: 2 },
+      ],
+      // Unchanged and repeated targets collapse to the changes
+      EmissionTargets: [
+        { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2019-01-01", TARGET_SUMMARY_CUM_CHANGE_2050: -0.5 },
+        { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2017-01-01", TARGET_SUMMARY_CUM_CHANGE_2050: -0.3 },
+        { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2021-01-01", TARGET_SUMMARY_CUM_CHANGE_2050: -0.5 },
+        { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2021-01-01", TARGET_SUMMARY_CUM_CHANGE_2050: -1 },
+      ],
+    };
+
+    const data = processClimateData(rawData);
+
+    it("should keep dated rows as snapshots and undated rows on the company only", () => {
+      expect(data.snapshots.sdgAlignmentScore.map(s => [s.isin, s.value])).toEqual([
+        ["US0378331005", 1],
+        ["US0378331005", 3],
+      ]);
+    });
+
+    it("should sort snapshots and drop repeats and unchanged values", () => {
+      expect(data.snapshots.emissionTarget2050.map(s => [s.snapshotDate.getUTCFullYear(), s.value])).toEqual([
+        [2017, -0.3],
+        [2019, -0.5],
+        [2021, -1],
+      ]);
+    });
+
+    it("should put the latest value on the company", () => {
+      expect(data.companies.map(c => [c.sdgAlignmentScore, c.emissionTarget2050])).toEqual([[3, -1], [2, null]]);
+    });
+  });
+
+  describe("readCompanyMetrics", () => {
+    const greenRev = [
+      { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2018-01-01", SDG_07_NET_ALIGNMENT_SCORE: 1, SDG_13_NET_ALIGNMENT_SCORE: 2, NAME: "3M CO" },
+      { ISSUER_ISIN: "US0378331005", SNAPSHOT_DATE: "2020-01-01", SDG_07_NET_ALIGNMENT_SCORE: 3, SDG_13_NET_ALIGNMENT_SCORE: 2 },
+      { ISSUER_ISIN: "GB0002634946", SDG_13_NET_ALIGNMENT_SCORE: -1, GREEN_REVENUE_SHARE: 0.25 },
+    ];
+
+    it("should read every SDG alignment and green revenue column", () => {
+      const metrics = readCompanyMetrics(greenRev, DATASTREAM_COLUMN_MAPPING);
+
+      expect(Array.from(new Set(metrics.map(m => m.metricKey))).sort()).toEqual([
+        "GREEN_REVENUE_SHARE",
+        "SDG_07_NET_ALIGNMENT_SCORE",
+        "SDG_13_NET_ALIGNMENT_SCORE",
+      ]);
+    });
+
+    it("should keep dated values as snapshots and undated values without a date", () => {
+      const metrics = readCompanyMetrics(greenRev, DATASTREAM_COLUMN_MAPPING);
+      const values = (isin: string, metricKey: string) => metrics
+        .filter(m => m.isin === isin && m.metricKey === metricKey)
+        .map(m => [m.snapshotDate?.getUTCFullYear() ?? null, m.value]);
+
+      expect(values("US0378331005", "SDG_07_NET_ALIGNMENT_SCORE")).toEqual([[2018, 1], [2020, 3]]);
+      expect(values("US0378331005", "SDG_13_NET_ALIGNMENT_SCORE")).toEqual([[2018, 2]]);
+      expect(values("GB0002634946", "GREEN_REVENUE_SHARE")).toEqual([[null, 0.25]]);
+    });
+
+    it("should use the profile's metric column pattern", () => {
+      const metrics = readCompanyMetrics(greenRev, { ...DATASTREAM_COLUMN_MAPPING, metricColumnPattern: "^GREEN_" });
+
+      expect(metrics.map(m => m.metricKey)).toEqual(["GREEN_REVENUE_SHARE"]);
+    });
+  });
+});
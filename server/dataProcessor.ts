@@ -1,5 +1,7 @@
 import * as XLSX from 'xlsx';
 import { InsertCompany, InsertTimeSeries } from '../drizzle/schema';
+import { DATASTREAM_COLUMN_MAPPING, LOGICAL_SHEETS, OPTIONAL_SHEETS, type ColumnMapping, type LogicalSheet, type OptionalSheet } from '../shared/columnMapping';
+import type { FiscalYearsByScope } from '../shared/fiscalYears';
 
 /**
  * Convert Excel date serial number to JavaScript Date
@@ -13,11 +15,27 @@ function excelSerialToDate(serial: number): Date {
   return new Date(excelEpoch.getTime() + serial * msPerDay);
 }
 
+/**
+ * Parse the date column of a time series sheet row.
+ * Accepts Excel serial numbers and date strings; returns null if unparseable.
+ */
+export function parseSheetDate(value: any): Date | null {
+  let date: Date;
+  if (typeof value === 'number') {
+    date = excelSerialToDate(value);
+  } else if (typeof value === 'string') {
+    date = new Date(value);
+  } else {
+    return null;
+  }
+  return isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * Sanitize numeric values from Excel - convert invalid values to null
  * Handles: "?", "NA", "#N/A", empty strings, undefined
  */
-function sanitizeNumeric(value: any): number | null {
+export function sanitizeNumeric(value: any): number | null {
   if (value === undefined || value === null || value === '') return null;
   if (typeof value === 'string') {
     const trimmed = value.trim();
@@ -31,9 +49,41 @@ function sanitizeNumeric(value: any): number | null {
   return null;
 }
 
+/**
+ * Parsed rows are upload-agnostic; the upload id is attached at insert time
+ */
+export type ProcessedCompany = Omit<InsertCompany, 'uploadId'>;
+export type ProcessedTimeSeries = Omit<InsertTimeSeries, 'uploadId'>;
+
+/**
+ * A dated 2050 target or SDG alignment score, keyed by ISIN until company ids exist
+ */
+export interface ProcessedSnapshot {
+  isin: string;
+  snapshotDate: Date;
+  value: number;
+}
+
+export interface ProcessedSnapshots {
+  emissionTarget2050: ProcessedSnapshot[];
+  sdgAlignmentScore: ProcessedSnapshot[];
+}
+
+/**
+ * A GreenRev metric value keyed by ISIN and column header; undated values apply at every date
+ */
+export interface ProcessedMetric {
+  isin: string;
+  metricKey: string;
+  snapshotDate: Date | null;
+  value: number;
+}
+
 export interface ProcessedData {
-  companies: InsertCompany[];
-  timeSeries: InsertTimeSeries[];
+  companies: ProcessedCompany[];
+  timeSeries: ProcessedTimeSeries[];
+  snapshots: ProcessedSnapshots;
+  metrics: ProcessedMetric[];
   dateRange: { min: Date; max: Date };
   stats: {
     totalCompanies: number;
@@ -41,6 +91,7 @@ export interface ProcessedData {
     companiesWithEmissions: number;
     companiesWithTargets: number;
     companiesWithSDGScores: number;
+    fiscalYearsByScope: FiscalYearsByScope;
   };
 }
 
@@ -55,44 +106,118 @@ export interface RawSheetData {
   Profit: any[];
   GreenRev: any[];
   EmissionTargets: any[];
+  /** Optional sheets; absent when the workbook doesn't have them */
+  Revenue?: any[];
+  EVIC?: any[];
+}
+
+export const REQUIRED_SHEETS: readonly LogicalSheet[] = LOGICAL_SHEETS;
+
+/**
+ * Sheet name of an optional sheet; profiles saved before it existed use the Datastream name
+ */
+export function getOptionalSheetName(mapping: ColumnMapping, sheet: OptionalSheet): string {
+  return mapping.sheets[sheet] || DATASTREAM_COLUMN_MAPPING.sheets[sheet]!;
+}
+
+/**
+ * Compile the profile's PE column pattern (capture group 1 is the ISIN)
+ */
+export function getPeColumnPattern(mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING): RegExp {
+  return new RegExp(mapping.peColumnPattern);
+}
+
+/**
+ * Compile the profile's GreenRev metric column pattern; profiles saved before
+ * metrics existed use the Datastream pattern
+ */
+export function getMetricColumnPattern(mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING): RegExp {
+  return new RegExp(mapping.metricColumnPattern || DATASTREAM_COLUMN_MAPPING.metricColumnPattern!);
 }
 
 /**
- * Parse Excel file and extract all sheets
+ * Maximum distance between an RI date and the profit row matched to it
  */
-export function parseExcelFile(buffer: Buffer): RawSheetData {
+export const PROFIT_MATCH_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse Excel file and extract all sheets, keyed by logical sheet name
+ */
+export function parseExcelFile(buffer: Buffer, mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING): RawSheetData {
   const workbook = XLSX.read(buffer, { type: 'buffer' });
 
-  const sheetNames = ['Descriptive', 'RI', 'MV', 'S1', 'S2', 'S3', 'PE', 'Profit', 'GreenRev', 'EmissionTargets'];
   const data: any = {};
 
-  for (const sheetName of sheetNames) {
+  for (const logicalName of REQUIRED_SHEETS) {
+    const sheetName = mapping.sheets[logicalName];
     if (!workbook.SheetNames.includes(sheetName)) {
       throw new Error(`Required sheet "${sheetName}" not found in Excel file`);
     }
     const sheet = workbook.Sheets[sheetName];
-    data[sheetName] = XLSX.utils.sheet_to_json(sheet);
+    data[logicalName] = XLSX.utils.sheet_to_json(sheet);
+  }
+
+  for (const logicalName of OPTIONAL_SHEETS) {
+    const sheetName = getOptionalSheetName(mapping, logicalName);
+    if (workbook.SheetNames.includes(sheetName)) {
+      data[logicalName] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName]);
+    }
   }
 
   return data as RawSheetData;
 }
 
+/**
+ * Binary search a sorted timestamp array for the value closest to the target
+ */
+export function findClosestTimestamp(sortedTimestamps: number[], targetTimestamp: number): number | null {
+  let left = 0;
+  let right = sortedTimestamps.length - 1;
+  let closestIdx = -1;
+  let minDiff = Infinity;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    const diff = Math.abs(sortedTimestamps[mid] - targetTimestamp);
+
+    if (diff < minDiff) {
+      minDiff = diff;
+      closestIdx = mid;
+    }
+
+    if (sortedTimestamps[mid] < targetTimestamp) {
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+
+  return closestIdx >= 0 ? sortedTimestamps[closestIdx] : null;
+}
+
 /**
  * Extract company name from RI column format: "COMPANY NAME - TOT RETURN IND"
  */
-function extractCompanyName(columnName: string): string {
-  return columnName.replace(' - TOT RETURN IND', '').trim();
+export function extractCompanyName(
+  columnName: string,
+  mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING
+): string {
+  return columnName.replace(mapping.suffixes.totalReturn, '').trim();
 }
 
 /**
  * Build mapping from company name to ISIN using Descriptive sheet
  */
-function buildNameToIsinMap(descriptive: any[]): Map<string, string> {
+export function buildNameToIsinMap(
+  descriptive: any[],
+  mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING
+): Map<string, string> {
   const map = new Map<string, string>();
+  const { companyName, isin: isinColumn } = mapping.columns;
   
   for (const row of descriptive) {
-    const name = row['NAME'];
-    const isin = row['Type'];
+    const name = row[companyName];
+    const isin = row[isinColumn];
     if (name && isin) {
       map.set(name.trim().toUpperCase(), isin);
     }
@@ -102,49 +227,117 @@ function buildNameToIsinMap(descriptive: any[]): Map<string, string> {
 }
 
 /**
- * Build mapping from ISIN to company metadata
+ * Sort snapshots by ISIN and date, keeping the last of any repeated ISIN x
+ * date and dropping values unchanged since the previous snapshot
  */
-function buildCompanyMetadata(
-  descriptive: any[],
-  greenRev: any[],
-  emissionTargets: any[]
-): Map<string, InsertCompany> {
-  const metadata = new Map<string, InsertCompany>();
-
-  // Index GreenRev and EmissionTargets by ISIN
-  const greenRevMap = new Map<string, number>();
-  for (const row of greenRev) {
-    const isin = row['ISSUER_ISIN'];
-    const score = sanitizeNumeric(row['SDG_07_NET_ALIGNMENT_SCORE']);
-    if (isin && score !== null) {
-      greenRevMap.set(isin, score);
+export function collapseSnapshots(snapshots: ProcessedSnapshot[]): ProcessedSnapshot[] {
+  const byKey = new Map<string, ProcessedSnapshot>();
+  for (const snapshot of snapshots) {
+    byKey.set(`${snapshot.isin}|${snapshot.snapshotDate.getTime()}`, snapshot);
+  }
+
+  const sorted = Array.from(byKey.values()).sort((a, b) =>
+    a.isin === b.isin ? a.snapshotDate.getTime() - b.snapshotDate.getTime() : a.isin.localeCompare(b.isin)
+  );
+  return sorted.filter((snapshot, i) => {
+    const previous = sorted[i - 1];
+    return !previous || previous.isin !== snapshot.isin || previous.value !== snapshot.value;
+  });
+}
+
+/**
+ * Read a GreenRev or EmissionTargets sheet. Rows dated by the snapshot date
+ * column become snapshots; the latest value per ISIN (an undated row if there
+ * is one, otherwise the latest snapshot) goes on the company.
+ */
+export function readCompanyAttributeSheet(
+  rows: any[],
+  valueColumn: string,
+  mapping: ColumnMapping
+): { latest: Map<string, number>; snapshots: ProcessedSnapshot[] } {
+  const { issuerIsin, snapshotDate: dateColumn } = mapping.columns;
+  const undated = new Map<string, number>();
+  const dated: ProcessedSnapshot[] = [];
+
+  for (const row of rows) {
+    const isin = row[issuerIsin];
+    const value = sanitizeNumeric(row[valueColumn]);
+    if (!isin || value === null) continue;
+
+    const snapshotDate = dateColumn ? parseSheetDate(row[dateColumn]) : null;
+    if (snapshotDate) {
+      dated.push({ isin, snapshotDate, value });
+    } else {
+      undated.set(isin, value);
     }
   }
 
-  const emissionTargetMap = new Map<string, number>();
-  for (const row of emissionTargets) {
-    const isin = row['ISSUER_ISIN'];
-    const target = sanitizeNumeric(row['TARGET_SUMMARY_CUM_CHANGE_2050']);
-    if (isin && target !== null) {
-      emissionTargetMap.set(isin, target);
+  const snapshots = collapseSnapshots(dated);
+  const latest = new Map<string, number>();
+  for (const snapshot of snapshots) latest.set(snapshot.isin, snapshot.value);
+  undated.forEach((value, isin) => latest.set(isin, value));
+
+  return { latest, snapshots };
+}
+
+/**
+ * Read every GreenRev column matching the metric pattern as a company metric.
+ * ISINs with dated rows keep their snapshots; the rest keep their undated value.
+ */
+export function readCompanyMetrics(rows: any[], mapping: ColumnMapping): ProcessedMetric[] {
+  const pattern = getMetricColumnPattern(mapping);
+  const { issuerIsin, snapshotDate } = mapping.columns;
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const header of Object.keys(row)) headers.add(header);
+  }
+  const metricKeys = Array.from(headers).filter(h => h !== issuerIsin && h !== snapshotDate && pattern.test(h));
+
+  const metrics: ProcessedMetric[] = [];
+  for (const metricKey of metricKeys) {
+    const { latest, snapshots } = readCompanyAttributeSheet(rows, metricKey, mapping);
+    const datedIsins = new Set(snapshots.map(s => s.isin));
+    for (const { isin, snapshotDate: date, value } of snapshots) {
+      metrics.push({ isin, metricKey, snapshotDate: date, value });
     }
+    latest.forEach((value, isin) => {
+      if (!datedIsins.has(isin)) metrics.push({ isin, metricKey, snapshotDate: null, value });
+    });
   }
 
+  return metrics;
+}
+
+/**
+ * Build mapping from ISIN to company metadata
+ */
+function buildCompanyMetadata(
+  descriptive: any[],
+  greenRevMap: Map<string, number>,
+  emissionTargetMap: Map<string, number>,
+  mapping: ColumnMapping,
+  fiscalYearEnds?: Map<string, number>
+): Map<string, ProcessedCompany> {
+  const metadata = new Map<string, ProcessedCompany>();
+  const columns = mapping.columns;
+
   // Build company metadata from Descriptive sheet
   for (const row of descriptive) {
-    const isin = row['Type'];
-    const name = row['NAME'];
+    const isin = row[columns.isin];
+    const name = row[columns.companyName];
     
     if (!isin || !name) continue;
 
-    const company: InsertCompany = {
+    const company: ProcessedCompany = {
       isin,
       name,
-      geography: row['GEOGRAPHIC DESCR.'] || null,
-      sector: row['LEVEL2 SECTOR NAME'] || null,
-      industry: row['LEVEL3 SECTOR NAME'] || null,
+      geography: row[columns.geography] || null,
+      sector: row[columns.sector] || null,
+      industry: row[columns.industry] || null,
       sdgAlignmentScore: greenRevMap.get(isin) ?? null,
       emissionTarget2050: emissionTargetMap.get(isin) ?? null,
+      fiscalYearEndMonth: fiscalYearEnds?.get(isin)
+        ?? (columns.fiscalYearEnd ? parseFiscalYearEndMonth(row[columns.fiscalYearEnd]) : null),
     };
 
     metadata.set(isin, company);
@@ -153,137 +346,184 @@ function buildCompanyMetadata(
   return metadata;
 }
 
-/**
- * Extract emissions data by ISIN and fiscal year
- */
-function buildEmissionsMap(
-  s1Data: any[],
-  s2Data: any[],
-  s3Data: any[]
-): Map<string, Map<string, { s1: number | null; s2: number | null; s3: number | null }>> {
-  const emissionsMap = new Map<string, Map<string, { s1: number | null; s2: number | null; s3: number | null }>>();
+export type EmissionsScope = 1 | 2 | 3;
 
-  // Process S1
-  for (const row of s1Data) {
-    const isin = row['ISSUER_ISIN'];
-    if (!isin) continue;
+export const EMISSIONS_SCOPES: readonly EmissionsScope[] = [1, 2, 3];
 
-    if (!emissionsMap.has(isin)) {
-      emissionsMap.set(isin, new Map());
-    }
+type EmissionsByYear = Map<number, { s1: number | null; s2: number | null; s3: number | null }>;
 
-    const companyMap = emissionsMap.get(isin)!;
+/**
+ * Expand a two-digit fiscal year (00-49 -> 2000s, 50-99 -> 1900s); four-digit years pass through
+ */
+export function normalizeFiscalYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 50 ? 2000 + year : 1900 + year;
+}
 
-    // Extract fiscal year columns (FY10-FY24)
-    for (let year = 10; year <= 24; year++) {
-      const fyKey = `FY${year}`;
-      const colName = `CARBON_EMISSIONS_SCOPE_1_FY${year}`;
-      const value = row[colName];
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-      if (!companyMap.has(fyKey)) {
-        companyMap.set(fyKey, { s1: null, s2: null, s3: null });
-      }
+/**
+ * Header pattern for a scope's emissions columns, built from the profile's
+ * template. Capture group 1 is the two- or four-digit fiscal year.
+ */
+export function getEmissionsColumnPattern(mapping: ColumnMapping, scope: EmissionsScope): RegExp {
+  const [before, after = ''] = mapping.columns.emissionsTemplate
+    .replace('{scope}', String(scope))
+    .split('{year}');
+  return new RegExp(`^${escapeRegExp(before)}(\\d{4}|\\d{2})${escapeRegExp(after)}$`);
+}
 
-      const sanitized = sanitizeNumeric(value);
-      if (sanitized !== null) {
-        companyMap.get(fyKey)!.s1 = sanitized;
-      }
+/**
+ * Find the emissions columns present in a sheet and the fiscal year each one holds
+ */
+export function discoverEmissionsColumns(
+  rows: any[],
+  mapping: ColumnMapping,
+  scope: EmissionsScope
+): Map<string, number> {
+  const pattern = getEmissionsColumnPattern(mapping, scope);
+  const columns = new Map<string, number>();
+
+  // sheet_to_json omits empty cells, so a header may only appear on some rows
+  for (const row of rows) {
+    for (const header of Object.keys(row)) {
+      if (columns.has(header)) continue;
+      const match = header.match(pattern);
+      if (match) columns.set(header, normalizeFiscalYear(parseInt(match[1], 10)));
     }
   }
 
-  // Process S2
-  for (const row of s2Data) {
-    const isin = row['ISSUER_ISIN'];
-    if (!isin) continue;
+  return columns;
+}
 
-    if (!emissionsMap.has(isin)) {
-      emissionsMap.set(isin, new Map());
-    }
+/**
+ * Extract emissions data by ISIN and fiscal year
+ */
+function buildEmissionsMap(
+  s1Data: any[],
+  s2Data: any[],
+  s3Data: any[],
+  mapping: ColumnMapping
+): { emissionsMap: Map<string, EmissionsByYear>; fiscalYearsByScope: FiscalYearsByScope } {
+  const emissionsMap = new Map<string, EmissionsByYear>();
+  const fiscalYearsByScope: FiscalYearsByScope = { scope1: [], scope2: [], scope3: [] };
+  const isinColumn = mapping.columns.issuerIsin;
+  const sheets: Record<EmissionsScope, any[]> = { 1: s1Data, 2: s2Data, 3: s3Data };
+
+  for (const scope of EMISSIONS_SCOPES) {
+    const rows = sheets[scope];
+    const field = `s${scope}` as const;
+    const columns = discoverEmissionsColumns(rows, mapping, scope);
+    fiscalYearsByScope[`scope${scope}`] = Array.from(new Set(columns.values())).sort((a, b) => a - b);
+
+    for (const row of rows) {
+      const isin = row[isinColumn];
+      if (!isin) continue;
 
-    const companyMap = emissionsMap.get(isin)!;
+      if (!emissionsMap.has(isin)) {
+        emissionsMap.set(isin, new Map());
+      }
 
-    for (let year = 10; year <= 24; year++) {
-      const fyKey = `FY${year}`;
-      const colName = `CARBON_EMISSIONS_SCOPE_2_FY${year}`;
-      const value = row[colName];
+      const companyMap = emissionsMap.get(isin)!;
 
-      if (!companyMap.has(fyKey)) {
-        companyMap.set(fyKey, { s1: null, s2: null, s3: null });
-      }
+      for (const [colName, fiscalYear] of Array.from(columns)) {
+        if (!companyMap.has(fiscalYear)) {
+          companyMap.set(fiscalYear, { s1: null, s2: null, s3: null });
+        }
 
-      const sanitized = sanitizeNumeric(value);
-      if (sanitized !== null) {
-        companyMap.get(fyKey)!.s2 = sanitized;
+        const sanitized = sanitizeNumeric(row[colName]);
+        if (sanitized !== null) {
+          companyMap.get(fiscalYear)![field] = sanitized;
+        }
       }
     }
   }
 
-  // Process S3
-  for (const row of s3Data) {
-    const isin = row['ISSUER_ISIN'];
-    if (!isin) continue;
+  return { emissionsMap, fiscalYearsByScope };
+}
 
-    if (!emissionsMap.has(isin)) {
-      emissionsMap.set(isin, new Map());
-    }
+/**
+ * Companies with no known fiscal year-end are assumed to report on June 30th
+ */
+export const DEFAULT_FISCAL_YEAR_END_MONTH = 6;
 
-    const companyMap = emissionsMap.get(isin)!;
+/**
+ * Months between a fiscal year-end and the emissions for that year being usable
+ */
+export const DEFAULT_PUBLICATION_LAG_MONTHS = 6;
 
-    for (let year = 10; year <= 24; year++) {
-      const fyKey = `FY${year}`;
-      const colName = `CARBON_EMISSIONS_SCOPE_3_FY${year}`;
-      const value = row[colName];
+export interface EmissionsAlignmentOptions {
+  publicationLagMonths: number;
+  /** ISIN -> fiscal year-end month (1-12); overrides the Descriptive sheet */
+  fiscalYearEnds?: Map<string, number>;
+}
 
-      if (!companyMap.has(fyKey)) {
-        companyMap.set(fyKey, { s1: null, s2: null, s3: null });
-      }
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
 
-      const sanitized = sanitizeNumeric(value);
-      if (sanitized !== null) {
-        companyMap.get(fyKey)!.s3 = sanitized;
-      }
-    }
+/**
+ * Read a fiscal year-end month (1-12) from a month number, a month name
+ * ("Dec", "DECEMBER") or a year-end date (Excel serial or date string)
+ */
+export function parseFiscalYearEndMonth(value: any): number | null {
+  if (value === undefined || value === null) return null;
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim().toUpperCase();
+    if (trimmed === '') return null;
+    const monthIndex = MONTH_NAMES.indexOf(trimmed.substring(0, 3));
+    if (monthIndex >= 0 && /^[A-Z]+$/.test(trimmed)) return monthIndex + 1;
+    if (/^\d+$/.test(trimmed)) return parseFiscalYearEndMonth(parseInt(trimmed, 10));
   }
 
-  return emissionsMap;
-}
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 12) {
+    return value;
+  }
 
-/**
- * Map fiscal year to approximate calendar date
- * FY10 -> 2010-06-30, FY11 -> 2011-06-30, etc.
- */
-function fyToDate(fy: string): Date {
-  const year = parseInt(fy.substring(2)) + 2000;
-  return new Date(year, 5, 30); // June 30th
+  const date = parseSheetDate(value);
+  return date ? date.getMonth() + 1 : null;
 }
 
 /**
- * Find closest fiscal year for a given date
+ * Latest fiscal year whose emissions were public on the given date.
+ *
+ * Fiscal year N ends in month `fiscalYearEndMonth` of calendar year N; its
+ * figures are treated as available from the start of the month after the
+ * year-end plus the publication lag, so no price date sees later disclosures.
  */
-function findClosestFY(date: Date): string {
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  
-  // If before July, use previous year's FY
-  const fyYear = month < 6 ? year - 1 : year;
-  const fy = fyYear - 2000;
-  
-  return `FY${fy.toString().padStart(2, '0')}`;
+export function findAvailableFiscalYear(
+  date: Date,
+  fiscalYearEndMonth: number = DEFAULT_FISCAL_YEAR_END_MONTH,
+  publicationLagMonths: number = DEFAULT_PUBLICATION_LAG_MONTHS
+): number {
+  const monthIndex = date.getFullYear() * 12 + date.getMonth();
+  return Math.floor((monthIndex - publicationLagMonths - fiscalYearEndMonth) / 12);
 }
 
 /**
  * Process all data and transform into database-ready format
  */
-export function processClimateData(rawData: RawSheetData): ProcessedData {
-  const { Descriptive, RI, MV, PE, Profit, S1, S2, S3, GreenRev, EmissionTargets } = rawData;
+export function processClimateData(
+  rawData: RawSheetData,
+  mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING,
+  alignment: EmissionsAlignmentOptions = { publicationLagMonths: DEFAULT_PUBLICATION_LAG_MONTHS }
+): ProcessedData {
+  const { Descriptive, RI, MV, PE, Profit, S1, S2, S3, GreenRev, EmissionTargets, Revenue = [], EVIC = [] } = rawData;
+  const dateColumn = mapping.columns.date;
+  const peColumnPattern = getPeColumnPattern(mapping);
+  const { publicationLagMonths, fiscalYearEnds } = alignment;
 
   // Build mappings
-  const nameToIsin = buildNameToIsinMap(Descriptive);
-  const companyMetadata = buildCompanyMetadata(Descriptive, GreenRev, EmissionTargets);
-  const emissionsMap = buildEmissionsMap(S1, S2, S3);
+  const nameToIsin = buildNameToIsinMap(Descriptive, mapping);
+  const sdgScores = readCompanyAttributeSheet(GreenRev, mapping.columns.sdgAlignmentScore, mapping);
+  const emissionTargets = readCompanyAttributeSheet(EmissionTargets, mapping.columns.emissionTarget2050, mapping);
+  const metrics = readCompanyMetrics(GreenRev, mapping);
+  const companyMetadata = buildCompanyMetadata(Descriptive, sdgScores.latest, emissionTargets.latest, mapping, fiscalYearEnds);
+  const { emissionsMap, fiscalYearsByScope } = buildEmissionsMap(S1, S2, S3, mapping);
 
   // Extract companies
-  const companies: InsertCompany[] = Array.from(companyMetadata.values());
+  const companies: ProcessedCompany[] = Array.from(companyMetadata.values());
 
   // Create ISIN to ID mapping (will be filled after DB insert)
   const isinToCompanyId = new Map<string, number>();
@@ -292,26 +532,18 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
   });
 
   // Process time series data
-  const timeSeries: InsertTimeSeries[] = [];
+  const timeSeries: ProcessedTimeSeries[] = [];
   const dates = new Set<Date>();
 
-  // Get column names from RI sheet (excluding 'Name' column)
-  const riColumns = Object.keys(RI[0] || {}).filter(col => col !== 'Name');
+  // Get column names from RI sheet (excluding the date column)
+  const riColumns = Object.keys(RI[0] || {}).filter(col => col !== dateColumn);
 
   // Pre-index MV and PE data by date timestamp for fast lookup
   console.log('Pre-indexing MV data by date...');
   const mvByDate = new Map<number, any>();
   for (const row of MV) {
-    const dateValue = row['Name'];
-    let date: Date;
-    if (typeof dateValue === 'number') {
-      date = excelSerialToDate(dateValue);
-    } else if (typeof dateValue === 'string') {
-      date = new Date(dateValue);
-    } else {
-      continue;
-    }
-    if (!isNaN(date.getTime())) {
+    const date = parseSheetDate(row[dateColumn]);
+    if (date) {
       mvByDate.set(date.getTime(), row);
     }
   }
@@ -319,16 +551,8 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
   console.log('Pre-indexing PE data by date...');
   const peByDate = new Map<number, any>();
   for (const row of PE) {
-    const dateValue = row['Name'];
-    let date: Date;
-    if (typeof dateValue === 'number') {
-      date = excelSerialToDate(dateValue);
-    } else if (typeof dateValue === 'string') {
-      date = new Date(dateValue);
-    } else {
-      continue;
-    }
-    if (!isNaN(date.getTime())) {
+    const date = parseSheetDate(row[dateColumn]);
+    if (date) {
       peByDate.set(date.getTime(), row);
     }
   }
@@ -337,10 +561,9 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
   console.log('Building ISIN-to-PE-column map...');
   const isinToPeCol = new Map<string, string>();
   if (PE.length > 0) {
-    const peColumns = Object.keys(PE[0]).filter(col => col !== 'Name');
+    const peColumns = Object.keys(PE[0]).filter(col => col !== dateColumn);
     for (const col of peColumns) {
-      // PE column format: "ISIN(P)~U$/ISIN(F2MN)~U$"
-      const match = col.match(/^([A-Z]{2}[A-Z0-9]{9}[0-9])\(P\)/);
+      const match = col.match(peColumnPattern);
       if (match) {
         isinToPeCol.set(match[1], col);
       }
@@ -348,67 +571,46 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
   }
   console.log(`Mapped ${isinToPeCol.size} ISINs to PE columns`);
 
-  // Pre-index Profit data by date with sorted timestamps for fuzzy matching
-  console.log('Pre-indexing Profit data by date...');
-  const profitByDate = new Map<number, any>();
-  const profitTimestamps: number[] = [];
-  for (const row of Profit) {
-    const dateValue = row['Name'];
-    let date: Date;
-    if (typeof dateValue === 'number') {
-      date = excelSerialToDate(dateValue);
-    } else if (typeof dateValue === 'string') {
-      date = new Date(dateValue);
-    } else {
-      continue;
-    }
-    if (!isNaN(date.getTime())) {
-      const timestamp = date.getTime();
-      profitByDate.set(timestamp, row);
-      profitTimestamps.push(timestamp);
+  // Pre-index Profit (and Revenue/EVIC) data by date with sorted timestamps for fuzzy matching
+  function indexByDate(rows: any[]): { byDate: Map<number, any>; timestamps: number[] } {
+    const byDate = new Map<number, any>();
+    const timestamps: number[] = [];
+    for (const row of rows) {
+      const date = parseSheetDate(row[dateColumn]);
+      if (date) {
+        const timestamp = date.getTime();
+        byDate.set(timestamp, row);
+        timestamps.push(timestamp);
+      }
     }
+    timestamps.sort((a, b) => a - b);
+    return { byDate, timestamps };
   }
-  profitTimestamps.sort((a, b) => a - b);
-  console.log(`Indexed ${profitTimestamps.length} profit dates`);
 
-  // Helper function to find closest profit row within 30 days
-  function findClosestProfitRow(targetTimestamp: number): any | null {
-    // Try exact match first
-    if (profitByDate.has(targetTimestamp)) {
-      return profitByDate.get(targetTimestamp);
-    }
-
-    // Binary search for closest timestamp
-    let left = 0;
-    let right = profitTimestamps.length - 1;
-    let closestIdx = -1;
-    let minDiff = Infinity;
-
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      const diff = Math.abs(profitTimestamps[mid] - targetTimestamp);
-      
-      if (diff < minDiff) {
-        minDiff = diff;
-        closestIdx = mid;
-      }
+  console.log('Pre-indexing Profit data by date...');
+  const profitIndex = indexByDate(Profit);
+  console.log(`Indexed ${profitIndex.timestamps.length} profit dates`);
+  const revenueIndex = indexByDate(Revenue);
+  const evicIndex = indexByDate(EVIC);
 
-      if (profitTimestamps[mid] < targetTimestamp) {
-        left = mid + 1;
-      } else {
-        right = mid - 1;
-      }
+  // Helper function to find the closest row within 30 days
+  function findClosestRow(index: ReturnType<typeof indexByDate>, targetTimestamp: number): any | null {
+    // Try exact match first
+    if (index.byDate.has(targetTimestamp)) {
+      return index.byDate.get(targetTimestamp);
     }
 
-    // Check if closest is within 30 days (30 * 24 * 60 * 60 * 1000 ms)
-    const maxDiff = 30 * 24 * 60 * 60 * 1000;
-    if (closestIdx >= 0 && minDiff <= maxDiff) {
-      return profitByDate.get(profitTimestamps[closestIdx]);
+    const closest = findClosestTimestamp(index.timestamps, targetTimestamp);
+    if (closest !== null && Math.abs(closest - targetTimestamp) <= PROFIT_MATCH_WINDOW_MS) {
+      return index.byDate.get(closest);
     }
 
     return null;
   }
 
+  const revenueSuffix = mapping.suffixes.revenue || DATASTREAM_COLUMN_MAPPING.suffixes.revenue!;
+  const evicSuffix = mapping.suffixes.evic || DATASTREAM_COLUMN_MAPPING.suffixes.evic!;
+
   console.log(`Processing ${RI.length} time periods...`);
   let processedRows = 0;
   for (const row of RI) {
@@ -416,30 +618,21 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
     if (processedRows % 50 === 0) {
       console.log(`  Processed ${processedRows}/${RI.length} time periods (${timeSeries.length} records)`);
     }
-    const dateValue = row['Name'];
-    let date: Date;
-    
-    // Handle Excel serial numbers
-    if (typeof dateValue === 'number') {
-      date = excelSerialToDate(dateValue);
-    } else if (typeof dateValue === 'string') {
-      date = new Date(dateValue);
-    } else {
-      continue;
-    }
-    
-    if (isNaN(date.getTime())) continue;
+    const date = parseSheetDate(row[dateColumn]);
+    if (!date) continue;
 
     dates.add(date);
 
-    // Fast lookup of corresponding rows in MV, PE, and Profit
+    // Fast lookup of corresponding rows in MV, PE, Profit, Revenue and EVIC
     const mvRow = mvByDate.get(date.getTime());
     const peRow = peByDate.get(date.getTime());
-    const profitRow = findClosestProfitRow(date.getTime());
+    const profitRow = findClosestRow(profitIndex, date.getTime());
+    const revenueRow = findClosestRow(revenueIndex, date.getTime());
+    const evicRow = findClosestRow(evicIndex, date.getTime());
 
     // Process each company column
     for (const colName of riColumns) {
-      const companyName = extractCompanyName(colName);
+      const companyName = extractCompanyName(colName, mapping);
       const isin = nameToIsin.get(companyName.toUpperCase());
 
       if (!isin) continue;
@@ -447,20 +640,26 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
       const companyId = isinToCompanyId.get(isin);
       if (!companyId) continue;
 
-      // Build MV column name: replace "TOT RETURN IND" with "MARKET VAL BY CO."
-      const mvColName = colName.replace('TOT RETURN IND', 'MARKET VAL BY CO.');
+      // Build MV column name: swap the total return suffix for the market value suffix
+      const mvColName = colName.replace(mapping.suffixes.totalReturn, mapping.suffixes.marketValue);
       
       // For PE, use pre-built ISIN-to-PE-column map
       const peColName = isinToPeCol.get(isin);
       
-      // Build Profit column name: replace "TOT RETURN IND" with "FY2 INC MEAN EST"
-      const profitColName = colName.replace('TOT RETURN IND', 'FY2 INC MEAN EST');
+      // Build Profit column name: swap the total return suffix for the profit suffix
+      const profitColName = colName.replace(mapping.suffixes.totalReturn, mapping.suffixes.profit);
+      const revenueColName = colName.replace(mapping.suffixes.totalReturn, revenueSuffix);
+      const evicColName = colName.replace(mapping.suffixes.totalReturn, evicSuffix);
 
-      // Get emissions for this date (use closest fiscal year)
-      const fy = findClosestFY(date);
+      // Get emissions for this date (latest fiscal year already published)
+      const fy = findAvailableFiscalYear(
+        date,
+        companyMetadata.get(isin)?.fiscalYearEndMonth ?? DEFAULT_FISCAL_YEAR_END_MONTH,
+        publicationLagMonths
+      );
       const emissions = emissionsMap.get(isin)?.get(fy);
 
-      const tsData: InsertTimeSeries = {
+      const tsData: ProcessedTimeSeries = {
         companyId,
         date,
         totalReturnIndex: sanitizeNumeric(row[colName]),
@@ -470,6 +669,8 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
         scope2Emissions: sanitizeNumeric(emissions?.s2),
         scope3Emissions: sanitizeNumeric(emissions?.s3),
         netProfit: sanitizeNumeric(profitRow?.[profitColName]),
+        revenue: sanitizeNumeric(revenueRow?.[revenueColName]),
+        evic: sanitizeNumeric(evicRow?.[evicColName]),
       };
 
       timeSeries.push(tsData);
@@ -490,11 +691,17 @@ export function processClimateData(rawData: RawSheetData): ProcessedData {
     companiesWithEmissions: Array.from(emissionsMap.keys()).length,
     companiesWithTargets: Array.from(companyMetadata.values()).filter(c => c.emissionTarget2050 !== null).length,
     companiesWithSDGScores: Array.from(companyMetadata.values()).filter(c => c.sdgAlignmentScore !== null).length,
+    fiscalYearsByScope,
   };
 
   return {
     companies,
     timeSeries,
+    snapshots: {
+      emissionTarget2050: emissionTargets.snapshots,
+      sdgAlignmentScore: sdgScores.snapshots,
+    },
+    metrics,
     dateRange,
     stats,
   };
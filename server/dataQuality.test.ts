@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { Company, CompanyTercile, TimeSeries } from "../drizzle/schema";
+import { buildDataQualityReport, findOutliers, getCoverageMask } from "./dataQuality";
+
+function company(id: number, name: string): Company {
+  return {
+    id,
+    uploadId: 1,
+    isin: `XX000000000${id}`,
+    name,
+    geography: null,
+    sector: "Energy",
+    industry: null,
+    sdgAlignmentScore: null,
+    emissionTarget2050: null,
+    fiscalYearEndMonth: null,
+    createdAt: new Date(),
+  };
+}
+
+function ts(companyId: number, date: string, values: Partial<TimeSeries> = {}): TimeSeries {
+  return {
+    id: 0,
+    uploadId: 1,
+    companyId,
+    date: new Date(date),
+    totalReturnIndex: null,
+    marketCap: 100,
+    priceEarnings: 15,
+    scope1Emissions: 10,
+    scope2Emissions: 5,
+    scope3Emissions: null,
+    netProfit: 8,
+    scope1Source: "reported",
+    scope2Source: "reported",
+    scope3Source: null,
+    createdAt: new Date(),
+    ...values,
+  };
+}
+
+function tercile(companyId: number, date: string, assignment: CompanyTercile["tercileAssignment"]): CompanyTercile {
+  return {
+    id: 0,
+    uploadId: 1,
+    companyId,
+    date: new Date(date),
+    method: "sector_relative",
+    includeScope3: 0,
+    includeEstimates: 0,
+    carbonIntensity: null,
+    intensityRank: { bottom: 0, middle: 1, top: 2 }[assignment],
+    rankedCount: 3,
+    tercileAssignment: assignment,
+    createdAt: new Date(),
+  };
+}
+
+describe("Data Quality", () => {
+  describe("getCoverageMask", () => {
+    it("should set one bit per field with a value", () => {
+      expect(getCoverageMask(ts(1, "2020-01-31"))).toBe(0b011111);
+      expect(getCoverageMask(ts(1, "2020-01-31", { priceEarnings: null, scope3Emissions: 1 }))).toBe(0b111101);
+    });
+  });
+
+  describe("findOutliers", () => {
+    it("should flag negative P/E, zero market cap and 10x emissions jumps", () => {
+      const flags = findOutliers([
+        ts(1, "2020-03-31", { scope1Emissions: 200 }),
+        ts(1, "2020-01-31", { priceEarnings: -4 }),
+        ts(1, "2020-02-29", { marketCap: 0 }),
+        ts(1, "2020-04-30", { scope1Emissions: 200, scope2Emissions: 40 }),
+      ]);
+
+      expect(flags.map(f => f.type)).toEqual(["negative_pe", "zero_market_cap", "emissions_jump"]);
+      expect(flags[2]).toMatchObject({ field: "scope1Emissions", value: 200, previousValue: 10 });
+    });
+  });
+
+  describe("buildDataQualityReport", () => {
+    const companies = [company(1, "Beta"), company(2, "Alpha")];
+    const timeSeries = [
+      ts(1, "2020-01-31"),
+      ts(1, "2020-02-29", { priceEarnings: -2 }),
+      ts(2, "2020-01-31", { scope1Emissions: null, scope2Emissions: null, netProfit: null }),
+    ];
+    const terciles = [
+      tercile(1, "2020-01-31", "top"),
+      tercile(2, "2020-01-31", "bottom"),
+      tercile(1, "2020-02-29", "top"),
+      tercile(2, "2020-02-29", null),
+    ];
+    const report = buildDataQualityReport(companies, timeSeries, terciles, { includeScope3: false, includeEstimates: true });
+
+    it("should lay out coverage with companies sorted by name and -1 for missing rows", () => {
+      expect(report.companies.map(c => c.name)).toEqual(["Alpha", "Beta"]);
+      expect(report.coverage[0][1]).toBe(-1);
+      expect(report.fieldCoverage.marketCap).toBe(3 / 4);
+      expect(report.fieldCoverage.scope1Emissions).toBe(2 / 4);
+    });
+
+    it("should count portfolio metrics drops by the first failing filter", () => {
+      expect(report.portfolioMetricsDrops).toEqual({
+        used: 1,
+        no_observation: 1,
+        missing_market_cap: 0,
+        missing_denominator: 0,
+        missing_emissions: 1,
+        missing_pe: 0,
+        non_positive_pe: 1,
+      });
+    });
+
+    it("should count carbon price drops over top and bottom tercile rows", () => {
+      expect(report.carbonPriceDrops).toEqual({
+        used: 2,
+        no_tercile: 1,
+        missing_market_cap: 0,
+        missing_net_profit: 1,
+        missing_emissions: 0,
+        datesSkipped: 2,
+      });
+    });
+
+    it("should drop carbon price rows missing any included scope", () => {
+      const partial = [
+        ts(1, "2020-01-31", { scope2Emissions: null }),
+        ts(2, "2020-01-31"),
+      ];
+      const partialTerciles = [tercile(1, "2020-01-31", "top"), tercile(2, "2020-01-31", "bottom")];
+
+      const scope12 = buildDataQualityReport(companies, partial, partialTerciles, { includeScope3: false, includeEstimates: true });
+      expect(scope12.carbonPriceDrops).toMatchObject({ used: 1, missing_emissions: 1, datesSkipped: 1 });
+
+      // Neither row has Scope 3
+      const scope123 = buildDataQualityReport(companies, partial, partialTerciles, { includeScope3: true, includeEstimates: true });
+      expect(scope123.carbonPriceDrops).toMatchObject({ used: 0, missing_emissions: 2, datesSkipped: 1 });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import type { Company, CompanyTercile, TimeSeries } from '../drizzle/schema';
+import { getPortfolioMetricsExclusion, type PortfolioMetricsExclusion } from './portfolioAnalyzerV2';
+import { getCarbonPriceExclusion, withSelectedEmissions, type CarbonPriceExclusion } from './carbonPriceCalculator';
+
+/**
+ * Per-upload data quality: field coverage by company x date, outlier flags,
+ * and how many rows each analysis filter drops
+ */
+
+export const COVERAGE_FIELDS = [
+  'marketCap',
+  'priceEarnings',
+  'netProfit',
+  'scope1Emissions',
+  'scope2Emissions',
+  'scope3Emissions',
+] as const;
+
+export type CoverageField = (typeof COVERAGE_FIELDS)[number];
+
+export type OutlierType = 'negative_pe' | 'zero_market_cap' | 'emissions_jump';
+
+export interface OutlierFlag {
+  companyId: number;
+  date: Date;
+  type: OutlierType;
+  field: CoverageField;
+  value: number;
+  /** Previous distinct value, for emissions jumps */
+  previousValue: number | null;
+}
+
+/** Ratio between consecutive distinct emissions values that counts as a jump */
+export const EMISSIONS_JUMP_RATIO = 10;
+
+/** Cap on individual flags returned; outlierCounts always covers every flag */
+const MAX_OUTLIER_FLAGS = 500;
+
+export interface DataQualityReport {
+  dates: Date[];
+  companies: Array<{ id: number; name: string; sector: string | null }>;
+  /**
+   * coverage[company][date] is a bitmask: bit i is set when COVERAGE_FIELDS[i]
+   * has a value. -1 means there is no row for that company and date.
+   */
+  coverage: number[][];
+  /** Share (0-1) of company-dates with a value, per field */
+  fieldCoverage: Record<CoverageField, number>;
+  outlierCounts: Record<OutlierType, number>;
+  outliers: OutlierFlag[];
+  /** Company-date rows by outcome in calculatePortfolioMetrics */
+  portfolioMetricsDrops: Record<'used' | 'no_observation' | PortfolioMetricsExclusion, number>;
+  /** Top/bottom-tercile rows by outcome in calculateTotalBasedCarbonPrice */
+  carbonPriceDrops: Record<'used' | 'no_tercile' | CarbonPriceExclusion, number> & { datesSkipped: number };
+}
+
+export interface DataQualityOptions {
+  includeScope3: boolean;
+  includeEstimates: boolean;
+}
+
+/**
+ * Bitmask of the fields a row has values for
+ */
+export function getCoverageMask(ts: TimeSeries): number {
+  return COVERAGE_FIELDS.reduce((mask, field, i) => (ts[field] != null ? mask | (1 << i) : mask), 0);
+}
+
+/**
+ * Flag negative P/E, zero market cap and emissions that move by more than
+ * EMISSIONS_JUMP_RATIO between consecutive distinct values
+ */
+export function findOutliers(companyTimeSeries: TimeSeries[]): OutlierFlag[] {
+  const flags: OutlierFlag[] = [];
+  const sorted = [...companyTimeSeries].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const previous: Partial<Record<CoverageField, number>> = {};
+
+  for (const ts of sorted) {
+    const base = { companyId: ts.companyId, date: ts.date, previousValue: null };
+    if (ts.priceEarnings != null && ts.priceEarnings < 0) {
+      flags.push({ ...base, type: 'negative_pe', field: 'priceEarnings', value: ts.priceEarnings });
+    }
+    if (ts.marketCap === 0) {
+      flags.push({ ...base, type: 'zero_market_cap', field: 'marketCap', value: 0 });
+    }
+
+    for (const field of ['scope1Emissions', 'scope2Emissions', 'scope3Emissions'] as const) {
+      const value = ts[field];
+      if (value == null || value === previous[field]) continue;
+
+      const prior = previous[field];
+      if (prior != null && prior > 0 && value > 0 && Math.max(value / prior, prior / value) > EMISSIONS_JUMP_RATIO) {
+        flags.push({ ...base, type: 'emissions_jump', field, value, previousValue: prior });
+      }
+      previous[field] = value;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Build the quality report for an upload. Terciles must be the variant the
+ * carbon price calculation would use for the same options.
+ */
+export function buildDataQualityReport(
+  companies: Company[],
+  timeSeries: TimeSeries[],
+  terciles: CompanyTercile[],
+  options: DataQualityOptions
+): DataQualityReport {
+  const dateTimes = Array.from(new Set(timeSeries.map(ts => ts.date.getTime()))).sort((a, b) => a - b);
+  const dateIndex = new Map(dateTimes.map((t, i) => [t, i]));
+  const sortedCompanies = [...companies].sort((a, b) => a.name.localeCompare(b.name));
+  const companyIndex = new Map(sortedCompanies.map((c, i) => [c.id, i]));
+
+  const coverage = sortedCompanies.map(() => new Array<number>(dateTimes.length).fill(-1));
+  const fieldCounts = Object.fromEntries(COVERAGE_FIELDS.map(f => [f, 0])) as Record<CoverageField, number>;
+  const portfolioMetricsDrops: DataQualityReport['portfolioMetricsDrops'] = {
+    used: 0,
+    no_observation: 0,
+    missing_market_cap: 0,
+    missing_denominator: 0,
+    missing_emissions: 0,
+    missing_pe: 0,
+    non_positive_pe: 0,
+  };
+
+  const timeSeriesByKey = new Map<string, TimeSeries>();
+  const timeSeriesByCompany = new Map<number, TimeSeries[]>();
+
+  for (const ts of timeSeries) {
+    const row = companyIndex.get(ts.companyId);
+    if (row === undefined) continue;
+
+    const mask = getCoverageMask(ts);
+    coverage[row][dateIndex.get(ts.date.getTime())!] = mask;
+    COVERAGE_FIELDS.forEach((field, i) => {
+      if (mask & (1 << i)) fieldCounts[field]++;
+    });
+
+    const exclusion = getPortfolioMetricsExclusion(ts, options.includeScope3, options.includeEstimates);
+    portfolioMetricsDrops[exclusion ?? 'used']++;
+
+    timeSeriesByKey.set(`${ts.companyId}|${ts.date.getTime()}`, ts);
+    if (!timeSeriesByCompany.has(ts.companyId)) timeSeriesByCompany.set(ts.companyId, []);
+    timeSeriesByCompany.get(ts.companyId)!.push(ts);
+  }
+
+  const cells = sortedCompanies.length * dateTimes.length;
+  portfolioMetricsDrops.no_observation = cells - timeSeriesByKey.size;
+  const fieldCoverage = Object.fromEntries(
+    COVERAGE_FIELDS.map(f => [f, cells > 0 ? fieldCounts[f] / cells : 0])
+  ) as Record<CoverageField, number>;
+
+  const allOutliers = Array.from(timeSeriesByCompany.values()).flatMap(findOutliers);
+  const outlierCounts: Record<OutlierType, number> = { negative_pe: 0, zero_market_cap: 0, emissions_jump: 0 };
+  for (const flag of allOutliers) outlierCounts[flag.type]++;
+  const outliers = allOutliers
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_OUTLIER_FLAGS);
+
+  const carbonPriceDrops: DataQualityReport['carbonPriceDrops'] = {
+    used: 0,
+    no_tercile: 0,
+    missing_market_cap: 0,
+    missing_net_profit: 0,
+    missing_emissions: 0,
+    datesSkipped: 0,
+  };
+
+  const tercilesByDate = new Map<number, CompanyTercile[]>();
+  for (const tercile of terciles) {
+    const key = tercile.date.getTime();
+    if (!tercilesByDate.has(key)) tercilesByDate.set(key, []);
+    tercilesByDate.get(key)!.push(tercile);
+  }
+
+  for (const [time, dateTerciles] of Array.from(tercilesByDate.entries())) {
+    carbonPriceDrops.no_tercile += dateTerciles.filter(t => t.tercileAssignment === null).length;
+
+    const usedByAssignment = { top: 0, bottom: 0 };
+    for (const tercile of dateTerciles) {
+      if (tercile.tercileAssignment !== 'top' && tercile.tercileAssignment !== 'bottom') continue;
+
+      const ts = timeSeriesByKey.get(`${tercile.companyId}|${time}`);
+      if (!ts) continue;
+
+      const exclusion = getCarbonPriceExclusion(withSelectedEmissions(ts, options.includeEstimates), options.includeScope3);
+      carbonPriceDrops[exclusion ?? 'used']++;
+      if (!exclusion) usedByAssignment[tercile.tercileAssignment]++;
+    }
+
+    if (usedByAssignment.top === 0 || usedByAssignment.bottom === 0) carbonPriceDrops.datesSkipped++;
+  }
+
+  return {
+    dates: dateTimes.map(t => new Date(t)),
+    companies: sortedCompanies.map(c => ({ id: c.id, name: c.name, sector: c.sector })),
+    coverage,
+    fieldCoverage,
+    outlierCounts,
+    outliers,
+    portfolioMetricsDrops,
+    carbonPriceDrops,
+  };
+}
@@ -1,7 +1,8 @@
 import { eq, desc, and, gte, lte, inArray, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, companies, timeSeries, dataUploads, analysisResults, InsertCompany, InsertTimeSeries, InsertDataUpload, InsertAnalysisResult } from "../drizzle/schema";
+import { InsertUser, users, companies, timeSeries, dataUploads, analysisResults, uploadJobs, companyTerciles, carbonPriceCache, columnMappingProfiles, decarbonizationScenarios, emissionTargetSnapshots, sdgAlignmentSnapshots, companyMetrics, InsertCompany, InsertTimeSeries, InsertDataUpload, InsertAnalysisResult, InsertUploadJob, InsertColumnMappingProfile, InsertDecarbonizationScenario, InsertEmissionTargetSnapshot, InsertSdgAlignmentSnapshot, InsertCompanyMetric } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { IntensityDenominator } from "@shared/intensity";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -107,15 +108,18 @@ export async function upsertCompany(company: InsertCompany) {
       industry: company.industry,
       sdgAlignmentScore: company.sdgAlignmentScore,
       emissionTarget2050: company.emissionTarget2050,
+      fiscalYearEndMonth: company.fiscalYearEndMonth,
     },
   });
 }
 
-export async function getCompanyByIsin(isin: string) {
+export async function getCompanyByIsin(uploadId: number, isin: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.select().from(companies).where(eq(companies.isin, isin)).limit(1);
+  const result = await db.select().from(companies)
+    .where(and(eq(companies.uploadId, uploadId), eq(companies.isin, isin)))
+    .limit(1);
   return result.length > 0 ? result[0] : undefined;
 }
 
@@ -126,15 +130,22 @@ export async function getAllCompanies() {
   return await db.select().from(companies);
 }
 
+export async function getCompaniesByUpload(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(companies).where(eq(companies.uploadId, uploadId));
+}
+
 export async function getCompaniesWithTimeSeries(uploadId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Load all companies
-  const allCompanies = await db.select().from(companies);
+  // Load the upload's companies
+  const allCompanies = await db.select().from(companies).where(eq(companies.uploadId, uploadId));
   
-  // Load all time series data in one query
-  const allTimeSeries = await db.select().from(timeSeries);
+  // Load the upload's time series data in one query
+  const allTimeSeries = await db.select().from(timeSeries).where(eq(timeSeries.uploadId, uploadId));
   
   // Group time series by company ID
   const timeSeriesByCompanyId = new Map<number, typeof allTimeSeries>();
@@ -156,18 +167,20 @@ export async function getCompaniesWithTimeSeries(uploadId: number) {
     .filter(c => c.timeSeries.length > 0);
 }
 
-export async function getCompaniesByGeography(geography: string) {
+export async function getCompaniesByGeography(uploadId: number, geography: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  return await db.select().from(companies).where(eq(companies.geography, geography));
+  return await db.select().from(companies)
+    .where(and(eq(companies.uploadId, uploadId), eq(companies.geography, geography)));
 }
 
-export async function getCompaniesBySector(sector: string) {
+export async function getCompaniesBySector(uploadId: number, sector: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  return await db.select().from(companies).where(eq(companies.sector, sector));
+  return await db.select().from(companies)
+    .where(and(eq(companies.uploadId, uploadId), eq(companies.sector, sector)));
 }
 
 // ============================================================================
@@ -186,16 +199,26 @@ export async function insertTimeSeries(data: InsertTimeSeries) {
       scope1Emissions: data.scope1Emissions,
       scope2Emissions: data.scope2Emissions,
       scope3Emissions: data.scope3Emissions,
+      netProfit: data.netProfit,
+      revenue: data.revenue,
+      evic: data.evic,
+      scope1Source: data.scope1Source,
+      scope2Source: data.scope2Source,
+      scope3Source: data.scope3Source,
     },
   });
 }
 
-export async function insertTimeSeriesBatch(data: InsertTimeSeries[]) {
+export async function insertTimeSeriesBatch(
+  data: InsertTimeSeries[],
+  onProgress?: (rowsDone: number, rowsTotal: number) => void
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
   const BATCH_SIZE = 1000;
   for (let i = 0; i < data.length; i += BATCH_SIZE) {
+    onProgress?.(i, data.length);
     const batch = data.slice(i, i + BATCH_SIZE);
     await db.insert(timeSeries).values(batch).onDuplicateKeyUpdate({
       set: {
@@ -205,9 +228,16 @@ export async function insertTimeSeriesBatch(data: InsertTimeSeries[]) {
         scope1Emissions: sql`VALUES(${timeSeries.scope1Emissions})`,
         scope2Emissions: sql`VALUES(${timeSeries.scope2Emissions})`,
         scope3Emissions: sql`VALUES(${timeSeries.scope3Emissions})`,
+        netProfit: sql`VALUES(${timeSeries.netProfit})`,
+        revenue: sql`VALUES(${timeSeries.revenue})`,
+        evic: sql`VALUES(${timeSeries.evic})`,
+        scope1Source: sql`VALUES(${timeSeries.scope1Source})`,
+        scope2Source: sql`VALUES(${timeSeries.scope2Source})`,
+        scope3Source: sql`VALUES(${timeSeries.scope3Source})`,
       },
     });
   }
+  onProgress?.(data.length, data.length);
 }
 
 export async function getTimeSeriesByCompany(companyId: number, startDate?: Date, endDate?: Date) {
@@ -229,25 +259,114 @@ export async function getTimeSeriesByCompany(companyId: number, startDate?: Date
   return await query;
 }
 
-export async function getTimeSeriesByDate(date: Date) {
+export async function getTimeSeriesByUpload(uploadId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  return await db.select().from(timeSeries).where(eq(timeSeries.date, date));
+  return await db.select().from(timeSeries).where(eq(timeSeries.uploadId, uploadId));
 }
 
-export async function getTimeSeriesDateRange() {
+export async function getTimeSeriesByDate(uploadId: number, date: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(timeSeries)
+    .where(and(eq(timeSeries.uploadId, uploadId), eq(timeSeries.date, date)));
+}
+
+export async function getTimeSeriesDateRange(uploadId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
   const result = await db.select({
     minDate: sql<Date>`MIN(${timeSeries.date})`,
     maxDate: sql<Date>`MAX(${timeSeries.date})`,
-  }).from(timeSeries);
+  }).from(timeSeries).where(eq(timeSeries.uploadId, uploadId));
 
   return result[0];
 }
 
+// ============================================================================
+// Target and SDG Score Snapshots
+// ============================================================================
+
+/**
+ * Replace an upload's dated targets and SDG scores
+ */
+export async function replaceCompanySnapshots(
+  uploadId: number,
+  targets: InsertEmissionTargetSnapshot[],
+  scores: InsertSdgAlignmentSnapshot[]
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(emissionTargetSnapshots).where(eq(emissionTargetSnapshots.uploadId, uploadId));
+  await db.delete(sdgAlignmentSnapshots).where(eq(sdgAlignmentSnapshots.uploadId, uploadId));
+
+  const BATCH_SIZE = 1000;
+  for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+    await db.insert(emissionTargetSnapshots).values(targets.slice(i, i + BATCH_SIZE));
+  }
+  for (let i = 0; i < scores.length; i += BATCH_SIZE) {
+    await db.insert(sdgAlignmentSnapshots).values(scores.slice(i, i + BATCH_SIZE));
+  }
+}
+
+export async function getCompanySnapshotsByUpload(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [targets, scores] = await Promise.all([
+    db.select().from(emissionTargetSnapshots).where(eq(emissionTargetSnapshots.uploadId, uploadId)),
+    db.select().from(sdgAlignmentSnapshots).where(eq(sdgAlignmentSnapshots.uploadId, uploadId)),
+  ]);
+  return { targets, scores };
+}
+
+// ============================================================================
+// Company Metrics
+// ============================================================================
+
+/**
+ * Replace an upload's GreenRev metrics
+ */
+export async function replaceCompanyMetrics(uploadId: number, metrics: InsertCompanyMetric[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(companyMetrics).where(eq(companyMetrics.uploadId, uploadId));
+
+  const BATCH_SIZE = 1000;
+  for (let i = 0; i < metrics.length; i += BATCH_SIZE) {
+    await db.insert(companyMetrics).values(metrics.slice(i, i + BATCH_SIZE));
+  }
+}
+
+export async function getCompanyMetricsByUpload(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(companyMetrics).where(eq(companyMetrics.uploadId, uploadId));
+}
+
+/**
+ * Metric keys in an upload with the number of companies that have each
+ */
+export async function getCompanyMetricKeys(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select({
+    metricKey: companyMetrics.metricKey,
+    companyCount: sql<number>`COUNT(DISTINCT ${companyMetrics.companyId})`,
+  })
+    .from(companyMetrics)
+    .where(eq(companyMetrics.uploadId, uploadId))
+    .groupBy(companyMetrics.metricKey)
+    .orderBy(companyMetrics.metricKey);
+}
+
 // ============================================================================
 // Data Upload Management
 // ============================================================================
@@ -277,6 +396,16 @@ export async function updateDataUploadStatus(
     .where(eq(dataUploads.id, uploadId));
 }
 
+export async function updateDataUploadProgress(
+  uploadId: number,
+  progress: Pick<InsertDataUpload, "progressStage" | "progressRowsDone" | "progressRowsTotal">
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(dataUploads).set(progress).where(eq(dataUploads.id, uploadId));
+}
+
 export async function getDataUploadsByUser(userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -292,6 +421,192 @@ export async function getDataUploadById(uploadId: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+// ============================================================================
+// Upload Job Management
+// ============================================================================
+
+export async function createUploadJob(job: InsertUploadJob) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(uploadJobs).values(job);
+  return result[0].insertId;
+}
+
+export async function getUploadJobByUploadId(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(uploadJobs).where(eq(uploadJobs.uploadId, uploadId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getNextRunnableUploadJob(now: Date = new Date()) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(uploadJobs)
+    .where(and(eq(uploadJobs.status, "pending"), lte(uploadJobs.nextRunAt, now)))
+    .orderBy(uploadJobs.nextRunAt)
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Atomically move a pending job to running. Returns false if another worker got there first.
+ */
+export async function claimUploadJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(uploadJobs)
+    .set({ status: "running", startedAt: new Date(), attempts: sql`${uploadJobs.attempts} + 1` })
+    .where(and(eq(uploadJobs.id, jobId), eq(uploadJobs.status, "pending")));
+  return result[0].affectedRows > 0;
+}
+
+export async function updateUploadJob(jobId: number, updates: Partial<InsertUploadJob>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(uploadJobs).set(updates).where(eq(uploadJobs.id, jobId));
+}
+
+/**
+ * Return jobs that were running when the process stopped to the queue
+ */
+export async function requeueRunningUploadJobs() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(uploadJobs)
+    .set({ status: "pending", nextRunAt: new Date() })
+    .where(eq(uploadJobs.status, "running"));
+  return result[0].affectedRows;
+}
+
+export async function getCompanyTerciles(
+  uploadId: number,
+  method: "absolute" | "sector_relative",
+  includeScope3: boolean,
+  includeEstimates: boolean,
+  intensityDenominator: IntensityDenominator = "market_cap"
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(companyTerciles)
+    .where(and(
+      eq(companyTerciles.uploadId, uploadId),
+      eq(companyTerciles.method, method),
+      eq(companyTerciles.includeScope3, includeScope3 ? 1 : 0),
+      eq(companyTerciles.includeEstimates, includeEstimates ? 1 : 0),
+      eq(companyTerciles.intensityDenominator, intensityDenominator)
+    ));
+}
+
+export async function deleteCompanyTercilesByUpload(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(companyTerciles).where(eq(companyTerciles.uploadId, uploadId));
+}
+
+export async function deleteCarbonPriceCacheByUpload(uploadId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(carbonPriceCache).where(eq(carbonPriceCache.uploadId, uploadId));
+}
+
+// ============================================================================
+// Column Mapping Profiles
+// ============================================================================
+
+export async function getColumnMappingProfiles() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(columnMappingProfiles).orderBy(columnMappingProfiles.name);
+}
+
+export async function getColumnMappingProfileById(profileId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(columnMappingProfiles).where(eq(columnMappingProfiles.id, profileId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createColumnMappingProfile(profile: InsertColumnMappingProfile) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(columnMappingProfiles).values(profile);
+  return result[0].insertId;
+}
+
+export async function updateColumnMappingProfile(
+  profileId: number,
+  updates: Partial<Pick<InsertColumnMappingProfile, "name" | "config">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(columnMappingProfiles).set(updates).where(eq(columnMappingProfiles.id, profileId));
+}
+
+export async function deleteColumnMappingProfile(profileId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(columnMappingProfiles).where(eq(columnMappingProfiles.id, profileId));
+}
+
+// ============================================================================
+// Decarbonization Scenarios
+// ============================================================================
+
+export async function getDecarbonizationScenarios() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(decarbonizationScenarios).orderBy(decarbonizationScenarios.name);
+}
+
+export async function getDecarbonizationScenarioById(scenarioId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(decarbonizationScenarios).where(eq(decarbonizationScenarios.id, scenarioId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createDecarbonizationScenario(scenario: InsertDecarbonizationScenario) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(decarbonizationScenarios).values(scenario);
+  return result[0].insertId;
+}
+
+export async function updateDecarbonizationScenario(
+  scenarioId: number,
+  updates: Partial<Pick<InsertDecarbonizationScenario, "name" | "description" | "curve">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(decarbonizationScenarios).set(updates).where(eq(decarbonizationScenarios.id, scenarioId));
+}
+
+export async function deleteDecarbonizationScenario(scenarioId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(decarbonizationScenarios).where(eq(decarbonizationScenarios.id, scenarioId));
+}
+
 // ============================================================================
 // Analysis Results Management
 // ============================================================================
@@ -305,7 +620,7 @@ export async function insertAnalysisResult(result: InsertAnalysisResult) {
 
 export async function getAnalysisResults(
   uploadId: number,
-  investmentType?: "low_carbon" | "decarbonizing" | "solutions",
+  investmentType?: "low_carbon" | "decarbonizing" | "solutions" | "credible_decarbonizers",
   startDate?: Date,
   endDate?: Date,
   geography?: string,
@@ -335,6 +650,23 @@ export async function getAnalysisResults(
   return await db.select().from(analysisResults).where(and(...conditions));
 }
 
+export async function getAnalysisResultsByScenario(scenarioId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(analysisResults).where(eq(analysisResults.scenarioId, scenarioId));
+}
+
+export async function updateAnalysisResultDecarbRates(
+  resultId: number,
+  updates: Pick<InsertAnalysisResult, "scenarioId" | "impliedDecarbRate" | "impliedDecarbRateLower" | "impliedDecarbRateUpper">
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(analysisResults).set(updates).where(eq(analysisResults.id, resultId));
+}
+
 export async function deleteAnalysisResultsByUpload(uploadId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
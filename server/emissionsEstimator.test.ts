@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { ProcessedCompany, ProcessedData, ProcessedTimeSeries } from "./dataProcessor";
+import { estimateMissingEmissions, median, selectEmissions } from "./emissionsEstimator";
+
+function company(isin: string, sector: string | null): ProcessedCompany {
+  return {
+    isin,
+    name: isin,
+    geography: null,
+    sector,
+    industry: null,
+    sdgAlignmentScore: null,
+    emissionTarget2050: null,
+    fiscalYearEndMonth: null,
+  };
+}
+
+function row(companyId: number, date: string, scope1: number | null, marketCap: number | null = 100): ProcessedTimeSeries {
+  return {
+    companyId,
+    date: new Date(date),
+    totalReturnIndex: null,
+    marketCap,
+    priceEarnings: null,
+    scope1Emissions: scope1,
+    scope2Emissions: null,
+    scope3Emissions: null,
+    netProfit: null,
+  };
+}
+
+function buildData(companies: ProcessedCompany[], timeSeries: ProcessedTimeSeries[]): ProcessedData {
+  return {
+    companies,
+    timeSeries,
+    dateRange: { min: new Date(), max: new Date() },
+    stats: {
+      totalCompanies: companies.length,
+      totalTimePeriods: 0,
+      companiesWithEmissions: 0,
+      companiesWithTargets: 0,
+      companiesWithSDGScores: 0,
+      fiscalYearsByScope: { scope1: [], scope2: [], scope3: [] },
+    },
+  };
+}
+
+const ALL_OFF = { interpolate: false, carryForward: false, maxAgeMonths: 24, sectorMedian: false };
+
+describe("Emissions Estimator", () => {
+  describe("median", () => {
+    it("should handle odd, even and empty inputs", () => {
+      expect(median([3, 1, 2])).toBe(2);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+      expect(median([])).toBeNull();
+    });
+  });
+
+  describe("estimateMissingEmissions", () => {
+    it("should only flag reported values when every method is off", () => {
+      const data = buildData([company("A", "Energy")], [row(1, "2020-01-31", 10), row(1, "2020-02-29", null)]);
+      const counts = estimateMissingEmissions(data, ALL_OFF);
+
+      expect(counts).toEqual({ carried_forward: 0, interpolated: 0, sector_median: 0 });
+      expect(data.timeSeries[0].scope1Source).toBe("reported");
+      expect(data.timeSeries[1].scope1Source).toBeNull();
+      expect(data.timeSeries[1].scope1Emissions).toBeNull();
+    });
+
+    it("should interpolate linearly in time between reported values", () => {
+      const data = buildData([company("A", "Energy")], [
+        row(1, "2020-01-01", 10),
+        row(1, "2020-01-11", null),
+        row(1, "2020-01-21", 30),
+      ]);
+      estimateMissingEmissions(data, { ...ALL_OFF, interpolate: true });
+
+      expect(data.timeSeries[1].scope1Emissions).toBeCloseTo(20);
+      expect(data.timeSeries[1].scope1Source).toBe("interpolated");
+    });
+
+    it("should carry forward the last reported value up to the maximum age", () => {
+      const data = buildData([company("A", "Energy")], [
+        row(1, "2020-01-31", 10),
+        row(1, "2020-06-30", null),
+        row(1, "2021-06-30", null),
+      ]);
+      const counts = estimateMissingEmissions(data, { ...ALL_OFF, carryForward: true, maxAgeMonths: 12 });
+
+      expect(data.timeSeries[1].scope1Emissions).toBe(10);
+      expect(data.timeSeries[1].scope1Source).toBe("carried_forward");
+      expect(data.timeSeries[2].scope1Emissions).toBeNull();
+      expect(counts.carried_forward).toBe(1);
+    });
+
+    it("should prefer interpolation over carry-forward when both apply", () => {
+      const data = buildData([company("A", "Energy")], [
+        row(1, "2020-01-01", 10),
+        row(1, "2020-01-11", null),
+        row(1, "2020-01-21", 30),
+        row(1, "2020-01-31", null),
+      ]);
+      estimateMissingEmissions(data, { ...ALL_OFF, interpolate: true, carryForward: true });
+
+      expect(data.timeSeries[1].scope1Source).toBe("interpolated");
+      expect(data.timeSeries[3].scope1Source).toBe("carried_forward");
+      expect(data.timeSeries[3].scope1Emissions).toBe(30);
+    });
+
+    it("should fill remaining gaps from the sector-median reported intensity", () => {
+      const data = buildData(
+        [company("A", "Energy"), company("B", "Energy"), company("C", "Energy"), company("D", "Tech")],
+        [
+          row(1, "2020-01-31", 10, 100), // 0.1
+          row(2, "2020-01-31", 60, 200), // 0.3
+          row(3, "2020-01-31", null, 50),
+          row(4, "2020-01-31", null, 50), // no reported Tech peers
+        ]
+      );
+      const counts = estimateMissingEmissions(data, { ...ALL_OFF, sectorMedian: true });
+
+      expect(data.timeSeries[2].scope1Emissions).toBeCloseTo(0.2 * 50);
+      expect(data.timeSeries[2].scope1Source).toBe("sector_median");
+      expect(data.timeSeries[3].scope1Emissions).toBeNull();
+      expect(counts.sector_median).toBe(1);
+    });
+  });
+
+  describe("selectEmissions", () => {
+    const ts = {
+      scope1Emissions: 10,
+      scope2Emissions: 5,
+      scope3Emissions: 20,
+      scope1Source: "reported" as const,
+      scope2Source: "carried_forward" as const,
+      scope3Source: null,
+    };
+
+    it("should keep estimated values when estimates are included", () => {
+      expect(selectEmissions(ts, true)).toEqual({ scope1: 10, scope2: 5, scope3: 20 });
+    });
+
+    it("should null estimated values when estimates are excluded", () => {
+      expect(selectEmissions(ts, false)).toEqual({ scope1: 10, scope2: null, scope3: 20 });
+    });
+  });
+});
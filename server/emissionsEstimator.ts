@@ -0,0 +1,183 @@
+import type { ProcessedData, ProcessedTimeSeries } from './dataProcessor';
+import { DEFAULT_ESTIMATION_OPTIONS, type EstimationOptions } from '../shared/estimation';
+
+/**
+ * Gap-filling for missing S1/S2/S3 values. Runs on parsed data before insert,
+ * so it applies to workbook and long-format uploads alike. Every emissions
+ * value is stored with a provenance flag so analyses can drop estimates.
+ */
+
+export const EMISSIONS_SOURCES = ['reported', 'carried_forward', 'interpolated', 'sector_median'] as const;
+export type EmissionsSource = (typeof EMISSIONS_SOURCES)[number];
+export type EstimatedSource = Exclude<EmissionsSource, 'reported'>;
+
+export type EstimatedValueCounts = Record<EstimatedSource, number>;
+
+const SCOPE_FIELDS = [
+  { value: 'scope1Emissions', source: 'scope1Source' },
+  { value: 'scope2Emissions', source: 'scope2Source' },
+  { value: 'scope3Emissions', source: 'scope3Source' },
+] as const;
+
+type ScopeField = (typeof SCOPE_FIELDS)[number];
+
+const AVG_MS_PER_MONTH = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Fill one scope along a single company's date-sorted rows. Only reported
+ * values are used as anchors, never earlier estimates.
+ *
+ * Interpolation uses the next reported value, which may not have been public
+ * on the row's date; leave it off for look-ahead-free backtests.
+ */
+function fillCompanyScope(
+  rows: ProcessedTimeSeries[],
+  field: ScopeField,
+  options: EstimationOptions,
+  counts: EstimatedValueCounts
+): void {
+  const reported = rows
+    .map((row, index) => ({ index, time: row.date.getTime(), value: row[field.value] ?? null }))
+    .filter((r): r is { index: number; time: number; value: number } => r.value !== null);
+  if (reported.length === 0) return;
+
+  let prev = -1; // position in `reported` of the last anchor before the current row
+  for (let i = 0; i < rows.length; i++) {
+    if (prev + 1 < reported.length && reported[prev + 1].index === i) {
+      prev++;
+      continue;
+    }
+
+    const row = rows[i];
+    const before = prev >= 0 ? reported[prev] : null;
+    const after = prev + 1 < reported.length ? reported[prev + 1] : null;
+    const time = row.date.getTime();
+
+    if (options.interpolate && before && after) {
+      const weight = (time - before.time) / (after.time - before.time);
+      row[field.value] = before.value + (after.value - before.value) * weight;
+      row[field.source] = 'interpolated';
+      counts.interpolated++;
+    } else if (options.carryForward && before && (time - before.time) / AVG_MS_PER_MONTH <= options.maxAgeMonths) {
+      row[field.value] = before.value;
+      row[field.source] = 'carried_forward';
+      counts.carried_forward++;
+    }
+  }
+}
+
+/**
+ * Fill remaining gaps with the sector-median intensity (reported values only)
+ * on the same date, scaled by the company's market cap
+ */
+function fillSectorMedian(
+  data: ProcessedData,
+  field: ScopeField,
+  counts: EstimatedValueCounts
+): void {
+  const sectorByCompanyId = new Map(data.companies.map((c, index) => [index + 1, c.sector ?? null]));
+
+  const rowsByDate = new Map<number, ProcessedTimeSeries[]>();
+  for (const row of data.timeSeries) {
+    const key = row.date.getTime();
+    if (!rowsByDate.has(key)) rowsByDate.set(key, []);
+    rowsByDate.get(key)!.push(row);
+  }
+
+  for (const rows of Array.from(rowsByDate.values())) {
+    const intensitiesBySector = new Map<string, number[]>();
+    for (const row of rows) {
+      const sector = sectorByCompanyId.get(row.companyId);
+      const value = row[field.value];
+      if (!sector || row[field.source] !== 'reported' || value == null || !row.marketCap || row.marketCap <= 0) continue;
+      if (!intensitiesBySector.has(sector)) intensitiesBySector.set(sector, []);
+      intensitiesBySector.get(sector)!.push(value / row.marketCap);
+    }
+
+    const medians = new Map<string, number | null>();
+    for (const row of rows) {
+      if (row[field.value] != null || !row.marketCap || row.marketCap <= 0) continue;
+      const sector = sectorByCompanyId.get(row.companyId);
+      if (!sector) continue;
+
+      if (!medians.has(sector)) medians.set(sector, median(intensitiesBySector.get(sector) ?? []));
+      const sectorMedian = medians.get(sector);
+      if (sectorMedian == null) continue;
+
+      row[field.value] = sectorMedian * row.marketCap;
+      row[field.source] = 'sector_median';
+      counts.sector_median++;
+    }
+  }
+}
+
+/**
+ * Mark reported values and fill gaps in place using the enabled methods, in
+ * order: interpolation, carry-forward, then sector median for what is left.
+ */
+export function estimateMissingEmissions(
+  data: ProcessedData,
+  options: EstimationOptions = DEFAULT_ESTIMATION_OPTIONS
+): EstimatedValueCounts {
+  const counts: EstimatedValueCounts = { carried_forward: 0, interpolated: 0, sector_median: 0 };
+
+  for (const row of data.timeSeries) {
+    for (const field of SCOPE_FIELDS) {
+      row[field.source] = row[field.value] != null ? 'reported' : null;
+    }
+  }
+
+  if (options.interpolate || options.carryForward) {
+    const rowsByCompany = new Map<number, ProcessedTimeSeries[]>();
+    for (const row of data.timeSeries) {
+      if (!rowsByCompany.has(row.companyId)) rowsByCompany.set(row.companyId, []);
+      rowsByCompany.get(row.companyId)!.push(row);
+    }
+
+    for (const rows of Array.from(rowsByCompany.values())) {
+      rows.sort((a, b) => a.date.getTime() - b.date.getTime());
+      for (const field of SCOPE_FIELDS) {
+        fillCompanyScope(rows, field, options, counts);
+      }
+    }
+  }
+
+  if (options.sectorMedian) {
+    for (const field of SCOPE_FIELDS) {
+      fillSectorMedian(data, field, counts);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * A row's emissions as seen by an analysis; estimated values become null when excluded
+ */
+export function selectEmissions(
+  row: {
+    scope1Emissions: number | null;
+    scope2Emissions: number | null;
+    scope3Emissions: number | null;
+    scope1Source?: EmissionsSource | null;
+    scope2Source?: EmissionsSource | null;
+    scope3Source?: EmissionsSource | null;
+  },
+  includeEstimates: boolean
+): { scope1: number | null; scope2: number | null; scope3: number | null } {
+  const pick = (value: number | null, source: EmissionsSource | null | undefined) =>
+    includeEstimates || source == null || source === 'reported' ? value : null;
+
+  return {
+    scope1: pick(row.scope1Emissions, row.scope1Source),
+    scope2: pick(row.scope2Emissions, row.scope2Source),
+    scope3: pick(row.scope3Emissions, row.scope3Source),
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectFileFormat,
+  parseCsvFile,
+  processLongFormatData,
+  resolveLongFormatColumns,
+} from "./longFormatProcessor";
+
+describe("Long-Format Processor", () => {
+  describe("detectFileFormat", () => {
+    it("should detect the format from the file extension", () => {
+      expect(detectFileFormat("data.CSV")).toBe("csv");
+      expect(detectFileFormat("universe.parquet")).toBe("parquet");
+      expect(detectFileFormat("Datastream.xlsx")).toBe("excel");
+    });
+  });
+
+  describe("resolveLongFormatColumns", () => {
+    it("should match headers case-insensitively and through aliases", () => {
+      const columns = resolveLongFormatColumns(["ISIN", "Date", "Market Cap", "PE", "S1", "Scope 2 Emissions"]);
+      expect(columns.isin).toBe("ISIN");
+      expect(columns.date).toBe("Date");
+      expect(columns.marketCap).toBe("Market Cap");
+      expect(columns.priceEarnings).toBe("PE");
+      expect(columns.scope1Emissions).toBe("S1");
+      expect(columns.scope2Emissions).toBe("Scope 2 Emissions");
+      expect(columns.netProfit).toBeUndefined();
+    });
+  });
+
+  describe("processLongFormatData", () => {
+    const csv = [
+      "isin,date,name,sector,market_cap,price_earnings,net_profit,scope1_emissions,scope2_emissions,scope3_emissions",
+      "US0378331005,2020-01-31,APPLE,Technology,1000,25,40,10,5,NA",
+      "US0378331005,2020-02-29,APPLE,Technology,1100,26,42,11,5,",
+      "GB0002634946,2020-01-31,BAE SYSTEMS,,500,12,30,,,",
+      "GB0002634946,2020-01-31,BAE SYSTEMS,Industrials,510,13,31,,,",
+      ",2020-01-31,NO ISIN,,1,1,1,1,1,1",
+      "US0378331005,not a date,APPLE,,1,1,1,1,1,1",
+    ].join("\n");
+
+    const data = processLongFormatData(parseCsvFile(Buffer.from(csv)));
+
+    it("should build one company per ISIN with the first non-empty attributes", () => {
+      expect(data.companies.map(c => c.isin)).toEqual(["US0378331005", "GB0002634946"]);
+      expect(data.companies[0].name).toBe("APPLE");
+      expect(data.companies[1].sector).toBe("Industrials");
+    });
+
+    it("should keep the last row for a repeated ISIN and date", () => {
+      const bae = data.timeSeries.filter(ts => ts.companyId === 2);
+      expect(bae).toHaveLength(1);
+      expect(bae[0].marketCap).toBe(510);
+    });
+
+    it("should skip rows without an ISIN or a parseable date", () => {
+      expect(data.timeSeries).toHaveLength(3);
+    });
+
+    it("should sanitize numeric placeholders", () => {
+      const first = data.timeSeries[0];
+      expect(first.priceEarnings).toBe(25);
+      expect(data.stats.fiscalYearsByScope.scope3).toEqual([]);
+    });
+
+    it("should report stats like the workbook pipeline", () => {
+      expect(data.stats.totalCompanies).toBe(2);
+      expect(data.stats.totalTimePeriods).toBe(2);
+      expect(data.stats.companiesWithEmissions).toBe(1);
+      expect(data.stats.fiscalYearsByScope).toEqual({ scope1: [2020], scope2: [2020], scope3: [] });
+    });
+
+    it("should use each date's latest published fiscal year of emissions", () => {
+      const rows = parseCsvFile(Buffer.from([
+        "isin,date,fiscal_year_end,scope1_emissions,scope2_emissions",
+        "US0378331005,2019-12-31,12,100,50",
+        "US0378331005,2020-06-30,12,,",
+        "US0378331005,2020-07-31,12,,",
+        "US0378331005,2020-12-31,12,120,",
+      ].join("\n")));
+      const { timeSeries } = processLongFormatData(rows, { publicationLagMonths: 6 });
+
+      // FY2019 ends in December 2019 and is public six months later; FY2020 is not yet
+      expect(timeSeries.map(ts => ts.scope1Emissions)).toEqual([null, null, 100, 100]);
+      expect(timeSeries.map(ts => ts.scope2Emissions)).toEqual([null, null, 50, 50]);
+    });
+
+    it("should let the fiscal year-end mapping override the file's year-ends", () => {
+      const rows = parseCsvFile(Buffer.from([
+        "isin,date,fiscal_year_end,scope1_emissions",
+        "US0378331005,2020-06-30,12,100",
+        "US0378331005,2020-07-31,12,",
+      ].join("\n")));
+
+      const unmapped = processLongFormatData(rows, { publicationLagMonths: 0 });
+      expect(unmapped.timeSeries[1].scope1Emissions).toBeNull();
+
+      const mapped = processLongFormatData(rows, {
+        publicationLagMonths: 0,
+        fiscalYearEnds: new Map([["US0378331005", 6]]),
+      });
+      expect(mapped.companies[0].fiscalYearEndMonth).toBe(6);
+      expect(mapped.timeSeries[1].scope1Emissions).toBe(100);
+    });
+
+    it("should date targets and SDG scores by row and keep the latest on the company", () => {
+      const rows = parseCsvFile(Buffer.from([
+        "isin,date,emission_target_2050,sdg_alignment_score",
+        "US0378331005,2020-01-31,,1",
+        "US0378331005,2020-02-29,-0.5,1",
+        "US0378331005,2020-03-31,-0.8,2",
+      ].join("\n")));
+      const { companies, snapshots } = processLongFormatData(rows);
+
+      expect(snapshots.emissionTarget2050.map(s => s.value)).toEqual([-0.5, -0.8]);
+      expect(snapshots.sdgAlignmentScore.map(s => s.snapshotDate.getUTCMonth())).toEqual([0, 2]);
+      expect(companies[0].emissionTarget2050).toBe(-0.8);
+      expect(companies[0].sdgAlignmentScore).toBe(2);
+    });
+
+    it("should keep SDG alignment and green revenue columns as dated metrics", () => {
+      const rows = parseCsvFile(Buffer.from([
+        "isin,date,SDG 13 Net Alignment Score,green_revenue_share",
+        "US0378331005,2020-01-31,2,0.1",
+        "US0378331005,2020-02-29,2,0.3",
+      ].join("\n")));
+      const { metrics } = processLongFormatData(rows);
+
+      expect(metrics.map(m => [m.metricKey, m.snapshotDate!.getUTCMonth(), m.value])).toEqual([
+        ["SDG_13_NET_ALIGNMENT_SCORE", 0, 2],
+        ["GREEN_REVENUE_SHARE", 0, 0.1],
+        ["GREEN_REVENUE_SHARE", 1, 0.3],
+      ]);
+    });
+
+    it("should reject files without the required columns", () => {
+      expect(() => processLongFormatData([{ isin: "US0378331005", value: 1 }])).toThrow(/"date"/);
+    });
+  });
+});
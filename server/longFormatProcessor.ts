@@ -0,0 +1,334 @@
+import * as XLSX from 'xlsx';
+import { parquetReadObjects } from 'hyparquet';
+import {
+  collapseSnapshots,
+  DEFAULT_FISCAL_YEAR_END_MONTH,
+  DEFAULT_PUBLICATION_LAG_MONTHS,
+  EMISSIONS_SCOPES,
+  findAvailableFiscalYear,
+  getMetricColumnPattern,
+  parseFiscalYearEndMonth,
+  parseSheetDate,
+  sanitizeNumeric,
+  type EmissionsAlignmentOptions,
+  type ProcessedCompany,
+  type ProcessedData,
+  type ProcessedMetric,
+  type ProcessedSnapshot,
+  type ProcessedTimeSeries,
+} from './dataProcessor';
+import type { FiscalYearsByScope } from '../shared/fiscalYears';
+
+/**
+ * Long-format ingest: one row per ISIN x date, already tidy, so the wide-sheet
+ * pivot in processClimateData is skipped entirely.
+ */
+
+export type UploadFileFormat = 'excel' | 'csv' | 'parquet';
+
+/**
+ * Canonical long-format columns. Headers are matched case-insensitively after
+ * collapsing spaces and punctuation to underscores, and may use any alias.
+ */
+const LONG_FORMAT_COLUMNS = {
+  isin: ['isin', 'issuer_isin'],
+  date: ['date', 'as_of_date'],
+  name: ['name', 'company_name'],
+  geography: ['geography', 'country'],
+  sector: ['sector'],
+  industry: ['industry'],
+  sdgAlignmentScore: ['sdg_alignment_score', 'sdg_07_net_alignment_score'],
+  emissionTarget2050: ['emission_target_2050', 'target_summary_cum_change_2050'],
+  fiscalYearEnd: ['fiscal_year_end', 'fiscal_year_end_month', 'fye'],
+  totalReturnIndex: ['total_return_index', 'total_return', 'ri'],
+  marketCap: ['market_cap', 'market_value', 'mv'],
+  priceEarnings: ['price_earnings', 'pe_ratio', 'pe'],
+  netProfit: ['net_profit', 'profit'],
+  revenue: ['revenue', 'net_sales', 'sales'],
+  evic: ['evic', 'enterprise_value'],
+  scope1Emissions: ['scope1_emissions', 'scope_1_emissions', 'scope1', 's1'],
+  scope2Emissions: ['scope2_emissions', 'scope_2_emissions', 'scope2', 's2'],
+  scope3Emissions: ['scope3_emissions', 'scope_3_emissions', 'scope3', 's3'],
+} as const;
+
+type LongFormatField = keyof typeof LONG_FORMAT_COLUMNS;
+
+type EmissionsField = 'scope1Emissions' | 'scope2Emissions' | 'scope3Emissions';
+
+/** Latest reported value of each scope within one fiscal year */
+type ReportedEmissions = Partial<Record<EmissionsField, { date: number; value: number }>>;
+
+const REQUIRED_COLUMNS: LongFormatField[] = ['isin', 'date'];
+
+/**
+ * Pick the parser for an uploaded file from its extension
+ */
+export function detectFileFormat(filename: string): UploadFileFormat {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.parquet')) return 'parquet';
+  return 'excel';
+}
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Map each canonical field to the header that supplies it in this file
+ */
+export function resolveLongFormatColumns(headers: string[]): Partial<Record<LongFormatField, string>> {
+  const byNormalized = new Map(headers.map(h => [normalizeHeader(h), h]));
+  const resolved: Partial<Record<LongFormatField, string>> = {};
+
+  for (const [field, aliases] of Object.entries(LONG_FORMAT_COLUMNS) as [LongFormatField, readonly string[]][]) {
+    const alias = aliases.find(a => byNormalized.has(a));
+    if (alias) resolved[field] = byNormalized.get(alias);
+  }
+
+  return resolved;
+}
+
+/**
+ * Metric columns (SDG alignment scores, green revenue shares) keyed by their
+ * normalized, upper-cased header, e.g. "SDG_13_NET_ALIGNMENT_SCORE"
+ */
+export function resolveMetricColumns(headers: string[]): Map<string, string> {
+  const pattern = getMetricColumnPattern();
+  const metricColumns = new Map<string, string>();
+  for (const header of headers) {
+    const metricKey = normalizeHeader(header).toUpperCase();
+    if (pattern.test(metricKey)) metricColumns.set(metricKey, header);
+  }
+  return metricColumns;
+}
+
+/**
+ * Parquet INT64 columns decode to bigint; everything else goes through sanitizeNumeric
+ */
+function toNumeric(value: any): number | null {
+  if (typeof value === 'bigint') return Number(value);
+  return sanitizeNumeric(value);
+}
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  return parseSheetDate(value);
+}
+
+function toText(value: any): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+/**
+ * Read a long-format CSV. Values are kept as text so ISINs and dates are not
+ * reinterpreted by the spreadsheet parser.
+ */
+export function parseCsvFile(buffer: Buffer): any[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json(sheet, { defval: null });
+}
+
+/**
+ * Read all rows of a long-format Parquet file
+ */
+export async function parseParquetFile(buffer: Buffer): Promise<any[]> {
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  return await parquetReadObjects({ file });
+}
+
+/**
+ * Read an ISIN -> fiscal year-end month mapping file (columns isin and
+ * fiscal_year_end, or any of their aliases)
+ */
+export function parseFiscalYearEndMapping(rows: any[]): Map<string, number> {
+  const columns = resolveLongFormatColumns(Object.keys(rows[0] || {}));
+  if (!columns.isin || !columns.fiscalYearEnd) {
+    throw new Error('Fiscal year-end mapping file needs "isin" and "fiscal_year_end" columns');
+  }
+
+  const fiscalYearEnds = new Map<string, number>();
+  for (const row of rows) {
+    const isin = toText(row[columns.isin]);
+    const month = parseFiscalYearEndMonth(row[columns.fiscalYearEnd]);
+    if (isin && month !== null) fiscalYearEnds.set(isin, month);
+  }
+  return fiscalYearEnds;
+}
+
+/**
+ * Transform long-format rows into the same shape processClimateData produces.
+ * Company attributes are taken from the first row of each ISIN that has them,
+ * except targets, SDG scores and metrics: every row's value is a snapshot at
+ * its date and the company keeps the latest target and score. A repeated
+ * ISIN x date keeps the last row.
+ *
+ * Emissions on a row dated in calendar year N are fiscal year N's figures.
+ * They are aligned like the workbook pipeline: each date takes the latest
+ * fiscal year whose year-end plus the publication lag has passed.
+ */
+export function processLongFormatData(
+  rows: any[],
+  alignment: EmissionsAlignmentOptions = { publicationLagMonths: DEFAULT_PUBLICATION_LAG_MONTHS }
+): ProcessedData {
+  const { publicationLagMonths, fiscalYearEnds } = alignment;
+  const columns = resolveLongFormatColumns(Object.keys(rows[0] || {}));
+  const metricColumns = resolveMetricColumns(Object.keys(rows[0] || {}));
+  for (const field of REQUIRED_COLUMNS) {
+    if (!columns[field]) {
+      throw new Error(`Required column "${field}" not found in long-format file`);
+    }
+  }
+
+  const read = (row: any, field: LongFormatField) => {
+    const column = columns[field];
+    return column ? row[column] : undefined;
+  };
+
+  const companyByIsin = new Map<string, ProcessedCompany>();
+  const isinToCompanyId = new Map<string, number>();
+  const timeSeriesByKey = new Map<string, ProcessedTimeSeries>();
+  const dates = new Set<number>();
+  const isinsWithEmissions = new Set<string>();
+  const targetSnapshots: ProcessedSnapshot[] = [];
+  const sdgSnapshots: ProcessedSnapshot[] = [];
+  const metricSnapshots = new Map<string, ProcessedSnapshot[]>(Array.from(metricColumns.keys(), key => [key, []]));
+  const reportedByIsin = new Map<string, Map<number, ReportedEmissions>>();
+  // Rows are dated observations, so the calendar year stands in for the fiscal year
+  const yearsByScope = { scope1: new Set<number>(), scope2: new Set<number>(), scope3: new Set<number>() };
+
+  for (const row of rows) {
+    const isin = toText(read(row, 'isin'));
+    const date = toDate(read(row, 'date'));
+    if (!isin || !date) continue;
+
+    let company = companyByIsin.get(isin);
+    if (!company) {
+      company = {
+        isin,
+        name: isin,
+        geography: null,
+        sector: null,
+        industry: null,
+        sdgAlignmentScore: null,
+        emissionTarget2050: null,
+        fiscalYearEndMonth: null,
+      };
+      companyByIsin.set(isin, company);
+      isinToCompanyId.set(isin, companyByIsin.size); // Placeholder IDs, as in processClimateData
+    }
+    if (company.name === isin) company.name = toText(read(row, 'name')) ?? isin;
+    company.geography ??= toText(read(row, 'geography'));
+    company.sector ??= toText(read(row, 'sector'));
+    company.industry ??= toText(read(row, 'industry'));
+    const sdgAlignmentScore = toNumeric(read(row, 'sdgAlignmentScore'));
+    if (sdgAlignmentScore !== null) sdgSnapshots.push({ isin, snapshotDate: date, value: sdgAlignmentScore });
+    const emissionTarget2050 = toNumeric(read(row, 'emissionTarget2050'));
+    if (emissionTarget2050 !== null) targetSnapshots.push({ isin, snapshotDate: date, value: emissionTarget2050 });
+    metricColumns.forEach((column, metricKey) => {
+      const value = toNumeric(row[column]);
+      if (value !== null) metricSnapshots.get(metricKey)!.push({ isin, snapshotDate: date, value });
+    });
+    company.fiscalYearEndMonth ??= parseFiscalYearEndMonth(read(row, 'fiscalYearEnd'));
+
+    const ts: ProcessedTimeSeries = {
+      companyId: isinToCompanyId.get(isin)!,
+      date,
+      totalReturnIndex: toNumeric(read(row, 'totalReturnIndex')),
+      marketCap: toNumeric(read(row, 'marketCap')),
+      priceEarnings: toNumeric(read(row, 'priceEarnings')),
+      scope1Emissions: toNumeric(read(row, 'scope1Emissions')),
+      scope2Emissions: toNumeric(read(row, 'scope2Emissions')),
+      scope3Emissions: toNumeric(read(row, 'scope3Emissions')),
+      netProfit: toNumeric(read(row, 'netProfit')),
+      revenue: toNumeric(read(row, 'revenue')),
+      evic: toNumeric(read(row, 'evic')),
+    };
+    for (const scope of EMISSIONS_SCOPES) {
+      const field: EmissionsField = `scope${scope}Emissions`;
+      const value = ts[field];
+      if (value == null) continue;
+      isinsWithEmissions.add(isin);
+      yearsByScope[`scope${scope}`].add(date.getFullYear());
+
+      let reportedByYear = reportedByIsin.get(isin);
+      if (!reportedByYear) reportedByIsin.set(isin, reportedByYear = new Map());
+      let reported = reportedByYear.get(date.getFullYear());
+      if (!reported) reportedByYear.set(date.getFullYear(), reported = {});
+      if (!reported[field] || reported[field].date <= date.getTime()) {
+        reported[field] = { date: date.getTime(), value };
+      }
+    }
+
+    timeSeriesByKey.set(`${isin}|${date.getTime()}`, ts);
+    dates.add(date.getTime());
+  }
+
+  if (fiscalYearEnds) {
+    companyByIsin.forEach((company, isin) => {
+      company.fiscalYearEndMonth = fiscalYearEnds.get(isin) ?? company.fiscalYearEndMonth;
+    });
+  }
+
+  // Replace each row's own emissions with the latest fiscal year already published
+  const isinByCompanyId = new Map(Array.from(isinToCompanyId, ([isin, companyId]) => [companyId, isin]));
+  timeSeriesByKey.forEach(ts => {
+    const isin = isinByCompanyId.get(ts.companyId)!;
+    const fy = findAvailableFiscalYear(
+      ts.date,
+      companyByIsin.get(isin)!.fiscalYearEndMonth ?? DEFAULT_FISCAL_YEAR_END_MONTH,
+      publicationLagMonths
+    );
+    const reported = reportedByIsin.get(isin)?.get(fy);
+    ts.scope1Emissions = reported?.scope1Emissions?.value ?? null;
+    ts.scope2Emissions = reported?.scope2Emissions?.value ?? null;
+    ts.scope3Emissions = reported?.scope3Emissions?.value ?? null;
+  });
+
+  const snapshots = {
+    emissionTarget2050: collapseSnapshots(targetSnapshots),
+    sdgAlignmentScore: collapseSnapshots(sdgSnapshots),
+  };
+  for (const field of ['emissionTarget2050', 'sdgAlignmentScore'] as const) {
+    for (const snapshot of snapshots[field]) companyByIsin.get(snapshot.isin)![field] = snapshot.value;
+  }
+
+  const metrics: ProcessedMetric[] = [];
+  metricSnapshots.forEach((dated, metricKey) => {
+    for (const { isin, snapshotDate, value } of collapseSnapshots(dated)) {
+      metrics.push({ isin, metricKey, snapshotDate, value });
+    }
+  });
+
+  const companies = Array.from(companyByIsin.values());
+  const sortedDates = Array.from(dates).sort((a, b) => a - b);
+  const sortedYears = (years: Set<number>) => Array.from(years).sort((a, b) => a - b);
+  const fiscalYearsByScope: FiscalYearsByScope = {
+    scope1: sortedYears(yearsByScope.scope1),
+    scope2: sortedYears(yearsByScope.scope2),
+    scope3: sortedYears(yearsByScope.scope3),
+  };
+
+  return {
+    companies,
+    timeSeries: Array.from(timeSeriesByKey.values()),
+    snapshots,
+    metrics,
+    dateRange: {
+      min: sortedDates.length > 0 ? new Date(sortedDates[0]) : new Date(),
+      max: sortedDates.length > 0 ? new Date(sortedDates[sortedDates.length - 1]) : new Date(),
+    },
+    stats: {
+      totalCompanies: companies.length,
+      totalTimePeriods: dates.size,
+      companiesWithEmissions: isinsWithEmissions.size,
+      companiesWithTargets: companies.filter(c => c.emissionTarget2050 !== null).length,
+      companiesWithSDGScores: companies.filter(c => c.sdgAlignmentScore !== null).length,
+      fiscalYearsByScope,
+    },
+  };
+}
@@ -3,12 +3,22 @@ import {
   calculateCarbonIntensity,
   calculateCarbonRiskDiscount,
   calculateImpliedCarbonPriceDCF,
+  calculateDcfSensitivities,
+  dcfCostFactor,
   calculateImpliedDecarbRate,
   classifyCompaniesSectorRelative,
+  estimateRegressionCarbonPrice,
+  recalculateDecarbRates,
+  weightedPortfolioAverages,
   mapGeographyToRegion,
+  runFullAnalysis,
+  MIN_SLICE_SAMPLE,
+  getPortfolioMetricsExclusion,
   type CompanyWithTimeSeries,
   type AnalysisParameters,
+  type RegressionRow,
 } from "./portfolioAnalyzerV2";
+import { DEFAULT_DCF_PARAMETERS } from "@shared/dcf";
 import type { Company, TimeSeries } from "../drizzle/schema";
 
 describe("Portfolio Analyzer V2", () => {
@@ -71,6 +81,15 @@ describe("Portfolio Analyzer V2", () => {
       expect(calculateCarbonIntensity(1000, 500, 2000, 0, false)).toBe(null);
       expect(calculateCarbonIntensity(1000, 500, 2000, null, false)).toBe(null);
     });
+
+    it("should return null when any included scope is missing", () => {
+      expect(calculateCarbonIntensity(null, null, 2000, 10_000_000, false)).toBe(null);
+      expect(calculateCarbonIntensity(1000, null, null, 10_000_000, false)).toBe(null);
+      expect(calculateCarbonIntensity(null, 500, 2000, 10_000_000, true)).toBe(null);
+      expect(calculateCarbonIntensity(1000, 500, null, 10_000_000, true)).toBe(null);
+      // Scope 3 only matters when it is included
+      expect(calculateCarbonIntensity(1000, 500, null, 10_000_000, false)).toBe(150);
+    });
   });
 
   describe("calculateCarbonRiskDiscount", () => {
@@ -113,8 +132,7 @@ describe("Portfolio Analyzer V2", () => {
       const result = calculateImpliedCarbonPriceDCF(
         { avgCarbonIntensity: 100, avgPeRatio: 22 },
         { avgCarbonIntensity: 200, avgPeRatio: 20 },
-        0.08, // 8% discount rate
-        30    // 30-year horizon
+        { discountRate: 0.08, horizon: 30 }
       );
 
       // Should produce different result than relative valuation
@@ -130,6 +148,39 @@ describe("Portfolio Analyzer V2", () => {
 
       expect(result.impliedCarbonPrice).toBe(0);
     });
+
+    it("should reduce to a constant-price annuity with default inputs", () => {
+      const annuity = (1 - Math.pow(1.08, -30)) / 0.08;
+      expect(dcfCostFactor(DEFAULT_DCF_PARAMETERS)).toBeCloseTo(annuity);
+    });
+
+    it("should solve for the starting price of a growing, delayed path", () => {
+      const climate = { avgCarbonIntensity: 100, avgPeRatio: 22 };
+      const baseline = { avgCarbonIntensity: 200, avgPeRatio: 20 };
+      const dcf = { discountRate: 0.06, horizon: 20, startDelay: 5, priceGrowthRate: 0.03, passThrough: 0.25 };
+
+      const { impliedCarbonPrice } = calculateImpliedCarbonPriceDCF(climate, baseline, dcf);
+
+      // The cost path at that starting price reproduces the valuation gap
+      let pv = 0;
+      for (let k = 1; k <= 20; k++) {
+        pv += impliedCarbonPrice * 1.03 ** (k - 1) * 0.75 * 100 / 1.06 ** (5 + k);
+      }
+      expect(pv).toBeCloseTo(0.1 * 20);
+    });
+
+    it("should report how the implied price moves with each input", () => {
+      const sensitivities = calculateDcfSensitivities(
+        { avgCarbonIntensity: 100, avgPeRatio: 22 },
+        { avgCarbonIntensity: 200, avgPeRatio: 20 }
+      );
+
+      expect(sensitivities.discountRate).toBeGreaterThan(0);
+      expect(sensitivities.startDelay).toBeGreaterThan(0);
+      expect(sensitivities.passThrough).toBeGreaterThan(0);
+      expect(sensitivities.horizon).toBeLessThan(0);
+      expect(sensitivities.priceGrowthRate).toBeLessThan(0);
+    });
   });
 
   describe("calculateImpliedDecarbRate", () => {
@@ -157,6 +208,107 @@ describe("Portfolio Analyzer V2", () => {
       const rate = calculateImpliedDecarbRate(500);
       expect(rate).toBeLessThanOrEqual(0.08); // Cap with small buffer
     });
+
+    it("should follow a custom scenario curve", () => {
+      const curve = [{ carbonPrice: 100, decarbRate: 0.05 }, { carbonPrice: 300, decarbRate: 0.09 }];
+
+      expect(calculateImpliedDecarbRate(50, curve)).toBeCloseTo(0.025);
+      expect(calculateImpliedDecarbRate(200, curve)).toBeCloseTo(0.07);
+      expect(calculateImpliedDecarbRate(1000, curve)).toBeCloseTo(0.09);
+    });
+  });
+
+  describe("recalculateDecarbRates", () => {
+    it("should recompute rates and bands from stored carbon prices", () => {
+      const curve = [{ carbonPrice: 100, decarbRate: 0.1 }];
+      const rates = recalculateDecarbRates(
+        { impliedCarbonPrice: 50, impliedCarbonPriceLower: 20, impliedCarbonPriceUpper: null },
+        curve
+      );
+
+      expect(rates.impliedDecarbRate).toBeCloseTo(0.05);
+      expect(rates.impliedDecarbRateLower).toBeCloseTo(0.02);
+      expect(rates.impliedDecarbRateUpper).toBeNull();
+    });
+  });
+
+  describe("weightedPortfolioAverages", () => {
+    // Intensity is emissions per $M of the denominator, here market cap
+    const rows = [
+      { intensity: 100, pe: 10, marketCap: 9, emissions: 900, denominator: 9_000_000 },
+      { intensity: 300, pe: 20, marketCap: 1, emissions: 300, denominator: 1_000_000 },
+    ];
+
+    it("should take simple means with equal weights", () => {
+      expect(weightedPortfolioAverages(rows, "equal")).toEqual({ avgCarbonIntensity: 200, avgPeRatio: 15 });
+    });
+
+    it("should weight by market cap and its square root", () => {
+      expect(weightedPortfolioAverages(rows, "market_cap")).toEqual({ avgCarbonIntensity: 120, avgPeRatio: 11 });
+      const sqrt = weightedPortfolioAverages(rows, "sqrt_market_cap");
+      expect(sqrt.avgCarbonIntensity).toBeCloseTo((3 * 100 + 1 * 300) / 4);
+      expect(sqrt.avgPeRatio).toBeCloseTo((3 * 10 + 1 * 20) / 4);
+    });
+
+    it("should divide total market cap by total net profit in aggregate mode", () => {
+      // P/E implies earnings of 0.9 + 0.05; reported profit is 0.5 + 0.5
+      const result = weightedPortfolioAverages(rows.map(r => ({ ...r, netProfit: 0.5 })), "aggregate");
+      expect(result!.avgPeRatio).toBeCloseTo(10);
+      expect(result!.avgCarbonIntensity).toBeCloseTo(120);
+    });
+
+    it("should divide total emissions by total revenue in aggregate mode", () => {
+      const byRevenue = [
+        { intensity: 900, pe: 10, marketCap: 9, netProfit: 0.5, emissions: 900, denominator: 1_000_000 },
+        { intensity: 100, pe: 20, marketCap: 1, netProfit: 0.5, emissions: 300, denominator: 3_000_000 },
+      ];
+      // 1200 tCO2 over $4M of revenue, not the cap-weighted mean of 820
+      expect(weightedPortfolioAverages(byRevenue, "aggregate")!.avgCarbonIntensity).toBeCloseTo(300);
+    });
+
+    it("should leave companies without profit out of aggregate P/E", () => {
+      const result = weightedPortfolioAverages([{ ...rows[0], netProfit: 0.5 }, { ...rows[1], netProfit: null }], "aggregate");
+      expect(result!.avgPeRatio).toBeCloseTo(9 / 0.5);
+    });
+
+    it("should return null when total profit is not positive", () => {
+      expect(weightedPortfolioAverages([{ ...rows[0], netProfit: 1 }, { ...rows[1], netProfit: -2 }], "aggregate")).toBeNull();
+      expect(weightedPortfolioAverages(rows, "aggregate")).toBeNull();
+    });
+  });
+
+  describe("estimateRegressionCarbonPrice", () => {
+    // E/P = 1/PE* + p * intensity / 1e6 with p = $100/tCO2 plus a sector effect
+    const rows: RegressionRow[] = Array.from({ length: 12 }, (_, i) => {
+      const sector = i % 2 === 0 ? "Energy" : "Tech";
+      const intensity = 20 + 25 * i;
+      const earningsYield = 0.05 + (sector === "Tech" ? 0.01 : 0) + 100 * intensity / 1_000_000;
+      return {
+        companyId: i + 1,
+        sector,
+        region: i % 3 === 0 ? "Europe" : "North America",
+        intensity,
+        pe: 1 / earningsYield,
+        marketCap: 1_000_000_000 * (1 + (i * 7) % 5),
+      };
+    });
+
+    it("should recover the carbon price from an earnings yield regression", () => {
+      const result = estimateRegressionCarbonPrice(rows, "earnings_yield")!;
+      expect(result.impliedCarbonPrice).toBeCloseTo(100);
+      expect(result.observations).toBe(12);
+    });
+
+    it("should give a positive price from a log P/E regression", () => {
+      const result = estimateRegressionCarbonPrice(rows, "log_pe")!;
+      expect(result.intensityCoefficient).toBeLessThan(0);
+      expect(result.impliedCarbonPrice).toBeGreaterThan(80);
+      expect(result.impliedCarbonPrice).toBeLessThan(120);
+    });
+
+    it("should return null without enough companies for the regressors", () => {
+      expect(estimateRegressionCarbonPrice(rows.slice(0, 4), "earnings_yield")).toBeNull();
+    });
   });
 
   describe("classifyCompaniesSectorRelative", () => {
@@ -230,6 +382,33 @@ describe("Portfolio Analyzer V2", () => {
       expect(result.lowCarbon).toContain(3);
     });
 
+    it("should leave out companies missing an included scope", () => {
+      const companiesWithData: CompanyWithTimeSeries[] = [];
+      
+      for (let i = 1; i <= 9; i++) {
+        companiesWithData.push({
+          company: createMockCompany(i, `US00${i}`, 'Tech', 'US', null, null),
+          timeSeries: [createMockTimeSeries(i, mockDate, i * 100, i * 50, 10_000_000, 20)],
+        });
+      }
+      // Only Scope 1 reported: counting the missing Scope 2 as zero would make it the cleanest
+      companiesWithData[0].timeSeries[0] = { ...companiesWithData[0].timeSeries[0], scope2Emissions: null };
+
+      const parameters: AnalysisParameters = {
+        includeScope3: false,
+        methodology: 'relative',
+        sectorGranularity: 'sector',
+        thresholds: {
+          tertileApproach: true,
+        },
+      };
+
+      const result = classifyCompaniesSectorRelative(companiesWithData, mockDate, parameters);
+
+      expect(result.lowCarbon).not.toContain(1);
+      expect(result.lowCarbon).toContain(2);
+    });
+
     it("should classify decarbonizing companies by tertile", () => {
       const companiesWithData: CompanyWithTimeSeries[] = [];
       
@@ -373,5 +552,187 @@ describe("Portfolio Analyzer V2", () => {
       expect(result.lowCarbon).toHaveLength(1);
       expect(result.lowCarbon).toContain(1); // Lowest intensity US company
     });
+
+    it("should apply fixed cut-offs when the tertile approach is off", () => {
+      const companiesWithData: CompanyWithTimeSeries[] = [];
+
+      // 10 companies: intensity rises with i, targets -0.1 to -1.0, SDG scores 0.5 to 5.0
+      for (let i = 1; i <= 10; i++) {
+        companiesWithData.push({
+          company: createMockCompany(i, `US0${i}`, 'Tech', 'US', i * 0.5, -i * 0.1),
+          timeSeries: [createMockTimeSeries(i, mockDate, i * 100, i * 50, 10_000_000, 20)],
+        });
+      }
+
+      const parameters: AnalysisParameters = {
+        includeScope3: false,
+        methodology: 'relative',
+        sectorGranularity: 'sector',
+        thresholds: {
+          tertileApproach: false,
+          lowCarbonPercentile: 20,
+          decarbonizingTarget: -0.75,
+          solutionsScore: 4,
+        },
+        winsorize: false,
+        winsorizePercentile: 5,
+      };
+
+      const result = classifyCompaniesSectorRelative(companiesWithData, mockDate, parameters);
+
+      expect(result.lowCarbon.sort((a, b) => a - b)).toEqual([1, 2]); // Bottom 20% of 10
+      expect(result.decarbonizing.sort((a, b) => a - b)).toEqual([8, 9, 10]); // -0.8, -0.9, -1.0
+      expect(result.solutions.sort((a, b) => a - b)).toEqual([8, 9, 10]); // 4.0 and above
+    });
+
+    it("should rank by emissions per revenue when that denominator is chosen", () => {
+      const companiesWithData: CompanyWithTimeSeries[] = [];
+
+      // Same emissions and market cap; revenue rises with i, so revenue intensity falls
+      for (let i = 1; i <= 9; i++) {
+        companiesWithData.push({
+          company: createMockCompany(i, `US00${i}`, 'Tech', 'US', null, null),
+          timeSeries: [{ ...createMockTimeSeries(i, mockDate, 100, 50, 10_000_000, 20), revenue: i * 1_000_000, evic: null }],
+        });
+      }
+      // No revenue: dropped from the ranking rather than treated as zero intensity
+      companiesWithData.push({
+        company: createMockCompany(10, 'US010', 'Tech', 'US', null, null),
+        timeSeries: [{ ...createMockTimeSeries(10, mockDate, 100, 50, 10_000_000, 20), revenue: null, evic: null }],
+      });
+
+      const parameters: AnalysisParameters = {
+        includeScope3: false,
+        methodology: 'relative',
+        sectorGranularity: 'sector',
+        thresholds: { tertileApproach: true },
+        winsorize: false,
+        winsorizePercentile: 5,
+        intensityDenominator: 'revenue',
+      };
+
+      const result = classifyCompaniesSectorRelative(companiesWithData, mockDate, parameters);
+
+      expect(result.lowCarbon.sort((a, b) => a - b)).toEqual([7, 8, 9]);
+      expect(getPortfolioMetricsExclusion(companiesWithData[9].timeSeries[0], false, true, 'revenue')).toBe('missing_denominator');
+      expect(getPortfolioMetricsExclusion(companiesWithData[9].timeSeries[0], false, true, 'market_cap')).toBeNull();
+    });
+  });
+
+  describe("runFullAnalysis", () => {
+    const date = new Date('2020-01-01');
+
+    const companyWithData = (
+      id: number,
+      sector: string,
+      geography: string,
+      intensity: number,
+      pe: number
+    ): CompanyWithTimeSeries => ({
+      company: {
+        id,
+        isin: `XX${id}`,
+        name: `Company ${id}`,
+        geography,
+        sector,
+        industry: null,
+        sdgAlignmentScore: null,
+        emissionTarget2050: null,
+        createdAt: new Date(),
+      },
+      timeSeries: [{
+        id,
+        companyId: id,
+        date,
+        totalReturnIndex: 100,
+        marketCap: 1_000_000,
+        priceEarnings: pe,
+        scope1Emissions: intensity,
+        scope2Emissions: 0,
+        scope3Emissions: null,
+        createdAt: new Date(),
+      } as TimeSeries],
+    });
+
+    // Tech: 15 US companies whose P/E falls as intensity rises
+    // Energy: 9 US and 6 UK companies with a flat P/E
+    const companiesWithData: CompanyWithTimeSeries[] = [
+      ...Array.from({ length: 15 }, (_, i) => companyWithData(i + 1, 'Tech', 'US', (i + 1) * 100, 30 - i)),
+      ...Array.from({ length: 15 }, (_, i) => companyWithData(i + 16, 'Energy', i < 9 ? 'US' : 'UK', (i + 1) * 1000, 15)),
+    ];
+
+    const parameters: AnalysisParameters = {
+      includeScope3: false,
+      methodology: 'relative',
+      sectorGranularity: 'sector',
+      thresholds: { tertileApproach: true },
+      winsorize: false,
+      winsorizePercentile: 5,
+    };
+
+    const { results, insufficientSamples } = runFullAnalysis(companiesWithData, [date], parameters, {
+      sectors: ['Tech', 'Energy'],
+      geographies: ['US', 'UK'],
+    });
+
+    const find = (sector?: string, geography?: string) =>
+      results.find(r => r.investmentType === 'low_carbon' && r.sector === sector && r.geography === geography);
+
+    it("should classify and price each sector within that sector only", () => {
+      const aggregate = find();
+      const tech = find('Tech');
+      const energy = find('Energy');
+
+      expect(tech!.companies.every(id => id <= 15)).toBe(true);
+      expect(tech!.baselineSize).toBe(10);
+      expect(energy!.carbonRiskDiscount).toBeCloseTo(0, 10);
+      expect(tech!.carbonRiskDiscount).toBeGreaterThan(0);
+      expect(tech!.carbonRiskDiscount).not.toBeCloseTo(aggregate!.carbonRiskDiscount, 6);
+      expect(tech!.impliedCarbonPrice).not.toBeCloseTo(aggregate!.impliedCarbonPrice, 6);
+    });
+
+    it("should produce sector × region cells", () => {
+      const cell = find('Tech', 'North America');
+
+      expect(cell).toBeDefined();
+      expect(cell!.portfolioSize).toBe(5);
+    });
+
+    it("should flag slices below the minimum sample instead of emitting them", () => {
+      const flagged = insufficientSamples.filter(s => s.investmentType === 'low_carbon');
+
+      expect(flagged.map(s => `${s.sector ?? ''}|${s.geography ?? ''}`).sort()).toEqual([
+        'Energy|Europe',
+        'Energy|North America',
+        'Tech|Europe',
+        '|Europe',
+      ]);
+      expect(flagged.every(s => s.minPortfolioSize < MIN_SLICE_SAMPLE || s.minBaselineSize < MIN_SLICE_SAMPLE)).toBe(true);
+      expect(find(undefined, 'Europe')).toBeUndefined();
+      expect(find('Energy', 'Europe')).toBeUndefined();
+    });
+
+    it("should flag empty slices with zero sizes rather than dropping them", () => {
+      // No Tech company is in Europe, so the cell has nothing to classify or price
+      const empty = insufficientSamples.find(s => s.investmentType === 'low_carbon' && s.sector === 'Tech' && s.geography === 'Europe');
+
+      expect(empty).toMatchObject({ dateCount: 1, minPortfolioSize: 0, minBaselineSize: 0 });
+      expect(find('Tech', 'Europe')).toBeUndefined();
+    });
+
+    it("should report each flagged slice once with its date count", () => {
+      const nextDate = new Date(date.getTime() + 31 * 24 * 60 * 60 * 1000);
+      const twoDates = companiesWithData.map(c => ({
+        ...c,
+        timeSeries: [...c.timeSeries, { ...c.timeSeries[0], date: nextDate }],
+      }));
+      const { insufficientSamples: flaggedTwice } = runFullAnalysis(twoDates, [date, nextDate], parameters, {
+        sectors: ['Tech', 'Energy'],
+        geographies: ['US', 'UK'],
+      });
+
+      expect(flaggedTwice).toHaveLength(insufficientSamples.length);
+      expect(flaggedTwice.every(s => s.dateCount === 2)).toBe(true);
+    });
   });
 });
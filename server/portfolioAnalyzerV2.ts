@@ -1,13 +1,29 @@
 import { Company, TimeSeries } from '../drizzle/schema';
+import { selectEmissions } from './emissionsEstimator';
+import { bootstrapEstimate, seedFromDate, type BootstrapInterval, type BootstrapOptions } from './bootstrap';
+import { dummyColumns, ols } from './regression';
+import { assignQuantileBuckets, DEFAULT_QUANTILE_BUCKETS, type QuantileBuckets } from '@shared/quantiles';
+import { DEFAULT_SCENARIO_CURVE, interpolateDecarbRate, type ScenarioCurve } from '@shared/scenarios';
+import { DEFAULT_INTENSITY_DENOMINATOR, intensityDenominatorValue, type IntensityDenominator } from '@shared/intensity';
+import { compositeScore, type SolutionsComposite } from '@shared/solutionsMetrics';
+import { DCF_SENSITIVITY_BUMPS, DEFAULT_DCF_PARAMETERS, type DcfParameters, type DcfSensitivities } from '@shared/dcf';
+import { credibilityAt, type CredibilityByCompany } from './targetCredibility';
+import { attributeAt, metricAt, type CompanyMetrics, type CompanySnapshots } from './companySnapshots';
 
 export interface CompanyWithTimeSeries {
   company: Company;
   timeSeries: TimeSeries[];
+  snapshots?: CompanySnapshots; // Dated targets and SDG scores; without them the company columns apply at every date
+  metrics?: CompanyMetrics; // GreenRev metrics by key, for solutions composites
 }
 
+export type ValuationMethodology = 'relative' | 'dcf' | 'regression';
+
+export type PortfolioWeighting = 'equal' | 'market_cap' | 'sqrt_market_cap' | 'aggregate';
+
 export interface PortfolioMetrics {
   date: Date;
-  investmentType: 'low_carbon' | 'decarbonizing' | 'solutions';
+  investmentType: 'low_carbon' | 'decarbonizing' | 'solutions' | 'credible_decarbonizers';
   geography?: string;
   sector?: string;
   avgCarbonIntensity: number;
@@ -15,25 +31,72 @@ export interface PortfolioMetrics {
   carbonRiskDiscount: number; // Inverted: negative for high carbon companies
   impliedCarbonPrice: number;
   impliedDecarbRate: number;
+  // Bootstrap percentile band and standard error; absent unless bootstrapping was requested
+  impliedCarbonPriceLower?: number;
+  impliedCarbonPriceUpper?: number;
+  impliedCarbonPriceStdError?: number;
+  impliedDecarbRateLower?: number;
+  impliedDecarbRateUpper?: number;
+  dcfSensitivities?: DcfSensitivities; // DCF methodology only
   portfolioSize: number;
+  baselineSize: number;
   companies: number[];
-  methodology: 'relative' | 'dcf';
+  methodology: ValuationMethodology;
+  weighting: PortfolioWeighting;
+  bucketCount: number;
+  bucketIndex: number | null; // Intensity bucket of the low-carbon portfolio; null for other types
+}
+
+/** Sector, region and sector × region slices need this many companies in each portfolio */
+export const MIN_SLICE_SAMPLE = 5;
+
+/**
+ * A slice whose climate or baseline portfolio is below MIN_SLICE_SAMPLE, or
+ * could not be priced, on some dates; reported instead of its (unreliable or
+ * missing) metrics, once per investment type and slice rather than per date
+ */
+export interface InsufficientSample {
+  investmentType: 'low_carbon' | 'decarbonizing' | 'solutions' | 'credible_decarbonizers';
+  sector?: string;
+  geography?: string;
+  dateCount: number; // Dates on which the slice was below the minimum
+  minPortfolioSize: number; // Smallest climate portfolio over those dates
+  minBaselineSize: number; // Smallest baseline over those dates
 }
 
 export interface ClassificationThresholds {
-  tertileApproach: boolean; // Use tertiles (bottom vs top third) instead of percentiles
-  lowCarbonPercentile?: number; // For backward compatibility
-  decarbonizingTarget?: number; // For backward compatibility
-  solutionsScore?: number; // For backward compatibility
+  tertileApproach: boolean; // Use quantile buckets (tertiles by default) instead of the cut-offs below
+  lowCarbonPercentile?: number; // Threshold mode: bottom X% of each sector's intensity ranking
+  decarbonizingTarget?: number; // Threshold mode: 2050 target change at or below this (e.g. -0.5 = 50% cut)
+  solutionsScore?: number; // Threshold mode: SDG alignment score at or above this
+  solutionsCompositeScore?: number; // Threshold mode: solutions composite at or above this (the composite's own scale)
 }
 
+/** Cut-offs used in threshold mode when a value is not given */
+export const DEFAULT_CLASSIFICATION_THRESHOLDS = {
+  lowCarbonPercentile: 25,
+  decarbonizingTarget: -0.5,
+  solutionsScore: 2,
+  solutionsCompositeScore: 2,
+};
+
 export interface AnalysisParameters {
   includeScope3: boolean;
-  methodology: 'relative' | 'dcf';
+  methodology: ValuationMethodology;
+  regressionDependent?: 'log_pe' | 'earnings_yield'; // Regression methodology only; defaults to log P/E
   sectorGranularity: 'sector' | 'industry';
   thresholds: ClassificationThresholds;
   winsorize: boolean;
   winsorizePercentile: number;
+  weighting?: PortfolioWeighting; // How companies are averaged within a portfolio; defaults to equal
+  buckets?: QuantileBuckets; // Quantile buckets for classification; defaults to terciles, low carbon = bucket 0
+  scenarioCurve?: ScenarioCurve; // Carbon price to decarbonization rate curve; defaults to the built-in curve
+  dcf?: Partial<DcfParameters>; // DCF methodology inputs; missing values use DEFAULT_DCF_PARAMETERS
+  includeEstimatedEmissions?: boolean; // Gap-filled emissions count as data unless false
+  intensityDenominator?: IntensityDenominator; // Carbon intensity = emissions / this; defaults to market cap
+  targetCredibility?: CredibilityByCompany; // Target credibility scores; the credible decarbonizers portfolio is empty without them
+  solutionsComposite?: SolutionsComposite; // Weighted metrics ranking the solutions portfolio; defaults to the SDG alignment score
+  bootstrap?: BootstrapOptions; // Confidence bands for aggregate results
 }
 
 /**
@@ -101,30 +164,53 @@ export function mapGeographyToRegion(geography: string | null): string {
 }
 
 /**
- * Calculate carbon intensity (emissions per market cap)
+ * Total of the included scopes; null when any included scope has no value,
+ * so a partly reported company is not mistaken for a low emitter
  */
-export function calculateCarbonIntensity(
+export function calculateTotalEmissions(
   scope1: number | null,
   scope2: number | null,
   scope3: number | null,
-  marketCap: number | null,
   includeScope3: boolean = false
 ): number | null {
-  if (!marketCap || marketCap <= 0) return null;
+  if (scope1 === null || scope2 === null || (includeScope3 && scope3 === null)) return null;
+  return scope1 + scope2 + (includeScope3 ? scope3! : 0);
+}
 
-  const s1 = scope1 || 0;
-  const s2 = scope2 || 0;
-  const s3 = includeScope3 ? (scope3 || 0) : 0;
+/**
+ * Calculate carbon intensity (emissions per market cap, or per revenue or
+ * EVIC; see intensityDenominatorValue)
+ * Returns null when any included scope has no value (see calculateTotalEmissions)
+ */
+export function calculateCarbonIntensity(
+  scope1: number | null,
+  scope2: number | null,
+  scope3: number | null,
+  denominator: number | null,
+  includeScope3: boolean = false
+): number | null {
+  if (!denominator || denominator <= 0) return null;
 
-  const totalEmissions = s1 + s2 + s3;
+  const totalEmissions = calculateTotalEmissions(scope1, scope2, scope3, includeScope3);
+  if (totalEmissions === null) return null;
   
-  // Return emissions per million dollars of market cap
-  return totalEmissions / (marketCap / 1_000_000);
+  // Return emissions per million dollars of the denominator
+  return totalEmissions / (denominator / 1_000_000);
 }
 
 /**
  * Classify companies into tertiles within each sector
- * Returns bottom third (low carbon) vs top third (high carbon) for each metric
+ * Returns bottom third (low carbon) vs top third (high carbon) for each metric.
+ * With other quantile buckets, low carbon is buckets.lowBucket by intensity and
+ * decarbonizing/solutions are the first bucket of their ranking.
+ * With tertileApproach off, fixed cut-offs apply instead: the bottom
+ * lowCarbonPercentile of each sector's intensity ranking, and every company
+ * meeting the target or SDG score threshold.
+ * Credible decarbonizers rank like decarbonizing companies, on targets
+ * weighted by their credibility score at the date.
+ * A solutions composite ranks the weighted sum of its metrics instead of the
+ * SDG score, over companies with every weighted metric.
+ * Targets, SDG scores and metrics are the latest snapshots on or before the date.
  */
 export function classifyCompaniesSectorRelative(
   companiesWithData: CompanyWithTimeSeries[],
@@ -135,12 +221,14 @@ export function classifyCompaniesSectorRelative(
   lowCarbon: number[];
   decarbonizing: number[];
   solutions: number[];
+  credibleDecarbonizers: number[];
   baseline: number[];
 } {
   const result = {
     lowCarbon: [] as number[],
     decarbonizing: [] as number[],
     solutions: [] as number[],
+    credibleDecarbonizers: [] as number[],
     baseline: [] as number[],
   };
 
@@ -166,6 +254,17 @@ export function classifyCompaniesSectorRelative(
     companiesBySector.get(sectorValue)!.push(companyData);
   }
 
+  const buckets = parameters.buckets ?? DEFAULT_QUANTILE_BUCKETS;
+  const useBuckets = parameters.thresholds.tertileApproach;
+  const thresholds = {
+    lowCarbonPercentile: parameters.thresholds.lowCarbonPercentile ?? DEFAULT_CLASSIFICATION_THRESHOLDS.lowCarbonPercentile,
+    decarbonizingTarget: parameters.thresholds.decarbonizingTarget ?? DEFAULT_CLASSIFICATION_THRESHOLDS.decarbonizingTarget,
+    solutionsScore: parameters.thresholds.solutionsScore ?? DEFAULT_CLASSIFICATION_THRESHOLDS.solutionsScore,
+    solutionsCompositeScore: parameters.thresholds.solutionsCompositeScore ?? DEFAULT_CLASSIFICATION_THRESHOLDS.solutionsCompositeScore,
+  };
+  const solutionsComposite = parameters.solutionsComposite ?? [];
+  const solutionsCutoff = solutionsComposite.length > 0 ? thresholds.solutionsCompositeScore : thresholds.solutionsScore;
+
   // Process each sector independently
   for (const [sector, sectorCompanies] of Array.from(companiesBySector.entries())) {
     // 1. LOW CARBON INTENSITY: Bottom tertile by carbon intensity within sector
@@ -175,11 +274,12 @@ export function classifyCompaniesSectorRelative(
       const ts = timeSeries.find((t: TimeSeries) => t.date.getTime() === date.getTime());
       if (!ts || !company.id) continue;
 
+      const { scope1, scope2, scope3 } = selectEmissions(ts, parameters.includeEstimatedEmissions ?? true);
       const intensity = calculateCarbonIntensity(
-        ts.scope1Emissions,
-        ts.scope2Emissions,
-        ts.scope3Emissions,
-        ts.marketCap,
+        scope1,
+        scope2,
+        scope3,
+        intensityDenominatorValue(ts, parameters.intensityDenominator),
         parameters.includeScope3
       );
 
@@ -188,48 +288,86 @@ export function classifyCompaniesSectorRelative(
       }
     }
 
-    // Sort by intensity (low to high) and take bottom third
+    // Sort by intensity (low to high) and take the low-carbon bucket (bottom third by default)
     intensities.sort((a, b) => a.intensity - b.intensity);
-    const tertileSize = Math.floor(intensities.length / 3);
-    
-    for (let i = 0; i < tertileSize && i < intensities.length; i++) {
-      result.lowCarbon.push(intensities[i].companyId);
+
+    if (useBuckets) {
+      const intensityBuckets = assignQuantileBuckets(intensities.length, buckets.count);
+      intensities.forEach((item, i) => {
+        if (intensityBuckets[i] === buckets.lowBucket) result.lowCarbon.push(item.companyId);
+      });
+    } else {
+      const cutoff = Math.floor(intensities.length * (thresholds.lowCarbonPercentile / 100));
+      for (let i = 0; i < cutoff; i++) {
+        result.lowCarbon.push(intensities[i].companyId);
+      }
     }
 
     // 2. DECARBONIZING: Bottom tertile by emission target (most negative = most ambitious)
     const targets: { companyId: number; target: number }[] = [];
     
-    for (const { company } of sectorCompanies) {
-      if (company.id && company.emissionTarget2050 !== null) {
-        targets.push({ companyId: company.id, target: company.emissionTarget2050 });
+    for (const { company, snapshots } of sectorCompanies) {
+      const target = attributeAt(company, snapshots, 'emissionTarget2050', date);
+      if (company.id && target !== null) {
+        targets.push({ companyId: company.id, target });
       }
     }
 
     targets.sort((a, b) => a.target - b.target); // Most negative first
-    const targetTertileSize = Math.floor(targets.length / 3);
+    const targetTertileSize = useBuckets
+      ? Math.floor(targets.length / buckets.count)
+      : targets.filter(t => t.target <= thresholds.decarbonizingTarget).length;
     
     for (let i = 0; i < targetTertileSize && i < targets.length; i++) {
       result.decarbonizing.push(targets[i].companyId);
     }
 
-    // 3. SOLUTIONS: Top tertile by SDG alignment score (highest scores)
+    // 3. SOLUTIONS: Top tertile by SDG alignment score or solutions composite (highest scores)
     const scores: { companyId: number; score: number }[] = [];
     
-    for (const { company } of sectorCompanies) {
-      if (company.id && company.sdgAlignmentScore !== null) {
-        scores.push({ companyId: company.id, score: company.sdgAlignmentScore });
+    for (const { company, snapshots, metrics } of sectorCompanies) {
+      const score = solutionsComposite.length > 0
+        ? compositeScore(solutionsComposite, metric => metricAt(metrics, metric, date))
+        : attributeAt(company, snapshots, 'sdgAlignmentScore', date);
+      if (company.id && score !== null) {
+        scores.push({ companyId: company.id, score });
       }
     }
 
     scores.sort((a, b) => b.score - a.score); // Highest first
-    const scoreTertileSize = Math.floor(scores.length / 3);
+    const scoreTertileSize = useBuckets
+      ? Math.floor(scores.length / buckets.count)
+      : scores.filter(s => s.score >= solutionsCutoff).length;
     
     for (let i = 0; i < scoreTertileSize && i < scores.length; i++) {
       result.solutions.push(scores[i].companyId);
     }
+
+    // 4. CREDIBLE DECARBONIZERS: Bottom tertile by target × credibility (ambitious and on track)
+    if (parameters.targetCredibility) {
+      const weightedTargets: { companyId: number; target: number }[] = [];
+
+      for (const { companyId, target } of targets) {
+        const credibility = credibilityAt(parameters.targetCredibility, companyId, date);
+        if (credibility) {
+          weightedTargets.push({ companyId, target: target * credibility.score });
+        }
+      }
+
+      weightedTargets.sort((a, b) => a.target - b.target); // Most negative first
+      const credibleTertileSize = useBuckets
+        ? Math.floor(weightedTargets.length / buckets.count)
+        : weightedTargets.filter(t => t.target <= thresholds.decarbonizingTarget).length;
+
+      for (let i = 0; i < credibleTertileSize && i < weightedTargets.length; i++) {
+        result.credibleDecarbonizers.push(weightedTargets[i].companyId);
+      }
+    }
   }
 
-  // Baseline: all companies not in any climate portfolio
+  // Baseline: all companies not in the low carbon, decarbonizing or solutions portfolios.
+  // Credible decarbonizers are left out so adding them does not move the other portfolios'
+  // baseline; analyzePortfolio drops them from their own baseline.
   const climateCompanies = new Set([...result.lowCarbon, ...result.decarbonizing, ...result.solutions]);
   for (const { company } of filteredCompanies) {
     if (company.id && !climateCompanies.has(company.id)) {
@@ -240,6 +378,84 @@ export function classifyCompaniesSectorRelative(
   return result;
 }
 
+export type PortfolioMetricsExclusion =
+  | 'missing_market_cap'
+  | 'missing_denominator'
+  | 'missing_emissions'
+  | 'missing_pe'
+  | 'non_positive_pe';
+
+/**
+ * Why a company-date row is left out of calculatePortfolioMetrics, or null if it is used
+ */
+export function getPortfolioMetricsExclusion(
+  ts: TimeSeries,
+  includeScope3: boolean = false,
+  includeEstimates: boolean = true,
+  denominator: IntensityDenominator = DEFAULT_INTENSITY_DENOMINATOR
+): PortfolioMetricsExclusion | null {
+  if (!ts.marketCap || ts.marketCap <= 0) return 'missing_market_cap';
+
+  const denominatorValue = intensityDenominatorValue(ts, denominator);
+  if (!denominatorValue || denominatorValue <= 0) return 'missing_denominator';
+
+  const { scope1, scope2, scope3 } = selectEmissions(ts, includeEstimates);
+  if (calculateCarbonIntensity(scope1, scope2, scope3, denominatorValue, includeScope3) === null) return 'missing_emissions';
+
+  if (ts.priceEarnings === null) return 'missing_pe';
+  if (ts.priceEarnings <= 0) return 'non_positive_pe';
+  return null;
+}
+
+export interface PortfolioRow {
+  companyId: number;
+  sector: string;
+  intensity: number;
+  pe: number;
+  marketCap: number;
+  // Aggregate weighting only
+  netProfit: number | null;
+  emissions: number;
+  denominator: number;
+}
+
+/**
+ * Intensity and P/E of each company in the set that passes the metric filters
+ */
+export function collectPortfolioRows(
+  companyIds: number[],
+  companiesWithData: CompanyWithTimeSeries[],
+  date: Date,
+  includeScope3: boolean = false,
+  includeEstimates: boolean = true,
+  denominator: IntensityDenominator = DEFAULT_INTENSITY_DENOMINATOR
+): PortfolioRow[] {
+  const rows: PortfolioRow[] = [];
+
+  for (const { company, timeSeries } of companiesWithData) {
+    if (!company.id || !companyIds.includes(company.id)) continue;
+
+    const ts = timeSeries.find(t => t.date.getTime() === date.getTime());
+    if (!ts || getPortfolioMetricsExclusion(ts, includeScope3, includeEstimates, denominator)) continue;
+
+    const { scope1, scope2, scope3 } = selectEmissions(ts, includeEstimates);
+    const denominatorValue = intensityDenominatorValue(ts, denominator)!;
+    const intensity = calculateCarbonIntensity(scope1, scope2, scope3, denominatorValue, includeScope3)!;
+    rows.push({
+      companyId: company.id,
+      sector: company.sector ?? 'Unknown',
+      intensity,
+      pe: ts.priceEarnings!,
+      marketCap: ts.marketCap!,
+      netProfit: ts.netProfit,
+      emissions: calculateTotalEmissions(scope1, scope2, scope3, includeScope3)!,
+      denominator: denominatorValue,
+    });
+  }
+
+  return rows;
+}
+
 /**
  * Calculate portfolio metrics for a given date and company set
  */
@@ -249,33 +465,67 @@ export function calculatePortfolioMetrics(
   date: Date,
   includeScope3: boolean = false,
   applyWinsorization: boolean = false,
-  winsorizePercentile: number = 5
+  winsorizePercentile: number = 5,
+  includeEstimates: boolean = true,
+  weighting: PortfolioWeighting = 'equal',
+  denominator: IntensityDenominator = DEFAULT_INTENSITY_DENOMINATOR
 ): {
   avgCarbonIntensity: number;
   avgPeRatio: number;
   portfolioSize: number;
 } | null {
-  const validData: { intensity: number; pe: number }[] = [];
-
-  for (const { company, timeSeries } of companiesWithData) {
-    if (!company.id || !companyIds.includes(company.id)) continue;
-
-    const ts = timeSeries.find(t => t.date.getTime() === date.getTime());
-    if (!ts) continue;
-
-    const intensity = calculateCarbonIntensity(
-      ts.scope1Emissions,
-      ts.scope2Emissions,
-      ts.scope3Emissions,
-      ts.marketCap,
-      includeScope3
-    );
+  const rows = collectPortfolioRows(companyIds, companiesWithData, date, includeScope3, includeEstimates, denominator);
+  return summarizePortfolioRows(rows, applyWinsorization, winsorizePercentile, weighting);
+}
 
-    if (intensity !== null && ts.priceEarnings !== null && ts.priceEarnings > 0) {
-      validData.push({ intensity, pe: ts.priceEarnings });
-    }
+/**
+ * Portfolio average intensity and P/E under a weighting scheme.
+ * 'aggregate' treats the portfolio as one company: total emissions over the
+ * total intensity denominator (market cap, revenue or EVIC), and total market
+ * cap over total net profit of the companies reporting one. Aggregate P/E is
+ * undefined, and the result null, when that total profit is not positive.
+ */
+export function weightedPortfolioAverages(
+  rows: Array<{ intensity: number; pe: number; marketCap: number; netProfit?: number | null; emissions: number; denominator: number }>,
+  weighting: PortfolioWeighting = 'equal'
+): {
+  avgCarbonIntensity: number;
+  avgPeRatio: number;
+} | null {
+  if (weighting === 'aggregate') {
+    const withProfit = rows.filter(r => r.netProfit != null);
+    const totalProfit = withProfit.reduce((sum, r) => sum + r.netProfit!, 0);
+    if (totalProfit <= 0) return null;
+    const totalMarketCap = withProfit.reduce((sum, r) => sum + r.marketCap, 0);
+    const totalEmissions = rows.reduce((sum, r) => sum + r.emissions, 0);
+    const totalDenominator = rows.reduce((sum, r) => sum + r.denominator, 0);
+    // Same units as calculateCarbonIntensity
+    return { avgCarbonIntensity: totalEmissions / (totalDenominator / 1_000_000), avgPeRatio: totalMarketCap / totalProfit };
   }
 
+  const weights = rows.map(r => {
+    if (weighting === 'equal') return 1;
+    return weighting === 'sqrt_market_cap' ? Math.sqrt(r.marketCap) : r.marketCap;
+  });
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const avgCarbonIntensity = rows.reduce((sum, r, i) => sum + weights[i] * r.intensity, 0) / totalWeight;
+  const avgPeRatio = rows.reduce((sum, r, i) => sum + weights[i] * r.pe, 0) / totalWeight;
+  return { avgCarbonIntensity, avgPeRatio };
+}
+
+/**
+ * Average intensity and P/E over portfolio rows, optionally winsorized
+ */
+export function summarizePortfolioRows(
+  validData: PortfolioRow[],
+  applyWinsorization: boolean = false,
+  winsorizePercentile: number = 5,
+  weighting: PortfolioWeighting = 'equal'
+): {
+  avgCarbonIntensity: number;
+  avgPeRatio: number;
+  portfolioSize: number;
+} | null {
   if (validData.length === 0) return null;
 
   let intensities = validData.map(d => d.intensity);
@@ -286,12 +536,14 @@ export function calculatePortfolioMetrics(
     peRatios = winsorize(peRatios, winsorizePercentile, 100 - winsorizePercentile);
   }
 
-  const avgCarbonIntensity = intensities.reduce((sum, v) => sum + v, 0) / intensities.length;
-  const avgPeRatio = peRatios.reduce((sum, v) => sum + v, 0) / peRatios.length;
+  const averages = weightedPortfolioAverages(
+    validData.map((d, i) => ({ ...d, intensity: intensities[i], pe: peRatios[i] })),
+    weighting
+  );
+  if (!averages) return null;
 
   return {
-    avgCarbonIntensity,
-    avgPeRatio,
+    ...averages,
     portfolioSize: validData.length,
   };
 }
@@ -327,6 +579,18 @@ export function calculateCarbonRiskDiscount(
   };
 }
 
+/**
+ * Present value of the carbon cost path per $1/tCO2 of starting price:
+ * Σ (1 - passThrough) × (1 + g)^(k-1) / (1 + r)^(delay + k) for k = 1..horizon
+ */
+export function dcfCostFactor(dcf: DcfParameters): number {
+  let factor = 0;
+  for (let k = 1; k <= dcf.horizon; k++) {
+    factor += Math.pow(1 + dcf.priceGrowthRate, k - 1) / Math.pow(1 + dcf.discountRate, dcf.startDelay + k);
+  }
+  return factor * (1 - dcf.passThrough);
+}
+
 /**
  * Calculate implied carbon price using DCF methodology
  * Assumes carbon costs reduce future cash flows
@@ -334,12 +598,13 @@ export function calculateCarbonRiskDiscount(
 export function calculateImpliedCarbonPriceDCF(
   climateMetrics: { avgCarbonIntensity: number; avgPeRatio: number },
   baselineMetrics: { avgCarbonIntensity: number; avgPeRatio: number },
-  discountRate: number = 0.08, // 8% WACC assumption
-  carbonCostHorizon: number = 30 // Years to model carbon costs
+  dcfParameters: Partial<DcfParameters> = {}
 ): {
   carbonRiskDiscount: number;
   impliedCarbonPrice: number;
 } {
+  const dcf = { ...DEFAULT_DCF_PARAMETERS, ...dcfParameters };
+
   // Valuation difference
   const carbonRiskDiscount = (climateMetrics.avgPeRatio / baselineMetrics.avgPeRatio) - 1;
   
@@ -351,21 +616,19 @@ export function calculateImpliedCarbonPriceDCF(
   }
 
   // DCF approach: Present value of carbon costs
-  // PV = Σ(carbon_cost * intensity_diff) / (1 + r)^t
-  // Solve for carbon_cost given observed valuation difference
-  
-  // Simplified: assume constant carbon cost over horizon
-  // PV_factor = Σ(1 / (1 + r)^t) for t=1 to horizon
-  let pvFactor = 0;
-  for (let t = 1; t <= carbonCostHorizon; t++) {
-    pvFactor += 1 / Math.pow(1 + discountRate, t);
+  // PV = Σ(carbon_cost_t * intensity_diff) / (1 + r)^t
+  // Solve for the starting carbon cost given observed valuation difference
+  // The cost path is the starting price grown at g, after the start delay, net of pass-through
+  const pvFactor = dcfCostFactor(dcf);
+  if (pvFactor <= 0) {
+    return { carbonRiskDiscount, impliedCarbonPrice: 0 };
   }
   
-  // Valuation difference (in dollars) = carbon_price * intensity_diff * PV_factor
+  // Valuation difference (in dollars) = starting_price * intensity_diff * PV_factor
   // Assuming P/E represents value per unit of earnings
   const valuationDiff = carbonRiskDiscount * baselineMetrics.avgPeRatio;
   
-  // Solve for implied carbon price
+  // Solve for implied starting carbon price (PV is linear in it)
   const impliedCarbonPrice = valuationDiff / (intensityDiff * pvFactor);
 
   return {
@@ -375,96 +638,335 @@ export function calculateImpliedCarbonPriceDCF(
 }
 
 /**
- * Convert implied carbon price to annual decarbonization rate
- * Based on carbon price scenarios:
+ * Change in the DCF implied carbon price when each input is bumped by
+ * DCF_SENSITIVITY_BUMPS, one at a time
+ */
+export function calculateDcfSensitivities(
+  climateMetrics: { avgCarbonIntensity: number; avgPeRatio: number },
+  baselineMetrics: { avgCarbonIntensity: number; avgPeRatio: number },
+  dcfParameters: Partial<DcfParameters> = {}
+): DcfSensitivities {
+  const dcf = { ...DEFAULT_DCF_PARAMETERS, ...dcfParameters };
+  const base = calculateImpliedCarbonPriceDCF(climateMetrics, baselineMetrics, dcf).impliedCarbonPrice;
+  const bumped = (key: keyof DcfParameters) => {
+    const value = key === 'passThrough'
+      ? Math.min(1, dcf.passThrough + DCF_SENSITIVITY_BUMPS.passThrough)
+      : dcf[key] + DCF_SENSITIVITY_BUMPS[key];
+    return calculateImpliedCarbonPriceDCF(climateMetrics, baselineMetrics, { ...dcf, [key]: value }).impliedCarbonPrice - base;
+  };
+
+  return {
+    discountRate: bumped('discountRate'),
+    horizon: bumped('horizon'),
+    startDelay: bumped('startDelay'),
+    priceGrowthRate: bumped('priceGrowthRate'),
+    passThrough: bumped('passThrough'),
+  };
+}
+
+export interface RegressionRow {
+  companyId: number;
+  sector: string;
+  region: string;
+  intensity: number;
+  pe: number;
+  marketCap: number;
+}
+
+export interface RegressionCarbonPrice {
+  impliedCarbonPrice: number;
+  /** Coefficient on carbon intensity and its standard error, in units of the dependent variable */
+  intensityCoefficient: number;
+  intensityStdError: number;
+  rSquared: number;
+  observations: number;
+}
+
+/**
+ * Every company with intensity, P/E and market cap on the date (within the
+ * region, if given), for the cross-sectional regression
+ */
+export function collectRegressionRows(
+  companiesWithData: CompanyWithTimeSeries[],
+  date: Date,
+  parameters: AnalysisParameters,
+  geography?: string
+): RegressionRow[] {
+  const sectorField = parameters.sectorGranularity === 'industry' ? 'industry' : 'sector';
+  const rows: RegressionRow[] = [];
+
+  for (const { company, timeSeries } of companiesWithData) {
+    const region = mapGeographyToRegion(company.geography);
+    if (!company.id || (geography && region !== geography)) continue;
+
+    const ts = timeSeries.find(t => t.date.getTime() === date.getTime());
+    const includeEstimates = parameters.includeEstimatedEmissions ?? true;
+    if (!ts || getPortfolioMetricsExclusion(ts, parameters.includeScope3, includeEstimates, parameters.intensityDenominator)) continue;
+
+    const { scope1, scope2, scope3 } = selectEmissions(ts, includeEstimates);
+    const denominator = intensityDenominatorValue(ts, parameters.intensityDenominator);
+    rows.push({
+      companyId: company.id,
+      sector: company[sectorField] ?? 'Unknown',
+      region,
+      intensity: calculateCarbonIntensity(scope1, scope2, scope3, denominator, parameters.includeScope3)!,
+      pe: ts.priceEarnings!,
+      marketCap: ts.marketCap!,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Implied carbon price from a cross-sectional regression over all companies:
+ *
+ *   y = a + b * intensity + c * log(marketCap) + sector FE + region FE
+ *
+ * with y the earnings yield (E/P) or log P/E. If the market capitalises a
+ * carbon cost of p $/tCO2 at the clean multiple PE*, then V = PE* (E - p Em),
+ * which rearranges to E/P = 1/PE* + p * Em/V. Intensity is tCO2 per $M, so
+ * p = b * 1e6 for the earnings yield. For log P/E, b = -(dE/P / dintensity) / (E/P),
+ * so p = -b * mean(E/P) * 1e6.
+ */
+export function estimateRegressionCarbonPrice(
+  rows: RegressionRow[],
+  dependent: 'log_pe' | 'earnings_yield' = 'log_pe',
+  applyWinsorization: boolean = false,
+  winsorizePercentile: number = 5
+): RegressionCarbonPrice | null {
+  if (rows.length === 0) return null;
+
+  let intensities = rows.map(r => r.intensity);
+  let earningsYields = rows.map(r => 1 / r.pe);
+
+  if (applyWinsorization && rows.length > 10) {
+    intensities = winsorize(intensities, winsorizePercentile, 100 - winsorizePercentile);
+    earningsYields = winsorize(earningsYields, winsorizePercentile, 100 - winsorizePercentile);
+  }
+
+  const sectorDummies = dummyColumns(rows.map(r => r.sector));
+  const regionDummies = dummyColumns(rows.map(r => r.region));
+  const x = rows.map((r, i) => [1, intensities[i], Math.log(r.marketCap), ...sectorDummies[i], ...regionDummies[i]]);
+  const y = dependent === 'earnings_yield' ? earningsYields : earningsYields.map(ey => -Math.log(ey));
+
+  const fit = ols(x, y);
+  if (!fit) return null;
+
+  const coefficient = fit.coefficients[1];
+  const meanEarningsYield = earningsYields.reduce((sum, v) => sum + v, 0) / earningsYields.length;
+  const impliedCarbonPrice = dependent === 'earnings_yield'
+    ? coefficient * 1_000_000
+    : -coefficient * meanEarningsYield * 1_000_000;
+
+  return {
+    impliedCarbonPrice: Math.max(0, impliedCarbonPrice),
+    intensityCoefficient: coefficient,
+    intensityStdError: fit.standardErrors[1],
+    rSquared: fit.rSquared,
+    observations: fit.observations,
+  };
+}
+
+/**
+ * Carbon risk discount and implied carbon price under a portfolio-comparison
+ * methodology (the regression methodology prices carbon over all companies instead)
+ */
+export function priceCarbonRisk(
+  climateMetrics: { avgCarbonIntensity: number; avgPeRatio: number },
+  baselineMetrics: { avgCarbonIntensity: number; avgPeRatio: number },
+  methodology: ValuationMethodology,
+  dcf?: Partial<DcfParameters>
+): {
+  carbonRiskDiscount: number;
+  impliedCarbonPrice: number;
+} {
+  return methodology === 'dcf'
+    ? calculateImpliedCarbonPriceDCF(climateMetrics, baselineMetrics, dcf)
+    : calculateCarbonRiskDiscount(climateMetrics, baselineMetrics);
+}
+
+/**
+ * Convert implied carbon price to annual decarbonization rate along a
+ * scenario curve. The built-in curve:
  * - $50/tCO2: ~2% annual reduction (slow transition)
  * - $100/tCO2: ~4% annual reduction (moderate transition)
- * - $200/tCO2: ~7% annual reduction (rapid transition)
+ * - $200/tCO2: ~7% annual reduction (rapid transition), capped above
  */
-export function calculateImpliedDecarbRate(impliedCarbonPrice: number): number {
-  // Piecewise linear interpolation
-  if (impliedCarbonPrice <= 0) return 0;
-  if (impliedCarbonPrice <= 50) return (impliedCarbonPrice / 50) * 0.02;
-  if (impliedCarbonPrice <= 100) return 0.02 + ((impliedCarbonPrice - 50) / 50) * 0.02;
-  if (impliedCarbonPrice <= 200) return 0.04 + ((impliedCarbonPrice - 100) / 100) * 0.03;
-  
-  // Above $200/tCO2, cap at 7% annual reduction
-  return Math.min(0.07, 0.07 + ((impliedCarbonPrice - 200) / 200) * 0.01);
+export function calculateImpliedDecarbRate(
+  impliedCarbonPrice: number,
+  curve: ScenarioCurve = DEFAULT_SCENARIO_CURVE
+): number {
+  return interpolateDecarbRate(curve, impliedCarbonPrice);
+}
+
+/**
+ * Decarbonization rates of a stored result (and its band) along another
+ * curve, from the stored implied carbon prices
+ */
+export function recalculateDecarbRates(
+  result: {
+    impliedCarbonPrice: number | null;
+    impliedCarbonPriceLower: number | null;
+    impliedCarbonPriceUpper: number | null;
+  },
+  curve: ScenarioCurve
+): { impliedDecarbRate: number | null; impliedDecarbRateLower: number | null; impliedDecarbRateUpper: number | null } {
+  const rate = (price: number | null) => (price === null ? null : calculateImpliedDecarbRate(price, curve));
+  return {
+    impliedDecarbRate: rate(result.impliedCarbonPrice),
+    impliedDecarbRateLower: rate(result.impliedCarbonPriceLower),
+    impliedDecarbRateUpper: rate(result.impliedCarbonPriceUpper),
+  };
+}
+
+type RegressionRun = { fit: RegressionCarbonPrice; interval: BootstrapInterval | null } | null;
+
+/**
+ * Regression carbon price for a date and region, with its bootstrap band when
+ * requested. Resampling strata are the whole cross-section or each sector.
+ */
+function runCarbonPriceRegression(
+  companiesWithData: CompanyWithTimeSeries[],
+  date: Date,
+  parameters: AnalysisParameters,
+  geography?: string
+): RegressionRun {
+  const rows = collectRegressionRows(companiesWithData, date, parameters, geography);
+  const estimate = (sample: RegressionRow[]) =>
+    estimateRegressionCarbonPrice(sample, parameters.regressionDependent, parameters.winsorize, parameters.winsorizePercentile);
+
+  const fit = estimate(rows);
+  if (!fit) return null;
+
+  const interval = parameters.bootstrap
+    ? bootstrapEstimate(rows, [], parameters.bootstrap, seedFromDate(date), row => row.sector, sample => estimate(sample)?.impliedCarbonPrice ?? null)
+    : null;
+
+  return { fit, interval };
 }
 
+/** classifyCompaniesSectorRelative result key of each investment type */
+const CLASSIFICATION_KEYS = {
+  low_carbon: 'lowCarbon',
+  decarbonizing: 'decarbonizing',
+  solutions: 'solutions',
+  credible_decarbonizers: 'credibleDecarbonizers',
+} as const;
+
 /**
- * Analyze portfolios for a specific date and investment type
+ * Portfolio sizes behind an analysis, with its metrics when a price could be
+ * produced; sizes are reported either way so empty slices can be flagged
+ */
+export interface PortfolioAnalysis {
+  metrics: PortfolioMetrics | null;
+  portfolioSize: number; // Climate companies with usable data
+  baselineSize: number; // Baseline companies with usable data
+}
+
+/**
+ * Analyze portfolios for a specific date and investment type.
+ * The regression result does not depend on the investment type, so callers
+ * looping over types can pass a cache keyed by date and region.
  */
 export function analyzePortfolio(
-  investmentType: 'low_carbon' | 'decarbonizing' | 'solutions',
+  investmentType: 'low_carbon' | 'decarbonizing' | 'solutions' | 'credible_decarbonizers',
   companiesWithData: CompanyWithTimeSeries[],
   date: Date,
   parameters: AnalysisParameters,
   sector?: string,
-  geography?: string
-): PortfolioMetrics | null {
+  geography?: string,
+  regressionCache?: Map<string, RegressionRun>
+): PortfolioAnalysis {
+  // Sector slices classify, price and set the baseline within that sector only
+  const sectorField = parameters.sectorGranularity === 'industry' ? 'industry' : 'sector';
+  const sliceCompanies = sector
+    ? companiesWithData.filter(c => c.company[sectorField] === sector)
+    : companiesWithData;
+
   // Classify companies using sector-relative approach
   const classification = classifyCompaniesSectorRelative(
-    companiesWithData,
+    sliceCompanies,
     date,
     parameters,
     geography
   );
 
   // Get company IDs for the investment type
-  const climateCompanies = classification[investmentType === 'low_carbon' ? 'lowCarbon' : investmentType];
-  const baselineCompanies = classification.baseline;
+  const climateCompanies = classification[CLASSIFICATION_KEYS[investmentType]];
+  const climateSet = new Set(climateCompanies);
+  const baselineCompanies = classification.baseline.filter(id => !climateSet.has(id));
 
   console.log(`[analyzePortfolio] ${investmentType} on ${date.toISOString().split('T')[0]} (sector=${sector}, geo=${geography}):`);
   console.log(`  - Climate companies: ${climateCompanies.length}`);
   console.log(`  - Baseline companies: ${baselineCompanies.length}`);
-  console.log(`  - Total companies with data: ${companiesWithData.length}`);
+  console.log(`  - Total companies with data: ${sliceCompanies.length}`);
+
+  // Calculate metrics for both portfolios
+  const includeEstimates = parameters.includeEstimatedEmissions ?? true;
+  const denominator = parameters.intensityDenominator ?? DEFAULT_INTENSITY_DENOMINATOR;
+  const climateRows = collectPortfolioRows(climateCompanies, sliceCompanies, date, parameters.includeScope3, includeEstimates, denominator);
+  const baselineRows = collectPortfolioRows(baselineCompanies, sliceCompanies, date, parameters.includeScope3, includeEstimates, denominator);
+  const unpriced: PortfolioAnalysis = {
+    metrics: null,
+    portfolioSize: climateRows.length,
+    baselineSize: baselineRows.length,
+  };
 
-  if (climateCompanies.length === 0 || baselineCompanies.length === 0) {
+  if (climateRows.length === 0 || baselineRows.length === 0) {
     console.log(`  - SKIPPED: Not enough companies`);
-    return null;
+    return unpriced;
   }
 
-  // Calculate metrics for both portfolios
-  const climateMetrics = calculatePortfolioMetrics(
-    climateCompanies,
-    companiesWithData,
-    date,
-    parameters.includeScope3,
-    parameters.winsorize,
-    parameters.winsorizePercentile
-  );
-  const baselineMetrics = calculatePortfolioMetrics(
-    baselineCompanies,
-    companiesWithData,
-    date,
-    parameters.includeScope3,
-    parameters.winsorize,
-    parameters.winsorizePercentile
-  );
+  const weighting = parameters.weighting ?? 'equal';
+  const climateMetrics = summarizePortfolioRows(climateRows, parameters.winsorize, parameters.winsorizePercentile, weighting);
+  const baselineMetrics = summarizePortfolioRows(baselineRows, parameters.winsorize, parameters.winsorizePercentile, weighting);
 
   if (!climateMetrics || !baselineMetrics) {
-    return null;
+    return unpriced;
   }
 
   // Calculate carbon risk discount and implied carbon price
-  let carbonRiskDiscount: number;
-  let impliedCarbonPrice: number;
-
-  if (parameters.methodology === 'dcf') {
-    const dcfResult = calculateImpliedCarbonPriceDCF(climateMetrics, baselineMetrics);
-    carbonRiskDiscount = dcfResult.carbonRiskDiscount;
-    impliedCarbonPrice = dcfResult.impliedCarbonPrice;
-  } else {
-    const relativeResult = calculateCarbonRiskDiscount(climateMetrics, baselineMetrics);
-    carbonRiskDiscount = relativeResult.carbonRiskDiscount;
-    impliedCarbonPrice = relativeResult.impliedCarbonPrice;
+  let { carbonRiskDiscount, impliedCarbonPrice } = priceCarbonRisk(climateMetrics, baselineMetrics, parameters.methodology, parameters.dcf);
+  let interval: BootstrapInterval | null = null;
+
+  if (parameters.methodology === 'regression') {
+    // The discount stays the observed portfolio comparison; the price is regressed over every
+    // company in the slice, so all investment types of a slice share it
+    const cacheKey = `${date.getTime()}|${sector ?? ''}|${geography ?? ''}|${parameters.bootstrap ? 'bootstrap' : ''}`;
+    const regression = regressionCache?.has(cacheKey)
+      ? regressionCache.get(cacheKey)!
+      : runCarbonPriceRegression(sliceCompanies, date, parameters, geography);
+    regressionCache?.set(cacheKey, regression);
+
+    if (!regression) {
+      console.log(`  - SKIPPED: Regression not estimable`);
+      return unpriced;
+    }
+    impliedCarbonPrice = regression.fit.impliedCarbonPrice;
+    interval = regression.interval;
+  } else if (parameters.bootstrap) {
+    // Resample companies within each portfolio (or each sector of it) for a confidence band
+    interval = bootstrapEstimate(
+      climateRows,
+      baselineRows,
+      parameters.bootstrap,
+      seedFromDate(date),
+      row => row.sector,
+      (climateSample, baselineSample) => {
+        const climate = summarizePortfolioRows(climateSample, parameters.winsorize, parameters.winsorizePercentile, weighting);
+        const baseline = summarizePortfolioRows(baselineSample, parameters.winsorize, parameters.winsorizePercentile, weighting);
+        if (!climate || !baseline) return null;
+        return priceCarbonRisk(climate, baseline, parameters.methodology, parameters.dcf).impliedCarbonPrice;
+      }
+    );
   }
 
   // Calculate implied decarbonization rate
-  const impliedDecarbRate = calculateImpliedDecarbRate(impliedCarbonPrice);
+  const scenarioCurve = parameters.scenarioCurve ?? DEFAULT_SCENARIO_CURVE;
+  const impliedDecarbRate = calculateImpliedDecarbRate(impliedCarbonPrice, scenarioCurve);
 
-  return {
+  const metrics: PortfolioMetrics = {
     date,
     investmentType,
     geography,
@@ -474,14 +976,35 @@ export function analyzePortfolio(
     carbonRiskDiscount,
     impliedCarbonPrice,
     impliedDecarbRate,
+    ...(interval && {
+      impliedCarbonPriceLower: interval.lower,
+      impliedCarbonPriceUpper: interval.upper,
+      impliedCarbonPriceStdError: interval.standardError,
+      impliedDecarbRateLower: calculateImpliedDecarbRate(interval.lower, scenarioCurve),
+      impliedDecarbRateUpper: calculateImpliedDecarbRate(interval.upper, scenarioCurve),
+    }),
+    ...(parameters.methodology === 'dcf' && {
+      dcfSensitivities: calculateDcfSensitivities(climateMetrics, baselineMetrics, parameters.dcf),
+    }),
     portfolioSize: climateMetrics.portfolioSize,
+    baselineSize: baselineMetrics.portfolioSize,
     companies: climateCompanies,
     methodology: parameters.methodology,
+    weighting,
+    bucketCount: (parameters.buckets ?? DEFAULT_QUANTILE_BUCKETS).count,
+    bucketIndex: investmentType === 'low_carbon' && parameters.thresholds.tertileApproach
+      ? (parameters.buckets ?? DEFAULT_QUANTILE_BUCKETS).lowBucket
+      : null,
   };
+
+  return { metrics, portfolioSize: metrics.portfolioSize, baselineSize: metrics.baselineSize };
 }
 
 /**
- * Run full analysis across all dates and dimensions
+ * Run full analysis across all dates and dimensions: the aggregate, each
+ * sector, each region and each sector × region cell. Slices with too few
+ * companies, or none to price, are returned as insufficient samples rather
+ * than results.
  */
 export function runFullAnalysis(
   companiesWithData: CompanyWithTimeSeries[],
@@ -491,64 +1014,86 @@ export function runFullAnalysis(
     sectors?: string[];
     geographies?: string[];
   }
-): PortfolioMetrics[] {
+): { results: PortfolioMetrics[]; insufficientSamples: InsufficientSample[] } {
   const results: PortfolioMetrics[] = [];
+  const insufficientSamples = new Map<string, InsufficientSample>();
 
-  const investmentTypes: ('low_carbon' | 'decarbonizing' | 'solutions')[] = [
+  const investmentTypes: ('low_carbon' | 'decarbonizing' | 'solutions' | 'credible_decarbonizers')[] = [
     'low_carbon',
     'decarbonizing',
-    'solutions'
+    'solutions',
+    'credible_decarbonizers'
   ];
 
   // Map geographies to regions
   const regions = dimensions.geographies?.map(g => mapGeographyToRegion(g)) || [];
   const uniqueRegions = Array.from(new Set(regions));
 
+  // Sector, region and sector × region cells
+  const slices: { sector?: string; geography?: string }[] = [
+    ...(dimensions.sectors ?? []).map(sector => ({ sector })),
+    ...uniqueRegions.map(geography => ({ geography })),
+    ...(dimensions.sectors ?? []).flatMap(sector => uniqueRegions.map(geography => ({ sector, geography }))),
+  ];
+
+  // Bootstrapping every sector and region slice is too slow; bands are for the aggregate series
+  const sliceParameters: AnalysisParameters = { ...parameters, bootstrap: undefined };
+  const regressionCache = new Map<string, RegressionRun>();
+
   for (const date of dates) {
     for (const investmentType of investmentTypes) {
       // Aggregate analysis (no sector/geography filter)
-      const aggregateResult = analyzePortfolio(
+      const { metrics: aggregateResult } = analyzePortfolio(
         investmentType,
         companiesWithData,
         date,
-        parameters
+        parameters,
+        undefined,
+        undefined,
+        regressionCache
       );
       if (aggregateResult) {
         results.push(aggregateResult);
       }
 
-      // By sector
-      if (dimensions.sectors) {
-        for (const sector of dimensions.sectors) {
-          const sectorResult = analyzePortfolio(
-            investmentType,
-            companiesWithData,
-            date,
-            parameters,
-            sector
-          );
-          if (sectorResult) {
-            results.push(sectorResult);
-          }
-        }
-      }
-
-      // By region
-      for (const region of uniqueRegions) {
-        const regionResult = analyzePortfolio(
+      for (const { sector, geography } of slices) {
+        const sliceResult = analyzePortfolio(
           investmentType,
           companiesWithData,
           date,
-          parameters,
-          undefined,
-          region
+          sliceParameters,
+          sector,
+          geography,
+          regressionCache
         );
-        if (regionResult) {
-          results.push(regionResult);
+
+        if (
+          !sliceResult.metrics ||
+          sliceResult.portfolioSize < MIN_SLICE_SAMPLE ||
+          sliceResult.baselineSize < MIN_SLICE_SAMPLE
+        ) {
+          const key = `${investmentType}|${sector ?? ''}|${geography ?? ''}`;
+          const flagged = insufficientSamples.get(key);
+          if (flagged) {
+            flagged.dateCount++;
+            flagged.minPortfolioSize = Math.min(flagged.minPortfolioSize, sliceResult.portfolioSize);
+            flagged.minBaselineSize = Math.min(flagged.minBaselineSize, sliceResult.baselineSize);
+          } else {
+            insufficientSamples.set(key, {
+              investmentType,
+              sector,
+              geography,
+              dateCount: 1,
+              minPortfolioSize: sliceResult.portfolioSize,
+              minBaselineSize: sliceResult.baselineSize,
+            });
+          }
+        } else {
+          results.push(sliceResult.metrics);
         }
       }
     }
   }
 
-  return results;
+  return { results, insufficientSamples: Array.from(insufficientSamples.values()) };
 }
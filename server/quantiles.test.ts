@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { assignQuantileBuckets, bucketLabel, quantileBucketAt, tercileAssignmentForBucket } from "@shared/quantiles";
+
+describe("Quantile Buckets", () => {
+  describe("assignQuantileBuckets", () => {
+    it("should give the remainder to the middle tercile", () => {
+      expect(assignQuantileBuckets(10, 3)).toEqual([0, 0, 0, 1, 1, 1, 1, 2, 2, 2]);
+    });
+
+    it("should keep the outer buckets equal in size", () => {
+      const buckets = assignQuantileBuckets(23, 5);
+      const sizes = [0, 1, 2, 3, 4].map(b => buckets.filter(v => v === b).length);
+
+      expect(sizes).toEqual([4, 5, 5, 5, 4]);
+      expect(buckets).toEqual([...buckets].sort((a, b) => a! - b!));
+    });
+
+    it("should leave an odd middle item unassigned with two buckets", () => {
+      expect(assignQuantileBuckets(5, 2)).toEqual([0, 0, null, 1, 1]);
+      expect(assignQuantileBuckets(4, 2)).toEqual([0, 0, 1, 1]);
+    });
+
+    it("should leave buckets empty when there are fewer items than buckets", () => {
+      expect(assignQuantileBuckets(3, 10)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe("quantileBucketAt", () => {
+    it("should bucket a stored rank for any count", () => {
+      expect([0, 4, 5, 9].map(rank => quantileBucketAt(rank, 10, 5))).toEqual([0, 2, 2, 4]);
+      expect([0, 4, 9].map(rank => quantileBucketAt(rank, 10, 10))).toEqual([0, 4, 9]);
+      expect(quantileBucketAt(2, 5, 2)).toBeNull();
+    });
+
+    it("should leave unranked items without a bucket", () => {
+      expect(quantileBucketAt(null, null, 3)).toBeNull();
+    });
+  });
+
+  describe("labels", () => {
+    it("should number buckets from one", () => {
+      expect(bucketLabel(9, 10)).toBe("Decile 10");
+      expect(bucketLabel(0, 3)).toBe("Tercile 1");
+    });
+
+    it("should map outer buckets to bottom and top", () => {
+      expect([0, 1, 2, 3].map(b => tercileAssignmentForBucket(b, 4))).toEqual(["bottom", "middle", "middle", "top"]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { TimeSeries } from "../drizzle/schema";
+import type { CompanyWithTimeSeries } from "./portfolioAnalyzerV2";
+import {
+  calculateRealisedRates,
+  summarizeRealisedRates,
+  yearEndDates,
+  type PortfoliosByDate,
+} from "./realisedDecarbonization";
+
+const OPTIONS = { includeScope3: false, includeEstimates: false };
+
+/**
+ * Company with one December observation per year, starting in 2015
+ */
+function company(
+  id: number,
+  sector: string,
+  geography: string,
+  emissions: (number | null)[]
+): CompanyWithTimeSeries {
+  return {
+    company: {
+      id,
+      isin: `XX${id}`,
+      name: `Company ${id}`,
+      geography,
+      sector,
+      industry: null,
+      sdgAlignmentScore: null,
+      emissionTarget2050: null,
+      createdAt: new Date(),
+    },
+    timeSeries: emissions.map((scope1, i) => ({
+      id: 0,
+      companyId: id,
+      date: new Date(Date.UTC(2015 + i, 11, 31)),
+      totalReturnIndex: 100,
+      marketCap: 1_000_000,
+      priceEarnings: 15,
+      scope1Emissions: scope1,
+      scope2Emissions: 0,
+      scope3Emissions: null,
+      scope1Source: "reported",
+      scope2Source: "reported",
+      createdAt: new Date(),
+    }) as TimeSeries),
+  };
+}
+
+describe("Realised Decarbonization", () => {
+  describe("yearEndDates", () => {
+    it("should keep the last observation date of each year", () => {
+      const data = company(1, "Tech", "US", [100, 90]);
+      data.timeSeries.push({ ...data.timeSeries[0], date: new Date("2015-06-30") });
+
+      expect(yearEndDates([data]).map(d => d.toISOString().slice(0, 10))).toEqual(["2015-12-31", "2016-12-31"]);
+    });
+  });
+
+  describe("calculateRealisedRates", () => {
+    it("should give equal CAGR and trend for a constant rate of decline", () => {
+      // 10% a year for five years
+      const rates = calculateRealisedRates([company(1, "Tech", "US", [1000, 900, 810, 729, 656.1, 590.49])], OPTIONS);
+
+      const fiveYear = rates.filter(r => r.window === 5);
+      expect(fiveYear).toHaveLength(1);
+      expect(fiveYear[0].date.getUTCFullYear()).toBe(2020);
+      expect(fiveYear[0].cagr).toBeCloseTo(0.1, 10);
+      expect(fiveYear[0].trend).toBeCloseTo(0.1, 10);
+
+      // 2018, 2019 and 2020 end a three-year window
+      expect(rates.filter(r => r.window === 3).map(r => r.date.getUTCFullYear())).toEqual([2018, 2019, 2020]);
+    });
+
+    it("should report rising emissions as a negative rate", () => {
+      const [rate] = calculateRealisedRates([company(1, "Tech", "US", [100, 110, 121, 133.1])], OPTIONS);
+
+      expect(rate.window).toBe(3);
+      expect(rate.cagr).toBeCloseTo(-0.1, 10);
+    });
+
+    it("should use only the end points for CAGR and every year for the trend", () => {
+      // Flat end points with a spike in between
+      const [rate] = calculateRealisedRates([company(1, "Tech", "US", [100, 200, 50, 100])], OPTIONS);
+
+      expect(rate.cagr).toBeCloseTo(0, 10);
+      expect(rate.trend).not.toBeCloseTo(0, 2);
+    });
+
+    it("should skip windows without emissions at the start", () => {
+      const rates = calculateRealisedRates([company(1, "Tech", "US", [null, 100, 90, 81])], OPTIONS);
+
+      expect(rates).toHaveLength(0);
+    });
+
+    it("should skip estimated emissions unless estimates are included", () => {
+      const data = company(1, "Tech", "US", [100, 90, 81, 72.9]);
+      data.timeSeries[0] = { ...data.timeSeries[0], scope1Source: "estimated" };
+
+      expect(calculateRealisedRates([data], OPTIONS)).toHaveLength(0);
+      expect(calculateRealisedRates([data], { ...OPTIONS, includeEstimates: true })).toHaveLength(1);
+    });
+  });
+
+  describe("summarizeRealisedRates", () => {
+    // 10%, 20% and 30% a year over three years
+    const companiesWithData = [
+      company(1, "Tech", "US", [1000, 900, 810, 729]),
+      company(2, "Tech", "UK", [1000, 800, 640, 512]),
+      company(3, "Energy", "UK", [1000, 700, 490, 343]),
+    ];
+    const rates = calculateRealisedRates(companiesWithData, OPTIONS);
+    const date = new Date(Date.UTC(2018, 11, 31));
+
+    it("should take medians for all companies, sectors and regions", () => {
+      const summaries = summarizeRealisedRates(rates, companiesWithData);
+      const find = (groupBy: string, group: string) => summaries.find(s => s.groupBy === groupBy && s.group === group)!;
+
+      expect(find("all", "All").cagr).toBeCloseTo(0.2, 10);
+      expect(find("all", "All").companyCount).toBe(3);
+      expect(find("sector", "Tech").cagr).toBeCloseTo(0.15, 10);
+      expect(find("sector", "Energy").cagr).toBeCloseTo(0.3, 10);
+      expect(find("region", "Europe").cagr).toBeCloseTo(0.25, 10);
+      expect(find("region", "North America").companyCount).toBe(1);
+      expect(summaries.some(s => s.groupBy === "investment_type")).toBe(false);
+    });
+
+    it("should group by investment type from the portfolios at the same date", () => {
+      const portfolios: PortfoliosByDate = new Map([
+        [date.getTime(), { low_carbon: [1, 2], decarbonizing: [3], solutions: [] }],
+      ]);
+      const summaries = summarizeRealisedRates(rates, companiesWithData, portfolios)
+        .filter(s => s.groupBy === "investment_type");
+
+      expect(summaries.map(s => s.group).sort()).toEqual(["decarbonizing", "low_carbon"]);
+      expect(summaries.find(s => s.group === "low_carbon")!.cagr).toBeCloseTo(0.15, 10);
+      expect(summaries.find(s => s.group === "decarbonizing")!.companyCount).toBe(1);
+    });
+  });
+});
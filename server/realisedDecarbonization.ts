@@ -0,0 +1,177 @@
+import { median, selectEmissions } from './emissionsEstimator';
+import { mapGeographyToRegion, type CompanyWithTimeSeries } from './portfolioAnalyzerV2';
+
+/**
+ * Realised decarbonization: how fast companies actually cut reported
+ * emissions over rolling windows of annual observations, to set against the
+ * rate markets imply from valuations (impliedDecarbRate).
+ *
+ * Rates are annual reductions as fractions, positive when emissions fall:
+ * the same sign convention as impliedDecarbRate.
+ */
+
+export const REALISED_WINDOWS = [3, 5] as const;
+
+export type RealisedWindow = (typeof REALISED_WINDOWS)[number];
+
+export interface RealisedRateOptions {
+  includeScope3: boolean;
+  includeEstimates: boolean;
+}
+
+export interface CompanyRealisedRate {
+  companyId: number;
+  /** Year-end date the window ends on */
+  date: Date;
+  window: RealisedWindow;
+  /** 1 - (end / start)^(1 / window) */
+  cagr: number;
+  /** 1 - exp(slope) of log emissions on year over the window's annual values */
+  trend: number;
+}
+
+export type RealisedGroupBy = 'all' | 'sector' | 'region' | 'investment_type';
+
+export interface RealisedRateSummary {
+  date: Date;
+  window: RealisedWindow;
+  groupBy: RealisedGroupBy;
+  group: string;
+  /** Medians across the group's companies */
+  cagr: number;
+  trend: number;
+  companyCount: number;
+}
+
+export type InvestmentType = 'low_carbon' | 'decarbonizing' | 'solutions' | 'credible_decarbonizers';
+
+/** Company ids in each climate portfolio, keyed by date time */
+export type PortfoliosByDate = Map<number, Record<InvestmentType, number[]>>;
+
+/**
+ * Last observation date of each calendar year, so every company is read at
+ * the same dates the analysis uses
+ */
+export function yearEndDates(companiesWithData: CompanyWithTimeSeries[]): Date[] {
+  const lastByYear = new Map<number, number>();
+  for (const { timeSeries } of companiesWithData) {
+    for (const ts of timeSeries) {
+      const year = ts.date.getUTCFullYear();
+      lastByYear.set(year, Math.max(lastByYear.get(year) ?? 0, ts.date.getTime()));
+    }
+  }
+  return Array.from(lastByYear.values()).sort((a, b) => a - b).map(t => new Date(t));
+}
+
+/**
+ * Slope of y on x by least squares; null when x doesn't vary
+ */
+function leastSquaresSlope(points: { x: number; y: number }[]): number | null {
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  return points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+}
+
+/**
+ * Realised rates for every company, year-end and window with positive
+ * emissions at both ends of the window. Years in between with no value are
+ * skipped by the trend fit.
+ */
+export function calculateRealisedRates(
+  companiesWithData: CompanyWithTimeSeries[],
+  options: RealisedRateOptions
+): CompanyRealisedRate[] {
+  const dates = yearEndDates(companiesWithData);
+  const rates: CompanyRealisedRate[] = [];
+
+  for (const { company, timeSeries } of companiesWithData) {
+    const byTime = new Map(timeSeries.map(ts => [ts.date.getTime(), ts]));
+
+    // Total emissions at each year-end, by calendar year
+    const emissionsByYear = new Map<number, number>();
+    for (const date of dates) {
+      const ts = byTime.get(date.getTime());
+      if (!ts) continue;
+      const { scope1, scope2, scope3 } = selectEmissions(ts, options.includeEstimates);
+      // A year missing an included scope would look like a drop in emissions
+      if (scope1 === null || scope2 === null || (options.includeScope3 && scope3 === null)) continue;
+      const total = scope1 + scope2 + (options.includeScope3 ? scope3! : 0);
+      if (total > 0) emissionsByYear.set(date.getUTCFullYear(), total);
+    }
+
+    for (const date of dates) {
+      const endYear = date.getUTCFullYear();
+      const end = emissionsByYear.get(endYear);
+      if (end === undefined) continue;
+
+      for (const window of REALISED_WINDOWS) {
+        const start = emissionsByYear.get(endYear - window);
+        if (start === undefined) continue;
+
+        const points: { x: number; y: number }[] = [];
+        for (let year = endYear - window; year <= endYear; year++) {
+          const value = emissionsByYear.get(year);
+          if (value !== undefined) points.push({ x: year, y: Math.log(value) });
+        }
+        const slope = leastSquaresSlope(points)!;
+
+        rates.push({
+          companyId: company.id,
+          date,
+          window,
+          cagr: 1 - Math.pow(end / start, 1 / window),
+          trend: 1 - Math.exp(slope),
+        });
+      }
+    }
+  }
+
+  return rates;
+}
+
+/**
+ * Median realised rates per date and window for all companies, each sector,
+ * each region and (given the portfolios) each investment type
+ */
+export function summarizeRealisedRates(
+  rates: CompanyRealisedRate[],
+  companiesWithData: CompanyWithTimeSeries[],
+  portfolios: PortfoliosByDate = new Map(),
+  sectorField: 'sector' | 'industry' = 'sector'
+): RealisedRateSummary[] {
+  const companyById = new Map(companiesWithData.map(({ company }) => [company.id, company]));
+  const groups = new Map<string, { date: Date; window: RealisedWindow; groupBy: RealisedGroupBy; group: string; rates: CompanyRealisedRate[] }>();
+
+  const add = (rate: CompanyRealisedRate, groupBy: RealisedGroupBy, group: string) => {
+    const key = `${rate.date.getTime()}|${rate.window}|${groupBy}|${group}`;
+    if (!groups.has(key)) groups.set(key, { date: rate.date, window: rate.window, groupBy, group, rates: [] });
+    groups.get(key)!.rates.push(rate);
+  };
+
+  for (const rate of rates) {
+    const company = companyById.get(rate.companyId);
+    if (!company) continue;
+
+    add(rate, 'all', 'All');
+    add(rate, 'sector', company[sectorField] ?? 'Unknown');
+    add(rate, 'region', mapGeographyToRegion(company.geography));
+
+    const portfolio = portfolios.get(rate.date.getTime());
+    if (portfolio) {
+      for (const investmentType of Object.keys(portfolio) as InvestmentType[]) {
+        if (portfolio[investmentType].includes(rate.companyId)) add(rate, 'investment_type', investmentType);
+      }
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ rates: groupRates, ...group }) => ({
+      ...group,
+      cagr: median(groupRates.map(r => r.cagr))!,
+      trend: median(groupRates.map(r => r.trend))!,
+      companyCount: groupRates.length,
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
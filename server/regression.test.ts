@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { defaultNeweyWestLags, dummyColumns, invertMatrix, neweyWestStandardError, ols } from "./regression";
+
+describe("Regression", () => {
+  describe("invertMatrix", () => {
+    it("should invert a non-singular matrix", () => {
+      const inverse = invertMatrix([[4, 2], [2, 3]])!;
+      expect(inverse[0][0]).toBeCloseTo(0.375);
+      expect(inverse[0][1]).toBeCloseTo(-0.25);
+      expect(inverse[1][1]).toBeCloseTo(0.5);
+    });
+
+    it("should return null for a singular matrix", () => {
+      expect(invertMatrix([[1, 2], [2, 4]])).toBeNull();
+    });
+  });
+
+  describe("ols", () => {
+    it("should recover coefficients of an exact linear relationship", () => {
+      const x = [1, 2, 3, 4, 5].map(v => [1, v, v * v]);
+      const y = [1, 2, 3, 4, 5].map(v => 2 + 3 * v - 0.5 * v * v);
+      const fit = ols(x, y)!;
+
+      expect(fit.coefficients[0]).toBeCloseTo(2);
+      expect(fit.coefficients[1]).toBeCloseTo(3);
+      expect(fit.coefficients[2]).toBeCloseTo(-0.5);
+      expect(fit.rSquared).toBeCloseTo(1);
+    });
+
+    it("should match the textbook slope standard error", () => {
+      const x = [1, 2, 3, 4].map(v => [1, v]);
+      const fit = ols(x, [1, 3, 2, 5])!;
+
+      // slope = 1.1, RSS = 2.7, sigma^2 = 1.35, Sxx = 5
+      expect(fit.coefficients[1]).toBeCloseTo(1.1);
+      expect(fit.standardErrors[1]).toBeCloseTo(Math.sqrt(1.35 / 5));
+    });
+
+    it("should return null for collinear columns or too few observations", () => {
+      expect(ols([[1, 1], [1, 1], [1, 1]], [1, 2, 3])).toBeNull();
+      expect(ols([[1, 0], [1, 1]], [1, 2])).toBeNull();
+    });
+  });
+
+  describe("neweyWestStandardError", () => {
+    it("should reduce to the plain standard error of the mean with zero lags", () => {
+      // Population variance 1.25 over 4 observations
+      expect(neweyWestStandardError([1, 2, 3, 4], 0)).toBeCloseTo(Math.sqrt(1.25 / 4));
+    });
+
+    it("should widen for positively autocorrelated series", () => {
+      const series = [1, 1.2, 1.1, 1.3, 2, 2.1, 2.2, 2.0, 1, 1.1];
+      expect(neweyWestStandardError(series, 3)).toBeGreaterThan(neweyWestStandardError(series, 0));
+    });
+
+    it("should pick the rule-of-thumb lag length", () => {
+      expect(defaultNeweyWestLags(100)).toBe(4);
+      expect(defaultNeweyWestLags(12)).toBe(2);
+    });
+  });
+
+  describe("dummyColumns", () => {
+    it("should drop the first sorted level as the reference", () => {
+      expect(dummyColumns(["Tech", "Energy", "Utilities", "Energy"])).toEqual([
+        [1, 0],
+        [0, 0],
+        [0, 1],
+        [0, 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Ordinary least squares for the cross-sectional valuation regressions.
+ * Design matrices are small (companies x a few dozen regressors), so the
+ * normal equations are solved directly by Gauss-Jordan elimination.
+ */
+
+export interface OlsResult {
+  coefficients: number[];
+  /** Conventional (homoskedastic) standard errors */
+  standardErrors: number[];
+  residuals: number[];
+  rSquared: number;
+  observations: number;
+}
+
+/** Pivots below this are treated as zero, i.e. the design is rank deficient */
+const SINGULAR_TOLERANCE = 1e-10;
+
+/**
+ * Invert a symmetric positive-definite matrix; null when it is singular
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(1, ...matrix.map((row, i) => Math.abs(row[i])));
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < SINGULAR_TOLERANCE * scale) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let c = 0; c < 2 * n; c++) a[col][c] /= p;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const factor = a[r][col];
+      for (let c = 0; c < 2 * n; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
+
+/**
+ * Regress y on the columns of x (include a column of ones for an intercept).
+ * Returns null when there are no residual degrees of freedom or the columns
+ * are collinear.
+ */
+export function ols(x: number[][], y: number[]): OlsResult | null {
+  const n = y.length;
+  const k = x[0]?.length ?? 0;
+  if (k === 0 || n <= k) return null;
+
+  const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const xty = new Array<number>(k).fill(0);
+  for (let i = 0; i < n; i++) {
+    const row = x[i];
+    for (let a = 0; a < k; a++) {
+      xty[a] += row[a] * y[i];
+      for (let b = a; b < k; b++) xtx[a][b] += row[a] * row[b];
+    }
+  }
+  for (let a = 0; a < k; a++) {
+    for (let b = 0; b < a; b++) xtx[a][b] = xtx[b][a];
+  }
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) return null;
+
+  const coefficients = inverse.map(row => row.reduce((sum, v, j) => sum + v * xty[j], 0));
+  const residuals = y.map((yi, i) => yi - x[i].reduce((sum, v, j) => sum + v * coefficients[j], 0));
+
+  const rss = residuals.reduce((sum, e) => sum + e * e, 0);
+  const mean = y.reduce((sum, v) => sum + v, 0) / n;
+  const tss = y.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+  const sigma2 = rss / (n - k);
+
+  return {
+    coefficients,
+    standardErrors: inverse.map((row, j) => Math.sqrt(Math.max(0, row[j] * sigma2))),
+    residuals,
+    rSquared: tss > 0 ? 1 - rss / tss : 0,
+    observations: n,
+  };
+}
+
+/**
+ * Dummy columns for a categorical variable, dropping the first level (sorted)
+ * as the reference so the design stays full rank alongside an intercept
+ */
+export function dummyColumns(levels: string[]): number[][] {
+  const categories = Array.from(new Set(levels)).sort().slice(1);
+  return levels.map(level => categories.map(category => (level === category ? 1 : 0)));
+}
+
+/**
+ * Default Newey-West lag length, floor(4 * (T / 100)^(2/9))
+ */
+export function defaultNeweyWestLags(observations: number): number {
+  return Math.floor(4 * Math.pow(observations / 100, 2 / 9));
+}
+
+/**
+ * Newey-West (Bartlett kernel) standard error of the mean of a time series,
+ * robust to autocorrelation up to `lags` periods
+ */
+export function neweyWestStandardError(series: number[], lags: number): number {
+  const n = series.length;
+  if (n < 2) return NaN;
+
+  const mean = series.reduce((sum, v) => sum + v, 0) / n;
+  const deviations = series.map(v => v - mean);
+  const autocovariance = (lag: number) => {
+    let sum = 0;
+    for (let t = lag; t < n; t++) sum += deviations[t] * deviations[t - lag];
+    return sum / n;
+  };
+
+  let longRunVariance = autocovariance(0);
+  for (let lag = 1; lag <= Math.min(lags, n - 1); lag++) {
+    longRunVariance += 2 * (1 - lag / (lags + 1)) * autocovariance(lag);
+  }
+
+  return Math.sqrt(Math.max(0, longRunVariance) / n);
+}
@@ -4,11 +4,171 @@ import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import * as db from "./db";
-import { parseExcelFile, processClimateData } from "./dataProcessor";
-import { computeTercilesForUpload } from "./tercileCalculator";
+import { computeUploadProgressPercent, enqueueUploadJob, loadColumnMapping } from "./uploadJobs";
+import { validateWorkbook } from "./workbookValidator";
 import { calculateTotalBasedCarbonPrice as computeCarbonPrice } from "./carbonPriceCalculator";
-import { runFullAnalysis, type AnalysisParameters, type CompanyWithTimeSeries, mapGeographyToRegion } from "./portfolioAnalyzerV2";
+import { classifyCompaniesSectorRelative, MIN_SLICE_SAMPLE, recalculateDecarbRates, runFullAnalysis, type AnalysisParameters, type CompanyWithTimeSeries, mapGeographyToRegion } from "./portfolioAnalyzerV2";
+import { selectEmissions } from "./emissionsEstimator";
+import { buildDataQualityReport } from "./dataQuality";
+import { calculateCarbonPremium } from "./carbonPremium";
+import { calculateRealisedRates, summarizeRealisedRates, type PortfoliosByDate } from "./realisedDecarbonization";
+import { calculateTargetCredibility, indexTargetCredibility } from "./targetCredibility";
+import { groupMetricsByCompany, groupSnapshotsByCompany } from "./companySnapshots";
+import { runBacktest } from "./backtest";
 import { storagePut } from "./storage";
+import { LOGICAL_SHEETS, type LogicalSheet } from "@shared/columnMapping";
+import { assignQuantileBuckets, DEFAULT_QUANTILE_BUCKETS, QUANTILE_COUNTS } from "@shared/quantiles";
+import { DEFAULT_SCENARIO_CURVE, isAscendingCurve, MAX_SCENARIO_POINTS, type ScenarioCurve } from "@shared/scenarios";
+import { DEFAULT_INTENSITY_DENOMINATOR, INTENSITY_DENOMINATORS, intensityDenominatorValue } from "@shared/intensity";
+import { MAX_COMPOSITE_METRICS } from "@shared/solutionsMetrics";
+import { DEFAULT_DCF_PARAMETERS } from "@shared/dcf";
+
+const nonEmpty = z.string().trim().min(1);
+
+const columnMappingSchema = z.object({
+  sheets: z.object({
+    ...(Object.fromEntries(LOGICAL_SHEETS.map(sheet => [sheet, nonEmpty])) as Record<LogicalSheet, typeof nonEmpty>),
+    Revenue: z.string().trim().optional(),
+    EVIC: z.string().trim().optional(),
+  }),
+  columns: z.object({
+    date: nonEmpty,
+    companyName: nonEmpty,
+    isin: nonEmpty,
+    geography: nonEmpty,
+    sector: nonEmpty,
+    industry: nonEmpty,
+    issuerIsin: nonEmpty,
+    sdgAlignmentScore: nonEmpty,
+    emissionTarget2050: nonEmpty,
+    fiscalYearEnd: z.string().trim().optional(),
+    snapshotDate: z.string().trim().optional(),
+    emissionsTemplate: nonEmpty.refine(
+      t => t.includes("{scope}") && t.includes("{year}"),
+      "Emissions template must contain {scope} and {year}"
+    ),
+  }),
+  suffixes: z.object({
+    totalReturn: nonEmpty,
+    marketValue: nonEmpty,
+    profit: nonEmpty,
+    revenue: z.string().trim().optional(),
+    evic: z.string().trim().optional(),
+  }),
+  peColumnPattern: nonEmpty.refine(pattern => {
+    try {
+      // Group 1 is read as the ISIN; matching the empty alternative counts the groups
+      return new RegExp(`${pattern}|`).exec("")!.length > 1;
+    } catch {
+      return false;
+    }
+  }, "PE column pattern must be a valid regular expression with a capture group for the ISIN"),
+  metricColumnPattern: z.string().trim().optional().refine(pattern => {
+    if (!pattern) return true;
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Metric column pattern must be a valid regular expression"),
+});
+
+const weightingSchema = z.enum(['equal', 'market_cap', 'sqrt_market_cap', 'aggregate']).default('equal');
+
+const thresholdsSchema = z.object({
+  tertileApproach: z.boolean().default(true),
+  lowCarbonPercentile: z.number().min(1).max(99).default(25),
+  decarbonizingTarget: z.number().default(-0.5),
+  solutionsScore: z.number().default(2),
+  solutionsCompositeScore: z.number().default(2),
+});
+
+const intensityDenominatorSchema = z.enum(INTENSITY_DENOMINATORS).default(DEFAULT_INTENSITY_DENOMINATOR);
+
+const solutionsCompositeSchema = z.array(z.object({
+  metric: nonEmpty,
+  weight: z.number(),
+})).max(MAX_COMPOSITE_METRICS).default([]);
+
+const bucketsSchema = z.object({
+  count: z.literal(QUANTILE_COUNTS),
+  lowBucket: z.number().int().min(0),
+  highBucket: z.number().int().min(0),
+}).refine(
+  b => b.lowBucket !== b.highBucket && b.lowBucket < b.count && b.highBucket < b.count,
+  "Low and high buckets must be two different buckets below the bucket count"
+).default(DEFAULT_QUANTILE_BUCKETS);
+
+const dcfSchema = z.object({
+  discountRate: z.number().min(0.01).max(0.2),
+  horizon: z.number().int().min(1).max(100),
+  startDelay: z.number().int().min(0).max(30),
+  priceGrowthRate: z.number().min(-0.1).max(0.2),
+  passThrough: z.number().min(0).max(0.95),
+}).default(DEFAULT_DCF_PARAMETERS);
+
+const scenarioCurveSchema = z.array(z.object({
+  carbonPrice: z.number().positive(),
+  decarbRate: z.number().min(0).max(1),
+})).min(1).max(MAX_SCENARIO_POINTS).refine(isAscendingCurve, "Carbon prices must be strictly increasing");
+
+/**
+ * Curve for a saved scenario; null is the built-in curve
+ */
+async function loadScenarioCurve(scenarioId: number | null | undefined): Promise<ScenarioCurve> {
+  if (scenarioId == null) return DEFAULT_SCENARIO_CURVE;
+  const scenario = await db.getDecarbonizationScenarioById(scenarioId);
+  if (!scenario) {
+    throw new Error(`Decarbonization scenario ${scenarioId} not found`);
+  }
+  return scenario.curve;
+}
+
+/**
+ * An upload's dated targets and SDG scores, by company id
+ */
+async function loadCompanySnapshots(uploadId: number) {
+  const { targets, scores } = await db.getCompanySnapshotsByUpload(uploadId);
+  return groupSnapshotsByCompany(targets, scores);
+}
+
+/**
+ * An upload's GreenRev metrics, by company id
+ */
+async function loadCompanyMetrics(uploadId: number) {
+  return groupMetricsByCompany(await db.getCompanyMetricsByUpload(uploadId));
+}
+
+/**
+ * An upload's companies with their full time series, snapshots and metrics
+ */
+async function loadCompaniesWithData(uploadId: number): Promise<CompanyWithTimeSeries[]> {
+  const [companies, timeSeries, snapshots, metrics] = await Promise.all([
+    db.getCompaniesByUpload(uploadId),
+    db.getTimeSeriesByUpload(uploadId),
+    loadCompanySnapshots(uploadId),
+    loadCompanyMetrics(uploadId),
+  ]);
+
+  const timeSeriesByCompany = new Map<number, typeof timeSeries>();
+  for (const ts of timeSeries) {
+    if (!timeSeriesByCompany.has(ts.companyId)) timeSeriesByCompany.set(ts.companyId, []);
+    timeSeriesByCompany.get(ts.companyId)!.push(ts);
+  }
+  return companies.map(company => ({
+    company,
+    timeSeries: timeSeriesByCompany.get(company.id) ?? [],
+    snapshots: snapshots.get(company.id),
+    metrics: metrics.get(company.id),
+  }));
+}
+
+const bootstrapSchema = z.object({
+  iterations: z.number().int().min(50).max(2000),
+  confidenceLevel: z.number().int().min(50).max(99),
+  strata: z.enum(['tercile', 'sector']),
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -47,6 +207,24 @@ export const appRouter = router({
         };
       }),
 
+    /**
+     * Validate an uploaded workbook without ingesting it
+     */
+    validateWorkbook: publicProcedure
+      .input(z.object({
+        fileUrl: z.string(),
+        mappingProfileId: z.number().nullable().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const mapping = await loadColumnMapping(input.mappingProfileId);
+        const response = await fetch(input.fileUrl);
+        if (!response.ok) {
+          throw new Error(`Failed to download file from S3: ${response.statusText}`);
+        }
+        const buffer = Buffer.from(await response.arrayBuffer());
+        return validateWorkbook(buffer, mapping);
+      }),
+
     /**
      * Process uploaded file from S3
      */
@@ -55,6 +233,15 @@ export const appRouter = router({
         filename: z.string(),
         fileKey: z.string(),
         fileUrl: z.string(),
+        mappingProfileId: z.number().nullable().optional(),
+        publicationLagMonths: z.number().int().min(0).max(36).optional(),
+        fiscalYearEndFileUrl: z.string().nullable().optional(),
+        estimationOptions: z.object({
+          interpolate: z.boolean(),
+          carryForward: z.boolean(),
+          maxAgeMonths: z.number().int().min(1).max(120),
+          sectorMedian: z.boolean(),
+        }).optional(),
       }))
       .mutation(async ({ input }) => {
         const userId = 1; // Default user ID for public access
@@ -66,78 +253,16 @@ export const appRouter = router({
           fileKey: input.fileKey,
           fileUrl: input.fileUrl,
           status: 'processing',
+          mappingProfileId: input.mappingProfileId ?? null,
+          publicationLagMonths: input.publicationLagMonths,
+          fiscalYearEndFileUrl: input.fiscalYearEndFileUrl ?? null,
+          estimationOptions: input.estimationOptions ?? null,
         });
 
         console.log(`[Upload ${uploadId}] File uploaded to S3: ${input.fileUrl}`);
 
-        // Process file asynchronously
-        (async () => {
-          try {
-            console.log(`[Upload ${uploadId}] Downloading file from S3...`);
-            // Download file from S3
-            const response = await fetch(input.fileUrl);
-            if (!response.ok) {
-              throw new Error(`Failed to download file from S3: ${response.statusText}`);
-            }
-            const arrayBuffer = await response.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-            console.log(`[Upload ${uploadId}] Downloaded ${buffer.length} bytes`);
-
-            console.log(`[Upload ${uploadId}] Parsing Excel file...`);
-            // Parse Excel file
-            const rawData = parseExcelFile(buffer);
-
-            console.log(`[Upload ${uploadId}] Processing climate data...`);
-            // Process data
-            const processedData = processClimateData(rawData);
-            console.log(`[Upload ${uploadId}] Parsed ${processedData.stats.totalCompanies} companies, ${processedData.timeSeries.length} time series records.`);
-
-            // Insert companies
-            console.log(`[Upload ${uploadId}] Inserting ${processedData.companies.length} companies...`);
-            for (const company of processedData.companies) {
-              await db.upsertCompany(company);
-            }
-            console.log(`[Upload ${uploadId}] Companies inserted.`);
-
-            // Get company IDs
-            const companies = await db.getAllCompanies();
-            const isinToId = new Map(companies.map(c => [c.isin, c.id!]));
-
-            // Insert time series with correct company IDs in batches
-            console.log(`[Upload ${uploadId}] Preparing ${processedData.timeSeries.length} time series records...`);
-            const timeSeriesWithIds = processedData.timeSeries
-              .map(ts => {
-                const companyIsin = processedData.companies[ts.companyId - 1]?.isin;
-                if (!companyIsin) return null;
-                const actualCompanyId = isinToId.get(companyIsin);
-                if (!actualCompanyId) return null;
-                return { ...ts, companyId: actualCompanyId };
-              })
-              .filter((ts): ts is NonNullable<typeof ts> => ts !== null);
-
-            console.log(`[Upload ${uploadId}] Inserting ${timeSeriesWithIds.length} time series records in batches...`);
-            await db.insertTimeSeriesBatch(timeSeriesWithIds);
-            console.log(`[Upload ${uploadId}] Time series insertion completed.`);
-
-            // Compute tercile assignments
-            console.log(`[Upload ${uploadId}] Computing tercile assignments...`);
-            await computeTercilesForUpload(uploadId);
-            console.log(`[Upload ${uploadId}] Tercile computation completed.`);
-
-            // Update upload status
-            console.log(`[Upload ${uploadId}] Processing completed successfully.`);
-            await db.updateDataUploadStatus(uploadId, 'completed', {
-              companiesCount: processedData.stats.totalCompanies,
-              timePeriodsCount: processedData.stats.totalTimePeriods,
-            });
-          } catch (error) {
-            console.error(`[Upload ${uploadId}] Error processing upload:`, error);
-            console.error(`[Upload ${uploadId}] Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
-            await db.updateDataUploadStatus(uploadId, 'failed', {
-              errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            });
-          }
-        })();
+        // Queue for background processing; the worker survives restarts
+        await enqueueUploadJob(uploadId);
 
         return { uploadId, status: 'processing' };
       }),
@@ -159,6 +284,59 @@ export const appRouter = router({
       .query(async ({ input }) => {
         return await db.getDataUploadById(input.uploadId);
       }),
+
+    /**
+     * Get processing progress (current stage, rows done/total and overall percentage).
+     * Polled by the Upload and Dashboard pages while an upload is processing.
+     */
+    getUploadProgress: publicProcedure
+      .input(z.object({ uploadId: z.number() }))
+      .query(async ({ input }) => {
+        const upload = await db.getDataUploadById(input.uploadId);
+        if (!upload) return null;
+
+        return {
+          uploadId: upload.id,
+          status: upload.status,
+          stage: upload.progressStage,
+          rowsDone: upload.progressRowsDone,
+          rowsTotal: upload.progressRowsTotal,
+          percent: computeUploadProgressPercent(
+            upload.status,
+            upload.progressStage,
+            upload.progressRowsDone,
+            upload.progressRowsTotal
+          ),
+          errorMessage: upload.errorMessage,
+        };
+      }),
+
+    /**
+     * Coverage heatmap, outlier flags and per-filter drop counts for an upload
+     */
+    getQualityReport: publicProcedure
+      .input(z.object({
+        uploadId: z.number(),
+        includeScope3: z.boolean().default(false),
+        includeEstimatedEmissions: z.boolean().default(true),
+      }))
+      .query(async ({ input }) => {
+        const upload = await db.getDataUploadById(input.uploadId);
+        if (!upload) return null;
+
+        // Same tercile variant the carbon price calculation reads
+        const includeEstimates = input.includeEstimatedEmissions && upload.estimatedValuesCount > 0;
+        const [companies, timeSeries, terciles] = await Promise.all([
+          db.getCompaniesByUpload(input.uploadId),
+          db.getTimeSeriesByUpload(input.uploadId),
+          db.getCompanyTerciles(input.uploadId, "sector_relative", input.includeScope3, includeEstimates),
+        ]);
+
+        return buildDataQualityReport(companies, timeSeries, terciles, {
+          includeScope3: input.includeScope3,
+          includeEstimates,
+        });
+      }),
   }),
 
   analysis: router({
@@ -170,20 +348,31 @@ export const appRouter = router({
         uploadId: z.number(),
         parameters: z.object({
           includeScope3: z.boolean().default(false),
-          methodology: z.enum(['relative', 'dcf']).default('relative'),
+          methodology: z.enum(['relative', 'dcf', 'regression']).default('relative'),
+          regressionDependent: z.enum(['log_pe', 'earnings_yield']).default('log_pe'),
           sectorGranularity: z.enum(['sector', 'industry']).default('sector'),
-          thresholds: z.object({
-            tertileApproach: z.boolean().default(true),
-          }),
+          thresholds: thresholdsSchema,
+          weighting: weightingSchema,
+          buckets: bucketsSchema,
+          intensityDenominator: intensityDenominatorSchema,
+          solutionsComposite: solutionsCompositeSchema,
+          includeEstimatedEmissions: z.boolean().default(true),
+          bootstrap: bootstrapSchema.optional(),
+          scenarioId: z.number().nullable().default(null),
+          dcf: dcfSchema,
         }),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
       }))
       .mutation(async ({ input }) => {
         const { uploadId, parameters, startDate, endDate } = input;
+        const { scenarioId, ...analysisParameters } = parameters;
+        const scenarioCurve = await loadScenarioCurve(scenarioId);
 
-        // Get all companies and their time series
-        const companies = await db.getAllCompanies();
+        // Get the upload's companies, their time series, dated targets and SDG scores, and metrics
+        const companies = await db.getCompaniesByUpload(uploadId);
+        const snapshots = await loadCompanySnapshots(uploadId);
+        const metrics = await loadCompanyMetrics(uploadId);
         const companiesWithData: CompanyWithTimeSeries[] = [];
 
         const start = startDate ? new Date(startDate) : undefined;
@@ -191,7 +380,7 @@ export const appRouter = router({
 
         for (const company of companies) {
           const timeSeries = await db.getTimeSeriesByCompany(company.id!, start, end);
-          companiesWithData.push({ company, timeSeries });
+          companiesWithData.push({ company, timeSeries, snapshots: snapshots.get(company.id), metrics: metrics.get(company.id) });
         }
 
         // Get unique dates
@@ -210,10 +399,14 @@ export const appRouter = router({
         const geographies = Array.from(new Set(rawGeographies.map(g => mapGeographyToRegion(g))));
 
         // Run analysis
-        const results = runFullAnalysis(
+        const { results, insufficientSamples } = runFullAnalysis(
           companiesWithData,
           dates,
-          parameters as AnalysisParameters,
+          {
+            ...(analysisParameters as AnalysisParameters),
+            scenarioCurve,
+            targetCredibility: indexTargetCredibility(calculateTargetCredibility(companiesWithData)),
+          },
           { sectors, geographies }
         );
 
@@ -233,7 +426,43 @@ export const appRouter = router({
             valuationPremium: result.carbonRiskDiscount,
             impliedCarbonPrice: result.impliedCarbonPrice,
             impliedDecarbRate: result.impliedDecarbRate,
+            impliedCarbonPriceLower: result.impliedCarbonPriceLower ?? null,
+            impliedCarbonPriceUpper: result.impliedCarbonPriceUpper ?? null,
+            impliedCarbonPriceStdError: result.impliedCarbonPriceStdError ?? null,
+            impliedDecarbRateLower: result.impliedDecarbRateLower ?? null,
+            impliedDecarbRateUpper: result.impliedDecarbRateUpper ?? null,
             portfolioSize: result.portfolioSize,
+            weighting: result.weighting,
+            bucketCount: result.bucketCount,
+            bucketIndex: result.bucketIndex,
+            scenarioId,
+            dcfParameters: parameters.methodology === 'dcf' ? parameters.dcf : null,
+            dcfSensitivities: result.dcfSensitivities ?? null,
+            intensityDenominator: parameters.intensityDenominator,
+          });
+        }
+
+        // Slices below the minimum sample are reported, not stored
+        return { success: true, resultsCount: results.length, insufficientSamples, minSliceSample: MIN_SLICE_SAMPLE };
+      }),
+
+    /**
+     * Recompute stored decarbonization rates along another scenario curve,
+     * from the stored implied carbon prices, without re-running the analysis
+     */
+    applyScenario: publicProcedure
+      .input(z.object({
+        uploadId: z.number(),
+        scenarioId: z.number().nullable(),
+      }))
+      .mutation(async ({ input }) => {
+        const curve = await loadScenarioCurve(input.scenarioId);
+        const results = await db.getAnalysisResults(input.uploadId);
+
+        for (const result of results) {
+          await db.updateAnalysisResultDecarbRates(result.id, {
+            scenarioId: input.scenarioId,
+            ...recalculateDecarbRates(result, curve),
           });
         }
 
@@ -246,7 +475,7 @@ export const appRouter = router({
     getResults: publicProcedure
       .input(z.object({
         uploadId: z.number(),
-        investmentType: z.enum(['low_carbon', 'decarbonizing', 'solutions']).optional(),
+        investmentType: z.enum(['low_carbon', 'decarbonizing', 'solutions', 'credible_decarbonizers']).optional(),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
         geography: z.string().optional(),
@@ -268,24 +497,39 @@ export const appRouter = router({
     /**
      * Get available dimensions (sectors, geographies)
      */
-    getDimensions: publicProcedure.query(async () => {
-      const companies = await db.getAllCompanies();
+    getDimensions: publicProcedure
+      .input(z.object({ uploadId: z.number() }))
+      .query(async ({ input }) => {
+        const companies = await db.getCompaniesByUpload(input.uploadId);
 
-      const sectors = Array.from(new Set(companies.map(c => c.sector).filter(Boolean))).sort();
-      const geographies = Array.from(new Set(companies.map(c => c.geography).filter(Boolean))).sort();
+        const sectors = Array.from(new Set(companies.map(c => c.sector).filter(Boolean))).sort();
+        const geographies = Array.from(new Set(companies.map(c => c.geography).filter(Boolean))).sort();
 
-      return { sectors, geographies };
-    }),
+        return { sectors, geographies };
+      }),
+
+    /**
+     * GreenRev metric keys (SDG alignment scores, green revenue shares) for
+     * solutions composites, with the number of companies that have each
+     */
+    getMetricKeys: publicProcedure
+      .input(z.object({ uploadId: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getCompanyMetricKeys(input.uploadId);
+      }),
 
     /**
      * Get date range
      */
-    getDateRange: publicProcedure.query(async () => {
-      return await db.getTimeSeriesDateRange();
-    }),
+    getDateRange: publicProcedure
+      .input(z.object({ uploadId: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getTimeSeriesDateRange(input.uploadId);
+      }),
 
     /**
      * Get P/E ratio comparison for top vs bottom tercile carbon intensity companies
+     * (or any high/low pair of quantile buckets)
      */
     getPETercileComparison: publicProcedure
       .input(z.object({
@@ -294,14 +538,18 @@ export const appRouter = router({
         includeScope3: z.boolean().default(false),
         winsorize: z.boolean().default(true),
         winsorizePercentile: z.number().default(5),
+        weighting: weightingSchema,
+        buckets: bucketsSchema,
+        intensityDenominator: intensityDenominatorSchema,
+        includeEstimatedEmissions: z.boolean().default(true),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
       }))
       .query(async ({ input }) => {
-        const { uploadId, method, includeScope3, winsorize, winsorizePercentile, startDate, endDate } = input;
+        const { uploadId, method, includeScope3, winsorize, winsorizePercentile, weighting, buckets, intensityDenominator, includeEstimatedEmissions, startDate, endDate } = input;
 
-        // Get all companies and their time series
-        const companies = await db.getAllCompanies();
+        // Get the upload's companies and their time series
+        const companies = await db.getCompaniesByUpload(uploadId);
         const companiesWithData: CompanyWithTimeSeries[] = [];
 
         const start = startDate ? new Date(startDate) : undefined;
@@ -322,7 +570,7 @@ export const appRouter = router({
         const dates = Array.from(dateSet).map(t => new Date(t)).sort((a, b) => a.getTime() - b.getTime());
 
         // Import helper functions
-        const { calculateCarbonIntensity, calculatePortfolioMetrics, winsorize: winsorizeValues } = await import('./portfolioAnalyzerV2');
+        const { calculateCarbonIntensity, calculateTotalEmissions, weightedPortfolioAverages, winsorize: winsorizeValues } = await import('./portfolioAnalyzerV2');
 
         const results = [];
 
@@ -333,31 +581,41 @@ export const appRouter = router({
               const ts = timeSeries.find(t => t.date.getTime() === date.getTime());
               if (!ts || !ts.priceEarnings) return null;
 
-              const scope1 = ts.scope1Emissions || 0;
-              const scope2 = ts.scope2Emissions || 0;
-              const scope3 = includeScope3 ? (ts.scope3Emissions || 0) : 0;
-              const totalEmissions = scope1 + scope2 + scope3;
-              const marketCap = ts.marketCap;
-
-              if (!marketCap || marketCap === 0 || totalEmissions === 0) return null;
-              const intensity = totalEmissions / (marketCap / 1_000_000); // tCO2 per million dollars
-              if (intensity === null || intensity === 0) return null;
-
-              return { company, timeSeries, intensity, pe: ts.priceEarnings };
+              const { scope1, scope2, scope3 } = selectEmissions(ts, includeEstimatedEmissions);
+              const denominator = intensityDenominatorValue(ts, intensityDenominator);
+              const intensity = calculateCarbonIntensity(scope1, scope2, scope3, denominator, includeScope3); // tCO2 per million dollars
+              if (intensity === null || intensity === 0 || !ts.marketCap) return null;
+
+              return {
+                company,
+                timeSeries,
+                intensity,
+                pe: ts.priceEarnings,
+                marketCap: ts.marketCap,
+                netProfit: ts.netProfit,
+                emissions: calculateTotalEmissions(scope1, scope2, scope3, includeScope3)!,
+                denominator: denominator!,
+              };
             })
-            .filter(Boolean) as Array<{ company: any; timeSeries: any[]; intensity: number; pe: number }>;
+            .filter((item): item is NonNullable<typeof item> => item !== null);
 
           if (companiesWithIntensity.length < 10) continue;
 
-          let topTercile: typeof companiesWithIntensity;
-          let bottomTercile: typeof companiesWithIntensity;
+          const topTercile: typeof companiesWithIntensity = [];
+          const bottomTercile: typeof companiesWithIntensity = [];
+
+          // Split an intensity-sorted group into the chosen low and high buckets
+          const addBuckets = (sorted: typeof companiesWithIntensity) => {
+            const assigned = assignQuantileBuckets(sorted.length, buckets.count);
+            sorted.forEach((item, i) => {
+              if (assigned[i] === buckets.lowBucket) bottomTercile.push(item);
+              if (assigned[i] === buckets.highBucket) topTercile.push(item);
+            });
+          };
 
           if (method === 'absolute') {
-            // Absolute terciles across all companies
-            const sorted = [...companiesWithIntensity].sort((a, b) => a.intensity - b.intensity);
-            const tercileSize = Math.floor(sorted.length / 3);
-            bottomTercile = sorted.slice(0, tercileSize); // Lowest intensity
-            topTercile = sorted.slice(-tercileSize); // Highest intensity
+            // Absolute buckets across all companies
+            addBuckets([...companiesWithIntensity].sort((a, b) => a.intensity - b.intensity));
           } else {
             // Sector-relative terciles
             const bySector = new Map<string, typeof companiesWithIntensity>();
@@ -367,21 +625,15 @@ export const appRouter = router({
               bySector.get(sector)!.push(item);
             }
 
-            topTercile = [];
-            bottomTercile = [];
-
             for (const [sector, items] of Array.from(bySector.entries())) {
-              if (items.length < 3) continue;
-              const sorted = [...items].sort((a, b) => a.intensity - b.intensity);
-              const tercileSize = Math.floor(sorted.length / 3);
-              bottomTercile.push(...sorted.slice(0, tercileSize));
-              topTercile.push(...sorted.slice(-tercileSize));
+              if (items.length < buckets.count) continue;
+              addBuckets([...items].sort((a, b) => a.intensity - b.intensity));
             }
           }
 
           if (topTercile.length === 0 || bottomTercile.length === 0) continue;
 
-          // Calculate average P/E with optional winsorization
+          // Calculate weighted average P/E with optional winsorization
           let topPEs = topTercile.map(t => t.pe);
           let bottomPEs = bottomTercile.map(t => t.pe);
 
@@ -390,8 +642,12 @@ export const appRouter = router({
             bottomPEs = winsorizeValues(bottomPEs, winsorizePercentile, 100 - winsorizePercentile);
           }
 
-          const avgTopPE = topPEs.reduce((sum, pe) => sum + pe, 0) / topPEs.length;
-          const avgBottomPE = bottomPEs.reduce((sum, pe) => sum + pe, 0) / bottomPEs.length;
+          const topAverages = weightedPortfolioAverages(topTercile.map((t, i) => ({ ...t, pe: topPEs[i] })), weighting);
+          const bottomAverages = weightedPortfolioAverages(bottomTercile.map((t, i) => ({ ...t, pe: bottomPEs[i] })), weighting);
+          // Aggregate P/E is undefined when a bucket's total profit is not positive
+          if (!topAverages || !bottomAverages) continue;
+          const avgTopPE = topAverages.avgPeRatio;
+          const avgBottomPE = bottomAverages.avgPeRatio;
 
           results.push({
             date: date.toISOString(),
@@ -400,6 +656,11 @@ export const appRouter = router({
             topTercileCount: topTercile.length,
             bottomTercileCount: bottomTercile.length,
             valuationPremium: (avgBottomPE / avgTopPE - 1) * 100, // % premium for low-carbon
+            weighting,
+            bucketCount: buckets.count,
+            lowBucket: buckets.lowBucket,
+            highBucket: buckets.highBucket,
+            intensityDenominator,
           });
         }
 
@@ -417,10 +678,257 @@ export const appRouter = router({
         includeScope3: z.boolean().default(false),
         winsorize: z.boolean().default(true),
         winsorizePercentile: z.number().min(0).max(50).default(5),
+        includeEstimatedEmissions: z.boolean().default(true),
+        bootstrap: bootstrapSchema.nullable().default(null),
+        buckets: bucketsSchema,
+        intensityDenominator: intensityDenominatorSchema,
       }))
       .query(async ({ input }) => {
-        const { uploadId, method, includeScope3, winsorize, winsorizePercentile } = input;
-        return await computeCarbonPrice(uploadId, method, includeScope3, winsorize, winsorizePercentile);
+        const { uploadId, method, includeScope3, winsorize, winsorizePercentile, includeEstimatedEmissions, bootstrap, buckets, intensityDenominator } = input;
+        return await computeCarbonPrice(uploadId, method, includeScope3, winsorize, winsorizePercentile, includeEstimatedEmissions, bootstrap, buckets, intensityDenominator);
+      }),
+
+    /**
+     * Fama-MacBeth carbon return premium from total return index, per formation date
+     */
+    getCarbonPremium: publicProcedure
+      .input(z.object({
+        uploadId: z.number(),
+        includeScope3: z.boolean().default(false),
+        includeEstimatedEmissions: z.boolean().default(true),
+        sectorFixedEffects: z.boolean().default(true),
+        neweyWestLags: z.number().int().min(0).max(24).nullable().default(null),
+      }))
+      .query(async ({ input }) => {
+        const [companies, timeSeries] = await Promise.all([
+          db.getCompaniesByUpload(input.uploadId),
+          db.getTimeSeriesByUpload(input.uploadId),
+        ]);
+
+        return calculateCarbonPremium(companies, timeSeries, {
+          includeScope3: input.includeScope3,
+          includeEstimates: input.includeEstimatedEmissions,
+          sectorFixedEffects: input.sectorFixedEffects,
+          neweyWestLags: input.neweyWestLags,
+        });
+      }),
+
+    /**
+     * Realised emissions reduction rates (3- and 5-year CAGR and log-linear trend)
+     * by sector, region and investment type, for comparison with impliedDecarbRate
+     */
+    getRealisedDecarbonization: publicProcedure
+      .input(z.object({
+        uploadId: z.number(),
+        includeScope3: z.boolean().default(false),
+        includeEstimatedEmissions: z.boolean().default(true),
+        sectorGranularity: z.enum(['sector', 'industry']).default('sector'),
+        thresholds: thresholdsSchema,
+        buckets: bucketsSchema,
+        intensityDenominator: intensityDenominatorSchema,
+        solutionsComposite: solutionsCompositeSchema,
+      }))
+      .query(async ({ input }) => {
+        const companiesWithData = await loadCompaniesWithData(input.uploadId);
+
+        const rates = calculateRealisedRates(companiesWithData, {
+          includeScope3: input.includeScope3,
+          includeEstimates: input.includeEstimatedEmissions,
+        });
+
+        // Investment types as classified at each window's end date, with the analysis settings
+        const parameters: AnalysisParameters = {
+          includeScope3: input.includeScope3,
+          methodology: 'relative',
+          sectorGranularity: input.sectorGranularity,
+          thresholds: input.thresholds,
+          winsorize: false,
+          winsorizePercentile: 5,
+          buckets: input.buckets,
+          intensityDenominator: input.intensityDenominator,
+          includeEstimatedEmissions: input.includeEstimatedEmissions,
+          targetCredibility: indexTargetCredibility(calculateTargetCredibility(companiesWithData)),
+          solutionsComposite: input.solutionsComposite,
+        };
+        const portfolios: PortfoliosByDate = new Map();
+        for (const time of Array.from(new Set(rates.map(r => r.date.getTime())))) {
+          const classification = classifyCompaniesSectorRelative(companiesWithData, new Date(time), parameters);
+          portfolios.set(time, {
+            low_carbon: classification.lowCarbon,
+            decarbonizing: classification.decarbonizing,
+            solutions: classification.solutions,
+            credible_decarbonizers: classification.credibleDecarbonizers,
+          });
+        }
+
+        return summarizeRealisedRates(rates, companiesWithData, portfolios, input.sectorGranularity);
+      }),
+
+    /**
+     * Each company's latest target credibility score (2050 target against
+     * its reported Scope 1+2 trend), off-track companies first
+     */
+    getTargetCredibility: publicProcedure
+      .input(z.object({
+        uploadId: z.number(),
+      }))
+      .query(async ({ input }) => {
+        const companiesWithData = await loadCompaniesWithData(input.uploadId);
+        const byCompany = indexTargetCredibility(calculateTargetCredibility(companiesWithData));
+
+        return companiesWithData
+          .flatMap(({ company }) => {
+            const scores = byCompany.get(company.id);
+            return scores ? [{ ...scores[scores.length - 1], name: company.name, sector: company.sector }] : [];
+          })
+          .sort((a, b) => a.score - b.score);
+      }),
+
+    /**
+     * Backtest long bottom / short top carbon tercile portfolios (or any low/high bucket pair)
+     */
+    backtest: publicProcedure
+      .input(z.object({
+        uploadId: z.number(),
+        method: z.enum(['absolute', 'sector_relative']).default('sector_relative'),
+        includeScope3: z.boolean().default(false),
+        includeEstimatedEmissions: z.boolean().default(true),
+        rebalance: z.enum(['monthly', 'quarterly']).default('monthly'),
+        weighting: z.enum(['equal', 'market_cap']).default('equal'),
+        buckets: bucketsSchema,
+        intensityDenominator: intensityDenominatorSchema,
+      }))
+      .query(async ({ input }) => {
+        const upload = await db.getDataUploadById(input.uploadId);
+        if (!upload) return null;
+
+        // Terciles only have an estimates variant when the upload has estimated values
+        const includeEstimates = input.includeEstimatedEmissions && upload.estimatedValuesCount > 0;
+        const [terciles, timeSeries] = await Promise.all([
+          db.getCompanyTerciles(input.uploadId, input.method, input.includeScope3, includeEstimates, input.intensityDenominator),
+          db.getTimeSeriesByUpload(input.uploadId),
+        ]);
+
+        return runBacktest(terciles, timeSeries, {
+          rebalance: input.rebalance,
+          weighting: input.weighting,
+          buckets: input.buckets,
+        });
+      }),
+  }),
+
+  mappingProfiles: router({
+    /**
+     * List saved column-mapping profiles
+     */
+    list: publicProcedure.query(async () => {
+      return await db.getColumnMappingProfiles();
+    }),
+
+    /**
+     * Save a new column-mapping profile
+     */
+    create: publicProcedure
+      .input(z.object({
+        name: nonEmpty.max(100),
+        config: columnMappingSchema,
+      }))
+      .mutation(async ({ input }) => {
+        const id = await db.createColumnMappingProfile({ name: input.name, config: input.config });
+        return { id };
+      }),
+
+    /**
+     * Update a saved column-mapping profile
+     */
+    update: publicProcedure
+      .input(z.object({
+        id: z.number(),
+        name: nonEmpty.max(100),
+        config: columnMappingSchema,
+      }))
+      .mutation(async ({ input }) => {
+        await db.updateColumnMappingProfile(input.id, { name: input.name, config: input.config });
+        return { success: true };
+      }),
+
+    /**
+     * Delete a column-mapping profile
+     */
+    delete: publicProcedure
+      .input(z.object({
+        id: z.number(),
+      }))
+      .mutation(async ({ input }) => {
+        await db.deleteColumnMappingProfile(input.id);
+        return { success: true };
+      }),
+  }),
+
+  scenarios: router({
+    /**
+     * List saved decarbonization scenarios
+     */
+    list: publicProcedure.query(async () => {
+      return await db.getDecarbonizationScenarios();
+    }),
+
+    /**
+     * Save a new decarbonization scenario
+     */
+    create: publicProcedure
+      .input(z.object({
+        name: nonEmpty.max(100),
+        description: z.string().nullable().default(null),
+        curve: scenarioCurveSchema,
+      }))
+      .mutation(async ({ input }) => {
+        const id = await db.createDecarbonizationScenario(input);
+        return { id };
+      }),
+
+    /**
+     * Update a scenario and recompute the stored rates of results that use it
+     */
+    update: publicProcedure
+      .input(z.object({
+        id: z.number(),
+        name: nonEmpty.max(100),
+        description: z.string().nullable().default(null),
+        curve: scenarioCurveSchema,
+      }))
+      .mutation(async ({ input }) => {
+        await db.updateDecarbonizationScenario(input.id, { name: input.name, description: input.description, curve: input.curve });
+
+        const results = await db.getAnalysisResultsByScenario(input.id);
+        for (const result of results) {
+          await db.updateAnalysisResultDecarbRates(result.id, {
+            scenarioId: input.id,
+            ...recalculateDecarbRates(result, input.curve),
+          });
+        }
+
+        return { success: true, resultsUpdated: results.length };
+      }),
+
+    /**
+     * Delete a scenario; results that used it fall back to the built-in curve
+     */
+    delete: publicProcedure
+      .input(z.object({
+        id: z.number(),
+      }))
+      .mutation(async ({ input }) => {
+        const results = await db.getAnalysisResultsByScenario(input.id);
+        for (const result of results) {
+          await db.updateAnalysisResultDecarbRates(result.id, {
+            scenarioId: null,
+            ...recalculateDecarbRates(result, DEFAULT_SCENARIO_CURVE),
+          });
+        }
+
+        await db.deleteDecarbonizationScenario(input.id);
+        return { success: true };
       }),
   }),
 
@@ -431,7 +939,7 @@ export const appRouter = router({
     exportResults: publicProcedure
       .input(z.object({
         uploadId: z.number(),
-        investmentType: z.enum(['low_carbon', 'decarbonizing', 'solutions']).optional(),
+        investmentType: z.enum(['low_carbon', 'decarbonizing', 'solutions', 'credible_decarbonizers']).optional(),
       }))
       .query(async ({ input }) => {
         const results = await db.getAnalysisResults(input.uploadId, input.investmentType);
@@ -446,8 +954,16 @@ export const appRouter = router({
           'Avg P/E Ratio',
           'Valuation Premium',
           'Implied Carbon Price',
+          'Carbon Price Lower',
+          'Carbon Price Upper',
+          'Carbon Price Std Error',
           'Implied Decarb Rate',
           'Portfolio Size',
+          'Weighting',
+          'Bucket Count',
+          'Bucket Index',
+          'Scenario ID',
+          'Intensity Denominator',
         ];
 
         const rows = results.map(r => [
@@ -459,8 +975,16 @@ export const appRouter = router({
           r.avgPeRatio?.toFixed(2) || '',
           r.valuationPremium?.toFixed(4) || '',
           r.impliedCarbonPrice?.toFixed(2) || '',
+          r.impliedCarbonPriceLower?.toFixed(2) || '',
+          r.impliedCarbonPriceUpper?.toFixed(2) || '',
+          r.impliedCarbonPriceStdError?.toFixed(2) || '',
           r.impliedDecarbRate?.toFixed(4) || '',
           r.portfolioSize?.toString() || '',
+          r.weighting,
+          r.bucketCount.toString(),
+          r.bucketIndex?.toString() ?? '',
+          r.scenarioId?.toString() ?? '',
+          r.intensityDenominator,
         ]);
 
         const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENARIO_CURVE, interpolateDecarbRate, isAscendingCurve } from "@shared/scenarios";
+
+describe("Decarbonization Scenarios", () => {
+  describe("interpolateDecarbRate", () => {
+    it("should reproduce the built-in piecewise table", () => {
+      expect(interpolateDecarbRate(DEFAULT_SCENARIO_CURVE, 25)).toBeCloseTo(0.01);
+      expect(interpolateDecarbRate(DEFAULT_SCENARIO_CURVE, 75)).toBeCloseTo(0.03);
+      expect(interpolateDecarbRate(DEFAULT_SCENARIO_CURVE, 150)).toBeCloseTo(0.055);
+      expect(interpolateDecarbRate(DEFAULT_SCENARIO_CURVE, 400)).toBeCloseTo(0.07);
+    });
+
+    it("should return zero for non-positive prices and empty curves", () => {
+      expect(interpolateDecarbRate(DEFAULT_SCENARIO_CURVE, -5)).toBe(0);
+      expect(interpolateDecarbRate([], 100)).toBe(0);
+    });
+  });
+
+  describe("isAscendingCurve", () => {
+    it("should reject repeated or decreasing carbon prices", () => {
+      expect(isAscendingCurve(DEFAULT_SCENARIO_CURVE)).toBe(true);
+      expect(isAscendingCurve([{ carbonPrice: 100, decarbRate: 0.04 }, { carbonPrice: 100, decarbRate: 0.05 }])).toBe(false);
+      expect(isAscendingCurve([{ carbonPrice: 100, decarbRate: 0.04 }, { carbonPrice: 50, decarbRate: 0.02 }])).toBe(false);
+    });
+  });
+});
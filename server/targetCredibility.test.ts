@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import type { TimeSeries } from "../drizzle/schema";
+import { classifyCompaniesSectorRelative, type AnalysisParameters, type CompanyWithTimeSeries } from "./portfolioAnalyzerV2";
+import {
+  calculateTargetCredibility,
+  credibilityAt,
+  indexTargetCredibility,
+  requiredReductionRate,
+} from "./targetCredibility";
+
+/**
+ * Company with December Scope 1 emissions for 2015-2020 falling at `rate` a year
+ */
+function company(id: number, target: number | null, rate: number, estimated = false): CompanyWithTimeSeries {
+  return {
+    company: {
+      id,
+      isin: `XX${id}`,
+      name: `Company ${id}`,
+      geography: "US",
+      sector: "Energy",
+      industry: null,
+      sdgAlignmentScore: null,
+      emissionTarget2050: target,
+      createdAt: new Date(),
+    },
+    timeSeries: Array.from({ length: 6 }, (_, i) => ({
+      id: 0,
+      companyId: id,
+      date: new Date(Date.UTC(2015 + i, 11, 31)),
+      totalReturnIndex: 100,
+      marketCap: 1_000_000,
+      priceEarnings: 15,
+      scope1Emissions: 1000 * Math.pow(1 - rate, i),
+      scope2Emissions: 0,
+      scope3Emissions: null,
+      scope1Source: estimated ? "estimated" : "reported",
+      scope2Source: "reported",
+      createdAt: new Date(),
+    }) as TimeSeries),
+  };
+}
+
+const LAST_DATE = new Date(Date.UTC(2020, 11, 31));
+
+describe("Target Credibility", () => {
+  describe("requiredReductionRate", () => {
+    it("should spread the target evenly over the years to 2050", () => {
+      expect(requiredReductionRate(-0.6, 2020)).toBeCloseTo(0.02, 10);
+      expect(requiredReductionRate(-1, 2030)).toBeCloseTo(0.05, 10);
+    });
+
+    it("should return null for targets that are not cuts or have passed", () => {
+      expect(requiredReductionRate(0.1, 2020)).toBeNull();
+      expect(requiredReductionRate(-0.5, 2050)).toBeNull();
+    });
+  });
+
+  describe("calculateTargetCredibility", () => {
+    it("should score the realised trend against the required rate", () => {
+      // Net zero from 2020 needs 1/30 a year
+      const scores = calculateTargetCredibility([
+        company(1, -1, 0.05),
+        company(2, -1, 0.01),
+        company(3, -1, -0.02),
+      ]);
+      const latest = (id: number) => scores.filter(s => s.companyId === id && s.date.getTime() === LAST_DATE.getTime())[0];
+
+      expect(latest(1).window).toBe(5);
+      expect(latest(1).realisedRate).toBeCloseTo(0.05, 10);
+      expect(latest(1).score).toBe(1);
+      expect(latest(1).offTrack).toBe(false);
+
+      expect(latest(2).score).toBeCloseTo(0.3, 10);
+      expect(latest(2).offTrack).toBe(true);
+
+      expect(latest(3).score).toBe(0);
+      expect(latest(3).offTrack).toBe(true);
+    });
+
+    it("should fall back to the three-year window early in the history", () => {
+      const scores = calculateTargetCredibility([company(1, -0.5, 0.03)]);
+
+      expect(scores.map(s => [s.date.getUTCFullYear(), s.window])).toEqual([[2018, 3], [2019, 3], [2020, 5]]);
+    });
+
+    it("should skip companies without a target or reported emissions", () => {
+      expect(calculateTargetCredibility([company(1, null, 0.05), company(2, -0.5, 0.05, true)])).toHaveLength(0);
+    });
+  });
+
+  describe("credibilityAt", () => {
+    it("should use the latest score at or before the date", () => {
+      const byCompany = indexTargetCredibility(calculateTargetCredibility([company(1, -0.5, 0.03)]));
+
+      expect(credibilityAt(byCompany, 1, new Date("2019-06-30"))?.date.getUTCFullYear()).toBe(2018);
+      expect(credibilityAt(byCompany, 1, new Date("2018-12-30"))).toBeNull();
+      expect(credibilityAt(byCompany, 2, LAST_DATE)).toBeNull();
+    });
+  });
+
+  describe("credible decarbonizers classification", () => {
+    // Same net zero target; only companies 1-3 cut emissions fast enough to be credible
+    const companiesWithData = [
+      company(1, -1, 0.05),
+      company(2, -1, 0.04),
+      company(3, -1, 0.04),
+      company(4, -1, 0.01),
+      company(5, -1, 0),
+      company(6, -1, -0.02),
+    ];
+    const parameters: AnalysisParameters = {
+      includeScope3: false,
+      methodology: "relative",
+      sectorGranularity: "sector",
+      thresholds: { tertileApproach: true },
+      winsorize: false,
+      winsorizePercentile: 5,
+      targetCredibility: indexTargetCredibility(calculateTargetCredibility(companiesWithData)),
+    };
+
+    it("should rank targets weighted by credibility", () => {
+      const result = classifyCompaniesSectorRelative(companiesWithData, LAST_DATE, parameters);
+
+      expect(result.credibleDecarbonizers.sort()).toEqual([1, 2]);
+      expect(result.baseline).not.toContain(1);
+    });
+
+    it("should leave the other portfolios' baseline unchanged", () => {
+      // 1 has the deepest target but rising emissions; 3 is credible without being decarbonizing;
+      // 5 and 6 are low carbon
+      const mixed = [
+        company(1, -1, -0.02),
+        company(2, -1, -0.02),
+        company(3, -0.5, 0.03),
+        company(4, -0.5, 0.03),
+        company(5, null, 0.25),
+        company(6, null, 0.3),
+      ];
+      const { targetCredibility, ...withoutScores } = parameters;
+      const withCredible = classifyCompaniesSectorRelative(mixed, LAST_DATE, {
+        ...withoutScores,
+        targetCredibility: indexTargetCredibility(calculateTargetCredibility(mixed)),
+      });
+      const withoutCredible = classifyCompaniesSectorRelative(mixed, LAST_DATE, withoutScores);
+
+      expect(withCredible.credibleDecarbonizers).toEqual([3]);
+      expect(withCredible.decarbonizing).toEqual([1]);
+      expect(withCredible.baseline).toEqual(withoutCredible.baseline);
+      expect(withCredible.baseline).toContain(3);
+    });
+
+    it("should apply the target threshold to weighted targets in threshold mode", () => {
+      const result = classifyCompaniesSectorRelative(companiesWithData, LAST_DATE, {
+        ...parameters,
+        thresholds: { tertileApproach: false, decarbonizingTarget: -0.5 },
+      });
+
+      // Every target meets -50%; weighted, only scores of 0.5 or more do
+      expect(result.decarbonizing).toHaveLength(6);
+      expect(result.credibleDecarbonizers.sort()).toEqual([1, 2, 3]);
+    });
+
+    it("should leave the portfolio empty without scores", () => {
+      const { targetCredibility, ...withoutScores } = parameters;
+      const result = classifyCompaniesSectorRelative(companiesWithData, LAST_DATE, withoutScores);
+
+      expect(result.credibleDecarbonizers).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import type { CompanyWithTimeSeries } from './portfolioAnalyzerV2';
+import { calculateRealisedRates, type RealisedWindow } from './realisedDecarbonization';
+import { attributeAt } from './companySnapshots';
+
+/**
+ * Target credibility: how the reduction a company's 2050 target implies
+ * compares with the trend in its reported Scope 1+2 emissions.
+ *
+ * The target (emissionTarget2050, e.g. -0.5 for a 50% cut) is spread evenly
+ * over the years left to 2050, giving the share of current emissions to cut
+ * each year. The realised rate is the log-linear trend of reported emissions
+ * over the trailing five years (three when five are not available), which
+ * is the same share for the first year. Estimates and Scope 3 are left out:
+ * the score is about what the company has reported doing. Dated targets are
+ * read as of each score's date.
+ */
+
+export const TARGET_YEAR = 2050;
+
+export interface TargetCredibility {
+  companyId: number;
+  /** Year-end the realised trend ends on */
+  date: Date;
+  target: number;
+  /** Annual cut as a share of current emissions: -target / years to 2050 */
+  requiredRate: number;
+  /** Trailing trend reduction rate; negative when emissions rose */
+  realisedRate: number;
+  window: RealisedWindow;
+  /** realisedRate / requiredRate, clamped to [0, 1] */
+  score: number;
+  /** Realised rate below the required rate */
+  offTrack: boolean;
+}
+
+/** Each company's scores in date order */
+export type CredibilityByCompany = Map<number, TargetCredibility[]>;
+
+/**
+ * Annual cut the target requires from `year`; null when the target is not a
+ * cut or 2050 has passed
+ */
+export function requiredReductionRate(target: number, year: number): number | null {
+  const yearsLeft = TARGET_YEAR - year;
+  if (target >= 0 || yearsLeft <= 0) return null;
+  return -target / yearsLeft;
+}
+
+/**
+ * Score every company with a reduction target at each year-end with a
+ * realised trend
+ */
+export function calculateTargetCredibility(companiesWithData: CompanyWithTimeSeries[]): TargetCredibility[] {
+  const byId = new Map(companiesWithData.map(companyData => [companyData.company.id, companyData]));
+
+  // The company column holds the latest target, so companies without one never had one
+  const withTargets = companiesWithData.filter(({ company }) => company.emissionTarget2050 !== null);
+  const rates = calculateRealisedRates(withTargets, { includeScope3: false, includeEstimates: false });
+
+  // The longest window available at each company and date
+  const longest = new Map<string, (typeof rates)[number]>();
+  for (const rate of rates) {
+    const key = `${rate.companyId}|${rate.date.getTime()}`;
+    if (!longest.has(key) || longest.get(key)!.window < rate.window) longest.set(key, rate);
+  }
+
+  const scores: TargetCredibility[] = [];
+  for (const rate of Array.from(longest.values())) {
+    const { company, snapshots } = byId.get(rate.companyId)!;
+    const target = attributeAt(company, snapshots, 'emissionTarget2050', rate.date);
+    if (target === null) continue;
+
+    const requiredRate = requiredReductionRate(target, rate.date.getUTCFullYear());
+    if (requiredRate === null) continue;
+
+    scores.push({
+      companyId: rate.companyId,
+      date: rate.date,
+      target,
+      requiredRate,
+      realisedRate: rate.trend,
+      window: rate.window,
+      score: Math.min(1, Math.max(0, rate.trend / requiredRate)),
+      offTrack: rate.trend < requiredRate,
+    });
+  }
+
+  return scores.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Group scores by company for credibilityAt lookups
+ */
+export function indexTargetCredibility(scores: TargetCredibility[]): CredibilityByCompany {
+  const byCompany: CredibilityByCompany = new Map();
+  for (const score of [...scores].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    if (!byCompany.has(score.companyId)) byCompany.set(score.companyId, []);
+    byCompany.get(score.companyId)!.push(score);
+  }
+  return byCompany;
+}
+
+/**
+ * A company's latest score at or before `date`, so classification only uses
+ * emissions reported by then
+ */
+export function credibilityAt(byCompany: CredibilityByCompany, companyId: number, date: Date): TargetCredibility | null {
+  const scores = byCompany.get(companyId);
+  if (!scores) return null;
+
+  let latest: TargetCredibility | null = null;
+  for (const score of scores) {
+    if (score.date.getTime() > date.getTime()) break;
+    latest = score;
+  }
+  return latest;
+}
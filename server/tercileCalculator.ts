@@ -1,6 +1,9 @@
 import { getDb } from "./db";
-import { companies, timeSeries, companyTerciles, InsertCompanyTercile } from "../drizzle/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { companies, timeSeries, companyTerciles, InsertCompanyTercile, TimeSeries } from "../drizzle/schema";
+import { eq } from "drizzle-orm";
+import { selectEmissions } from "./emissionsEstimator";
+import { DEFAULT_QUANTILE_BUCKETS, quantileBucketAt, tercileAssignmentForBucket } from "@shared/quantiles";
+import { INTENSITY_DENOMINATORS, intensityDenominatorValue, type IntensityDenominator } from "@shared/intensity";
 
 /**
  * Calculate carbon intensity for a company at a specific date
@@ -9,80 +12,224 @@ function calculateCarbonIntensity(
   scope1: number | null,
   scope2: number | null,
   scope3: number | null,
-  marketCap: number | null,
+  denominator: number | null,
   includeScope3: boolean
 ): number | null {
-  if (!marketCap || marketCap <= 0) return null;
+  if (!denominator || denominator <= 0) return null;
+  // Every included scope must be reported; a missing one is not zero emissions
+  if (scope1 == null || scope2 == null || (includeScope3 && scope3 == null)) return null;
   
-  const scope1Val = scope1 || 0;
-  const scope2Val = scope2 || 0;
-  const scope3Val = includeScope3 ? (scope3 || 0) : 0;
+  const scope3Val = includeScope3 ? scope3! : 0;
   
-  const totalEmissions = scope1Val + scope2Val + scope3Val;
+  const totalEmissions = scope1 + scope2 + scope3Val;
   if (totalEmissions === 0) return null;
   
-  // Carbon intensity = tCO2 / $M market cap
-  return totalEmissions / marketCap;
+  // Carbon intensity = tCO2 / $M market cap (or revenue, or EVIC)
+  return totalEmissions / denominator;
 }
 
 /**
- * Assign terciles based on carbon intensity values
+ * Position of each company in a ranking by carbon intensity
  */
-function assignTerciles(
+interface IntensityRank {
+  intensityRank: number; // 0 = lowest intensity (cleanest)
+  rankedCount: number;
+}
+
+/**
+ * Rank companies by carbon intensity; quantile buckets are derived from the
+ * rank when read, so one ranking serves every bucket count
+ */
+function rankIntensities(
   intensities: Array<{ companyId: number; intensity: number | null }>
-): Map<number, "bottom" | "middle" | "top" | null> {
-  // Filter out null intensities
+): Map<number, IntensityRank | null> {
+  // Sort companies with an intensity (ascending)
   const validIntensities = intensities
     .filter(item => item.intensity !== null)
-    .map(item => ({ companyId: item.companyId, intensity: item.intensity! }));
+    .sort((a, b) => a.intensity! - b.intensity!);
+  
+  const ranks = new Map<number, IntensityRank | null>(
+    validIntensities.map((item, i) => [item.companyId, { intensityRank: i, rankedCount: validIntensities.length }])
+  );
   
-  if (validIntensities.length === 0) {
-    return new Map(intensities.map(item => [item.companyId, null]));
+  // Add null ranks for companies with no valid intensity
+  for (const item of intensities) {
+    if (!ranks.has(item.companyId)) {
+      ranks.set(item.companyId, null);
+    }
   }
   
-  // Sort by intensity (ascending)
-  validIntensities.sort((a, b) => a.intensity - b.intensity);
+  return ranks;
+}
+
+/**
+ * Ranked tercile records (both methods, with and without Scope 3) for one
+ * date and intensity denominator
+ */
+function buildTercileRecords(
+  uploadId: number,
+  date: Date,
+  tsForDate: TimeSeries[],
+  companySectors: Map<number, string | null>,
+  includeEstimates: boolean,
+  intensityDenominator: IntensityDenominator
+): InsertCompanyTercile[] {
+  const includeEstimatesInt = includeEstimates ? 1 : 0;
   
-  const tercileSize = Math.floor(validIntensities.length / 3);
-  const assignments = new Map<number, "bottom" | "middle" | "top" | null>();
+  // Calculate intensities for both methods and scope options
+  const intensitiesAbsolute = tsForDate.map(ts => {
+    const { scope1, scope2, scope3 } = selectEmissions(ts, includeEstimates);
+    const denominator = intensityDenominatorValue(ts, intensityDenominator);
+    return {
+      companyId: ts.companyId,
+      intensityScope12: calculateCarbonIntensity(scope1, scope2, scope3, denominator, false),
+      intensityScope123: calculateCarbonIntensity(scope1, scope2, scope3, denominator, true),
+    };
+  });
   
-  // Bottom tercile (lowest emissions = cleanest)
-  for (let i = 0; i < tercileSize; i++) {
-    assignments.set(validIntensities[i].companyId, "bottom");
-  }
+  // Absolute terciles (Scope 1+2)
+  const absoluteTercilesScope12 = rankIntensities(
+    intensitiesAbsolute.map(item => ({
+      companyId: item.companyId,
+      intensity: item.intensityScope12,
+    }))
+  );
   
-  // Top tercile (highest emissions = dirtiest)
-  for (let i = validIntensities.length - tercileSize; i < validIntensities.length; i++) {
-    assignments.set(validIntensities[i].companyId, "top");
-  }
+  // Absolute terciles (Scope 1+2+3)
+  const absoluteTercilesScope123 = rankIntensities(
+    intensitiesAbsolute.map(item => ({
+      companyId: item.companyId,
+      intensity: item.intensityScope123,
+    }))
+  );
   
-  // Middle tercile (everything else)
-  for (let i = tercileSize; i < validIntensities.length - tercileSize; i++) {
-    assignments.set(validIntensities[i].companyId, "middle");
+  // Sector-relative terciles
+  const sectorGroups = new Map<string, typeof intensitiesAbsolute>();
+  for (const item of intensitiesAbsolute) {
+    const sector = companySectors.get(item.companyId);
+    if (!sector) continue;
+    
+    if (!sectorGroups.has(sector)) {
+      sectorGroups.set(sector, []);
+    }
+    sectorGroups.get(sector)!.push(item);
   }
   
-  // Add null assignments for companies with no valid intensity
-  for (const item of intensities) {
-    if (!assignments.has(item.companyId)) {
-      assignments.set(item.companyId, null);
-    }
+  const sectorRelativeTercilesScope12 = new Map<number, IntensityRank | null>();
+  const sectorRelativeTercilesScope123 = new Map<number, IntensityRank | null>();
+  
+  sectorGroups.forEach((sectorIntensities, sector) => {
+    const sectorAssignmentsScope12 = rankIntensities(
+      sectorIntensities.map((item: typeof intensitiesAbsolute[0]) => ({
+        companyId: item.companyId,
+        intensity: item.intensityScope12,
+      }))
+    );
+    
+    const sectorAssignmentsScope123 = rankIntensities(
+      sectorIntensities.map((item: typeof intensitiesAbsolute[0]) => ({
+        companyId: item.companyId,
+        intensity: item.intensityScope123,
+      }))
+    );
+    
+    sectorAssignmentsScope12.forEach((assignment, companyId) => {
+      sectorRelativeTercilesScope12.set(companyId, assignment);
+    });
+    
+    sectorAssignmentsScope123.forEach((assignment, companyId) => {
+      sectorRelativeTercilesScope123.set(companyId, assignment);
+    });
+  });
+  
+  // Intensity rank plus the coarse bottom/middle/top tercile label
+  const rankFields = (rank: IntensityRank | null | undefined) => {
+    const tercile = quantileBucketAt(rank?.intensityRank ?? null, rank?.rankedCount ?? null, DEFAULT_QUANTILE_BUCKETS.count);
+    return {
+      intensityDenominator,
+      intensityRank: rank?.intensityRank ?? null,
+      rankedCount: rank?.rankedCount ?? null,
+      tercileAssignment: tercile == null ? null : tercileAssignmentForBucket(tercile, DEFAULT_QUANTILE_BUCKETS.count),
+    };
+  };
+  
+  // Prepare batch insert
+  const tercileRecords: InsertCompanyTercile[] = [];
+  
+  for (const item of intensitiesAbsolute) {
+    // Absolute, Scope 1+2
+    tercileRecords.push({
+      uploadId,
+      companyId: item.companyId,
+      date,
+      method: "absolute",
+      includeScope3: 0,
+      includeEstimates: includeEstimatesInt,
+      carbonIntensity: item.intensityScope12,
+      ...rankFields(absoluteTercilesScope12.get(item.companyId)),
+    });
+    
+    // Absolute, Scope 1+2+3
+    tercileRecords.push({
+      uploadId,
+      companyId: item.companyId,
+      date,
+      method: "absolute",
+      includeScope3: 1,
+      includeEstimates: includeEstimatesInt,
+      carbonIntensity: item.intensityScope123,
+      ...rankFields(absoluteTercilesScope123.get(item.companyId)),
+    });
+    
+    // Sector-relative, Scope 1+2
+    tercileRecords.push({
+      uploadId,
+      companyId: item.companyId,
+      date,
+      method: "sector_relative",
+      includeScope3: 0,
+      includeEstimates: includeEstimatesInt,
+      carbonIntensity: item.intensityScope12,
+      ...rankFields(sectorRelativeTercilesScope12.get(item.companyId)),
+    });
+    
+    // Sector-relative, Scope 1+2+3
+    tercileRecords.push({
+      uploadId,
+      companyId: item.companyId,
+      date,
+      method: "sector_relative",
+      includeScope3: 1,
+      includeEstimates: includeEstimatesInt,
+      carbonIntensity: item.intensityScope123,
+      ...rankFields(sectorRelativeTercilesScope123.get(item.companyId)),
+    });
   }
   
-  return assignments;
+  return tercileRecords;
 }
 
 /**
- * Pre-compute tercile assignments for an upload
+ * Pre-compute intensity rankings and tercile assignments for an upload.
+ * Rankings are stored once per method, scope, estimates and denominator
+ * variant, during upload processing; analysis queries read them and bucket
+ * them for any count.
  */
-export async function computeTercilesForUpload(uploadId: number): Promise<void> {
+export async function computeTercilesForUpload(
+  uploadId: number,
+  onProgress?: (datesDone: number, datesTotal: number) => void
+): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
   console.log(`[TercileCalculator] Starting tercile computation for upload ${uploadId}`);
   
-  // Load all companies and their time series
-  const allCompanies = await db.select().from(companies);
-  const allTimeSeries = await db.select().from(timeSeries);
+  // Clear assignments from any earlier, interrupted run so the computation can be retried
+  await db.delete(companyTerciles).where(eq(companyTerciles.uploadId, uploadId));
+  
+  // Load the upload's companies and their time series
+  const allCompanies = await db.select().from(companies).where(eq(companies.uploadId, uploadId));
+  const allTimeSeries = await db.select().from(timeSeries).where(eq(timeSeries.uploadId, uploadId));
   
   // Group time series by date
   const timeSeriesByDate = new Map<string, typeof allTimeSeries>();
@@ -101,6 +248,17 @@ export async function computeTercilesForUpload(uploadId: number): Promise<void>
   // Create a map of company ID to sector
   const companySectors = new Map(allCompanies.map(c => [c.id, c.sector]));
   
+  // Reported-only terciles are always computed; the with-estimates variant only when gap-filling ran
+  const hasEstimates = allTimeSeries.some(ts =>
+    [ts.scope1Source, ts.scope2Source, ts.scope3Source].some(source => source != null && source !== "reported")
+  );
+  const estimateVariants = hasEstimates ? [false, true] : [false];
+  
+  // Market cap terciles always; revenue and EVIC terciles when the upload has those values
+  const denominators = INTENSITY_DENOMINATORS.filter(denominator =>
+    denominator === "market_cap" || allTimeSeries.some(ts => intensityDenominatorValue(ts, denominator) != null)
+  );
+  
   // Process each date
   let totalInserted = 0;
   for (let dateIdx = 0; dateIdx < uniqueDates.length; dateIdx++) {
@@ -110,131 +268,15 @@ export async function computeTercilesForUpload(uploadId: number): Promise<void>
     
     if (dateIdx % 20 === 0) {
       console.log(`[TercileCalculator] Processing date ${dateIdx + 1}/${uniqueDates.length}: ${date.toISOString().split('T')[0]}`);
+      onProgress?.(dateIdx, uniqueDates.length);
     }
     
-    // Calculate intensities for both methods and scope options
-    const intensitiesAbsolute = tsForDate.map(ts => ({
-      companyId: ts.companyId,
-      intensityScope12: calculateCarbonIntensity(
-        ts.scope1Emissions,
-        ts.scope2Emissions,
-        ts.scope3Emissions,
-        ts.marketCap,
-        false
-      ),
-      intensityScope123: calculateCarbonIntensity(
-        ts.scope1Emissions,
-        ts.scope2Emissions,
-        ts.scope3Emissions,
-        ts.marketCap,
-        true
-      ),
-    }));
-    
-    // Absolute terciles (Scope 1+2)
-    const absoluteTercilesScope12 = assignTerciles(
-      intensitiesAbsolute.map(item => ({
-        companyId: item.companyId,
-        intensity: item.intensityScope12,
-      }))
+    const tercileRecords = estimateVariants.flatMap(includeEstimates =>
+      denominators.flatMap(denominator =>
+        buildTercileRecords(uploadId, date, tsForDate, companySectors, includeEstimates, denominator)
+      )
     );
     
-    // Absolute terciles (Scope 1+2+3)
-    const absoluteTercilesScope123 = assignTerciles(
-      intensitiesAbsolute.map(item => ({
-        companyId: item.companyId,
-        intensity: item.intensityScope123,
-      }))
-    );
-    
-    // Sector-relative terciles
-    const sectorGroups = new Map<string, typeof intensitiesAbsolute>();
-    for (const item of intensitiesAbsolute) {
-      const sector = companySectors.get(item.companyId);
-      if (!sector) continue;
-      
-      if (!sectorGroups.has(sector)) {
-        sectorGroups.set(sector, []);
-      }
-      sectorGroups.get(sector)!.push(item);
-    }
-    
-    const sectorRelativeTercilesScope12 = new Map<number, "bottom" | "middle" | "top" | null>();
-    const sectorRelativeTercilesScope123 = new Map<number, "bottom" | "middle" | "top" | null>();
-    
-    sectorGroups.forEach((sectorIntensities, sector) => {
-      const sectorAssignmentsScope12 = assignTerciles(
-        sectorIntensities.map((item: typeof intensitiesAbsolute[0]) => ({
-          companyId: item.companyId,
-          intensity: item.intensityScope12,
-        }))
-      );
-      
-      const sectorAssignmentsScope123 = assignTerciles(
-        sectorIntensities.map((item: typeof intensitiesAbsolute[0]) => ({
-          companyId: item.companyId,
-          intensity: item.intensityScope123,
-        }))
-      );
-      
-      sectorAssignmentsScope12.forEach((assignment, companyId) => {
-        sectorRelativeTercilesScope12.set(companyId, assignment);
-      });
-      
-      sectorAssignmentsScope123.forEach((assignment, companyId) => {
-        sectorRelativeTercilesScope123.set(companyId, assignment);
-      });
-    });
-    
-    // Prepare batch insert
-    const tercileRecords: InsertCompanyTercile[] = [];
-    
-    for (const item of intensitiesAbsolute) {
-      // Absolute, Scope 1+2
-      tercileRecords.push({
-        uploadId,
-        companyId: item.companyId,
-        date,
-        method: "absolute",
-        includeScope3: 0,
-        carbonIntensity: item.intensityScope12,
-        tercileAssignment: absoluteTercilesScope12.get(item.companyId) || null,
-      });
-      
-      // Absolute, Scope 1+2+3
-      tercileRecords.push({
-        uploadId,
-        companyId: item.companyId,
-        date,
-        method: "absolute",
-        includeScope3: 1,
-        carbonIntensity: item.intensityScope123,
-        tercileAssignment: absoluteTercilesScope123.get(item.companyId) || null,
-      });
-      
-      // Sector-relative, Scope 1+2
-      tercileRecords.push({
-        uploadId,
-        companyId: item.companyId,
-        date,
-        method: "sector_relative",
-        includeScope3: 0,
-        carbonIntensity: item.intensityScope12,
-        tercileAssignment: sectorRelativeTercilesScope12.get(item.companyId) || null,
-      });
-      
-      // Sector-relative, Scope 1+2+3
-      tercileRecords.push({
-        uploadId,
-        companyId: item.companyId,
-        date,
-        method: "sector_relative",
-        includeScope3: 1,
-        carbonIntensity: item.intensityScope123,
-        tercileAssignment: sectorRelativeTercilesScope123.get(item.companyId) || null,
-      });
-    }
-    
     // Batch insert (split into chunks of 1000 to avoid query size limits)
     const chunkSize = 1000;
     for (let i = 0; i < tercileRecords.length; i += chunkSize) {
@@ -244,5 +286,6 @@ export async function computeTercilesForUpload(uploadId: number): Promise<void>
     }
   }
   
+  onProgress?.(uniqueDates.length, uniqueDates.length);
   console.log(`[TercileCalculator] Completed: inserted ${totalInserted} tercile records`);
 }
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computeUploadProgressPercent, createProgressReporter, getRemainingStages, getRetryDelayMs, UPLOAD_JOB_STAGES } from "./uploadJobs";
+
+describe("Upload job queue", () => {
+  describe("getRemainingStages", () => {
+    it("should run every stage for a fresh job", () => {
+      expect(getRemainingStages(null)).toEqual([...UPLOAD_JOB_STAGES]);
+    });
+
+    it("should resume after the last checkpoint", () => {
+      expect(getRemainingStages("companies")).toEqual(["time_series", "terciles", "carbon_price"]);
+    });
+
+    it("should return nothing once the final stage is checkpointed", () => {
+      expect(getRemainingStages("carbon_price")).toEqual([]);
+    });
+  });
+
+  describe("getRetryDelayMs", () => {
+    it("should back off exponentially", () => {
+      expect(getRetryDelayMs(1)).toBe(30_000);
+      expect(getRetryDelayMs(2)).toBe(60_000);
+      expect(getRetryDelayMs(3)).toBe(120_000);
+    });
+
+    it("should cap the delay at 30 minutes", () => {
+      expect(getRetryDelayMs(20)).toBe(30 * 60_000);
+    });
+  });
+
+  describe("computeUploadProgressPercent", () => {
+    it("should be 0 before any stage starts", () => {
+      expect(computeUploadProgressPercent("processing", null, null, null)).toBe(0);
+    });
+
+    it("should add the partial stage to completed stage weights", () => {
+      // parse (30) + companies (5) done, time_series (35) half done
+      expect(computeUploadProgressPercent("processing", "time_series", 500, 1000)).toBeCloseTo(52.5, 5);
+    });
+
+    it("should treat an unknown row total as the start of the stage", () => {
+      expect(computeUploadProgressPercent("processing", "terciles", 0, null)).toBe(70);
+    });
+
+    it("should report 100 once completed", () => {
+      expect(computeUploadProgressPercent("completed", "carbon_price", 0, 1)).toBe(100);
+    });
+  });
+
+  describe("createProgressReporter", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should write one at a time and keep only the latest waiting report", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      const written: number[] = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const report = createProgressReporter(1, "time_series", async (_uploadId, progress) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        written.push(progress.progressRowsDone!);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+      });
+
+      report(0, 10);
+      vi.setSystemTime(Date.now() + 5_000);
+      report(5, 10); // Replaced before the first write finishes
+      report(10, 10);
+      await report.flush();
+
+      expect(written).toEqual([0, 10]);
+      expect(maxInFlight).toBe(1);
+    });
+
+    it("should keep writing after a failed write", async () => {
+      const written: number[] = [];
+      const report = createProgressReporter(1, "terciles", async (_uploadId, progress) => {
+        if (progress.progressRowsDone === 0) throw new Error("connection lost");
+        written.push(progress.progressRowsDone!);
+      });
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      report(0, 2);
+      report(2, 2);
+      await report.flush();
+
+      expect(written).toEqual([2]);
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,435 @@
+import * as db from "./db";
+import { parseExcelFile, processClimateData, type ProcessedData, type ProcessedSnapshot } from "./dataProcessor";
+import {
+  detectFileFormat,
+  parseCsvFile,
+  parseFiscalYearEndMapping,
+  parseParquetFile,
+  processLongFormatData,
+} from "./longFormatProcessor";
+import { estimateMissingEmissions } from "./emissionsEstimator";
+import { computeTercilesForUpload } from "./tercileCalculator";
+import { calculateTotalBasedCarbonPrice } from "./carbonPriceCalculator";
+import type { UploadJob } from "../drizzle/schema";
+import { DATASTREAM_COLUMN_MAPPING, type ColumnMapping } from "../shared/columnMapping";
+import { DEFAULT_ESTIMATION_OPTIONS, type EstimationOptions } from "../shared/estimation";
+
+/**
+ * Pipeline stages, in execution order. The job records the last completed
+ * stage so a retried or resumed job skips work that is already persisted.
+ */
+export const UPLOAD_JOB_STAGES = ["parse", "companies", "time_series", "terciles", "carbon_price"] as const;
+export type UploadJobStage = (typeof UPLOAD_JOB_STAGES)[number];
+
+const POLL_INTERVAL_MS = 5_000;
+const PROGRESS_THROTTLE_MS = 1_000;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+
+/**
+ * Share of overall progress each stage accounts for (sums to 100)
+ */
+const STAGE_WEIGHTS: Record<UploadJobStage, number> = {
+  parse: 30,
+  companies: 5,
+  time_series: 35,
+  terciles: 25,
+  carbon_price: 5,
+};
+
+interface ProgressReporter {
+  (rowsDone: number, rowsTotal: number): void;
+  /** Resolves once the last reported value has been written */
+  flush(): Promise<void>;
+}
+
+interface StageContext {
+  uploadId: number;
+  filename: string;
+  fileUrl: string;
+  mapping: ColumnMapping;
+  publicationLagMonths: number;
+  fiscalYearEndFileUrl: string | null;
+  estimationOptions: EstimationOptions;
+  processedData: ProcessedData | null;
+  estimatedValuesCount: number;
+}
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, ... capped at 30 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, exponent));
+}
+
+/**
+ * Resolve a saved column-mapping profile; null selects the built-in Datastream layout
+ */
+export async function loadColumnMapping(profileId: number | null | undefined): Promise<ColumnMapping> {
+  if (profileId == null) return DATASTREAM_COLUMN_MAPPING;
+  const profile = await db.getColumnMappingProfileById(profileId);
+  if (!profile) {
+    throw new Error(`Column mapping profile ${profileId} not found`);
+  }
+  return profile.config;
+}
+
+/**
+ * Stages still to run after the given checkpoint
+ */
+export function getRemainingStages(completedStage: UploadJobStage | null): UploadJobStage[] {
+  if (!completedStage) return [...UPLOAD_JOB_STAGES];
+  return UPLOAD_JOB_STAGES.slice(UPLOAD_JOB_STAGES.indexOf(completedStage) + 1);
+}
+
+/**
+ * Overall pipeline completion (0-100) given the stage currently running
+ */
+export function computeUploadProgressPercent(
+  status: "processing" | "completed" | "failed",
+  stage: UploadJobStage | null,
+  rowsDone: number | null,
+  rowsTotal: number | null
+): number {
+  if (status === "completed") return 100;
+  if (!stage) return 0;
+
+  const stageIndex = UPLOAD_JOB_STAGES.indexOf(stage);
+  const completedWeight = UPLOAD_JOB_STAGES
+    .slice(0, stageIndex)
+    .reduce((sum, s) => sum + STAGE_WEIGHTS[s], 0);
+  const stageFraction = rowsTotal && rowsTotal > 0
+    ? Math.min(1, Math.max(0, (rowsDone ?? 0) / rowsTotal))
+    : 0;
+
+  return completedWeight + STAGE_WEIGHTS[stage] * stageFraction;
+}
+
+/**
+ * Throttled writer for row-level progress; the final row count is always written.
+ * Writes run one at a time and a report made during a write replaces any
+ * report still waiting, so progress lands in order and only the latest is kept.
+ */
+export function createProgressReporter(
+  uploadId: number,
+  stage: UploadJobStage,
+  write: typeof db.updateDataUploadProgress = db.updateDataUploadProgress
+): ProgressReporter {
+  let lastWrite = 0;
+  let waiting: { rowsDone: number; rowsTotal: number } | null = null;
+  let writing: Promise<void> | null = null;
+
+  const drain = async () => {
+    while (waiting) {
+      const { rowsDone, rowsTotal } = waiting;
+      waiting = null;
+      try {
+        await write(uploadId, {
+          progressStage: stage,
+          progressRowsDone: rowsDone,
+          progressRowsTotal: rowsTotal,
+        });
+      } catch (error) {
+        console.warn(`[Upload ${uploadId}] Failed to record progress:`, error);
+      }
+    }
+    writing = null;
+  };
+
+  const report = (rowsDone: number, rowsTotal: number) => {
+    const now = Date.now();
+    if (rowsDone < rowsTotal && now - lastWrite < PROGRESS_THROTTLE_MS) return;
+    lastWrite = now;
+    waiting = { rowsDone, rowsTotal };
+    writing ??= drain();
+  };
+
+  return Object.assign(report, {
+    flush: async () => {
+      await writing;
+    },
+  });
+}
+
+async function downloadFile(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download file from S3: ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Download and parse the uploaded file (Excel workbook, or long-format CSV or
+ * Parquet), then fill emissions gaps as configured. Parsed data is not
+ * persisted, so a resumed job re-parses whenever a later stage needs it.
+ *
+ * Parsing is synchronous, so progress is reported per step (download, read
+ * file, transform) rather than per row, and each write is awaited so it lands
+ * before the event loop is blocked.
+ */
+async function loadProcessedData(
+  ctx: StageContext,
+  onStep?: (stepsDone: number, stepsTotal: number) => Promise<void>
+): Promise<ProcessedData> {
+  if (ctx.processedData) return ctx.processedData;
+
+  await onStep?.(0, 3);
+  console.log(`[Upload ${ctx.uploadId}] Downloading file from S3...`);
+  const buffer = await downloadFile(ctx.fileUrl);
+  console.log(`[Upload ${ctx.uploadId}] Downloaded ${buffer.length} bytes`);
+
+  let fiscalYearEnds: Map<string, number> | undefined;
+  if (ctx.fiscalYearEndFileUrl) {
+    fiscalYearEnds = parseFiscalYearEndMapping(parseCsvFile(await downloadFile(ctx.fiscalYearEndFileUrl)));
+    console.log(`[Upload ${ctx.uploadId}] Loaded ${fiscalYearEnds.size} fiscal year-ends from mapping file`);
+  }
+
+  await onStep?.(1, 3);
+  const format = detectFileFormat(ctx.filename);
+  if (format === "excel") {
+    console.log(`[Upload ${ctx.uploadId}] Parsing Excel file...`);
+    const rawData = parseExcelFile(buffer, ctx.mapping);
+
+    await onStep?.(2, 3);
+    console.log(`[Upload ${ctx.uploadId}] Processing climate data...`);
+    ctx.processedData = processClimateData(rawData, ctx.mapping, {
+      publicationLagMonths: ctx.publicationLagMonths,
+      fiscalYearEnds,
+    });
+  } else {
+    console.log(`[Upload ${ctx.uploadId}] Parsing long-format ${format} file...`);
+    const rows = format === "csv" ? parseCsvFile(buffer) : await parseParquetFile(buffer);
+
+    await onStep?.(2, 3);
+    console.log(`[Upload ${ctx.uploadId}] Processing ${rows.length} long-format rows...`);
+    ctx.processedData = processLongFormatData(rows, {
+      publicationLagMonths: ctx.publicationLagMonths,
+      fiscalYearEnds,
+    });
+  }
+
+  const estimated = estimateMissingEmissions(ctx.processedData, ctx.estimationOptions);
+  ctx.estimatedValuesCount = estimated.carried_forward + estimated.interpolated + estimated.sector_median;
+  await onStep?.(3, 3);
+  console.log(`[Upload ${ctx.uploadId}] Parsed ${ctx.processedData.stats.totalCompanies} companies, ${ctx.processedData.timeSeries.length} time series records.`);
+  if (ctx.estimatedValuesCount > 0) {
+    console.log(`[Upload ${ctx.uploadId}] Estimated ${ctx.estimatedValuesCount} emissions values (${estimated.interpolated} interpolated, ${estimated.carried_forward} carried forward, ${estimated.sector_median} sector median)`);
+  }
+
+  return ctx.processedData;
+}
+
+const STAGE_HANDLERS: Record<UploadJobStage, (ctx: StageContext, report: ProgressReporter) => Promise<void>> = {
+  parse: async (ctx) => {
+    const processedData = await loadProcessedData(ctx, (stepsDone, stepsTotal) =>
+      db.updateDataUploadProgress(ctx.uploadId, {
+        progressStage: "parse",
+        progressRowsDone: stepsDone,
+        progressRowsTotal: stepsTotal,
+      })
+    );
+    await db.updateDataUploadStatus(ctx.uploadId, "processing", {
+      companiesCount: processedData.stats.totalCompanies,
+      timePeriodsCount: processedData.stats.totalTimePeriods,
+      fiscalYearsByScope: processedData.stats.fiscalYearsByScope,
+      estimatedValuesCount: ctx.estimatedValuesCount,
+    });
+  },
+
+  companies: async (ctx, report) => {
+    const processedData = await loadProcessedData(ctx);
+    const total = processedData.companies.length;
+    console.log(`[Upload ${ctx.uploadId}] Inserting ${total} companies...`);
+    for (let i = 0; i < total; i++) {
+      report(i, total);
+      await db.upsertCompany({ ...processedData.companies[i], uploadId: ctx.uploadId });
+    }
+
+    // Dated targets, SDG scores and metrics need the company ids
+    const companies = await db.getCompaniesByUpload(ctx.uploadId);
+    const isinToId = new Map(companies.map(c => [c.isin, c.id]));
+    const withIds = (snapshots: ProcessedSnapshot[]) => snapshots
+      .filter(s => isinToId.has(s.isin))
+      .map(s => ({ uploadId: ctx.uploadId, companyId: isinToId.get(s.isin)!, snapshotDate: s.snapshotDate, value: s.value }));
+    await db.replaceCompanySnapshots(
+      ctx.uploadId,
+      withIds(processedData.snapshots.emissionTarget2050).map(({ value, ...s }) => ({ ...s, emissionTarget2050: value })),
+      withIds(processedData.snapshots.sdgAlignmentScore).map(({ value, ...s }) => ({ ...s, sdgAlignmentScore: value }))
+    );
+    await db.replaceCompanyMetrics(
+      ctx.uploadId,
+      processedData.metrics
+        .filter(m => isinToId.has(m.isin))
+        .map(({ isin, ...m }) => ({ ...m, uploadId: ctx.uploadId, companyId: isinToId.get(isin)! }))
+    );
+    report(total, total);
+  },
+
+  time_series: async (ctx, report) => {
+    const processedData = await loadProcessedData(ctx);
+    const companies = await db.getCompaniesByUpload(ctx.uploadId);
+    const isinToId = new Map(companies.map(c => [c.isin, c.id]));
+
+    const timeSeriesWithIds = processedData.timeSeries
+      .map(ts => {
+        const companyIsin = processedData.companies[ts.companyId - 1]?.isin;
+        if (!companyIsin) return null;
+        const actualCompanyId = isinToId.get(companyIsin);
+        if (!actualCompanyId) return null;
+        return { ...ts, uploadId: ctx.uploadId, companyId: actualCompanyId };
+      })
+      .filter((ts): ts is NonNullable<typeof ts> => ts !== null);
+
+    console.log(`[Upload ${ctx.uploadId}] Inserting ${timeSeriesWithIds.length} time series records in batches...`);
+    await db.insertTimeSeriesBatch(timeSeriesWithIds, report);
+  },
+
+  terciles: async (ctx, report) => {
+    await computeTercilesForUpload(ctx.uploadId, report);
+  },
+
+  carbon_price: async (ctx, report) => {
+    // Warm the cache for the Analysis page defaults; clear any partial cache from a failed attempt first
+    report(0, 1);
+    await db.deleteCarbonPriceCacheByUpload(ctx.uploadId);
+    await calculateTotalBasedCarbonPrice(ctx.uploadId, "sector_relative", false, true, 5, true);
+    report(1, 1);
+  },
+};
+
+/**
+ * Run the remaining stages of a claimed job, checkpointing after each one
+ */
+async function runUploadJob(job: UploadJob): Promise<void> {
+  const { uploadId } = job;
+  const attempts = job.attempts + 1;
+
+  let upload: Awaited<ReturnType<typeof db.getDataUploadById>>;
+  try {
+    upload = await db.getDataUploadById(uploadId);
+  } catch (error) {
+    // Without the upload there is nothing to retry against; don't leave the job claimed as running
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[Upload ${uploadId}] Error loading upload record:`, error);
+    await db.updateUploadJob(job.id, { status: "failed", lastError: `Upload lookup failed: ${message}` });
+    return;
+  }
+  if (!upload) {
+    await db.updateUploadJob(job.id, { status: "failed", lastError: "Upload record not found" });
+    return;
+  }
+
+  const ctx: StageContext = {
+    uploadId,
+    filename: upload.filename,
+    fileUrl: upload.fileUrl,
+    mapping: DATASTREAM_COLUMN_MAPPING,
+    publicationLagMonths: upload.publicationLagMonths,
+    fiscalYearEndFileUrl: upload.fiscalYearEndFileUrl,
+    estimationOptions: upload.estimationOptions ?? DEFAULT_ESTIMATION_OPTIONS,
+    processedData: null,
+    estimatedValuesCount: upload.estimatedValuesCount,
+  };
+
+  try {
+    ctx.mapping = await loadColumnMapping(upload.mappingProfileId);
+
+    for (const stage of getRemainingStages(job.completedStage)) {
+      console.log(`[Upload ${uploadId}] Running stage "${stage}" (attempt ${attempts}/${job.maxAttempts})...`);
+      await db.updateDataUploadProgress(uploadId, {
+        progressStage: stage,
+        progressRowsDone: 0,
+        progressRowsTotal: null,
+      });
+      const report = createProgressReporter(uploadId, stage);
+      try {
+        await STAGE_HANDLERS[stage](ctx, report);
+      } finally {
+        // A late row count must not overwrite the next stage or a retry's reset
+        await report.flush();
+      }
+      await db.updateUploadJob(job.id, { completedStage: stage });
+    }
+
+    console.log(`[Upload ${uploadId}] Processing completed successfully.`);
+    await db.updateUploadJob(job.id, { status: "completed", lastError: null });
+    await db.updateDataUploadStatus(uploadId, "completed");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[Upload ${uploadId}] Error processing upload:`, error);
+
+    if (attempts >= job.maxAttempts) {
+      await db.updateUploadJob(job.id, { status: "failed", lastError: message });
+      await db.updateDataUploadStatus(uploadId, "failed", { errorMessage: message });
+      return;
+    }
+
+    const delayMs = getRetryDelayMs(attempts);
+    console.log(`[Upload ${uploadId}] Retrying in ${Math.round(delayMs / 1000)}s`);
+    await db.updateUploadJob(job.id, {
+      status: "pending",
+      lastError: message,
+      nextRunAt: new Date(Date.now() + delayMs),
+    });
+  }
+}
+
+let workerStarted = false;
+let workerBusy = false;
+let workerTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleTick(delayMs: number) {
+  if (workerTimer) clearTimeout(workerTimer);
+  workerTimer = setTimeout(tick, delayMs);
+}
+
+async function tick() {
+  workerTimer = null;
+  if (workerBusy) return;
+  workerBusy = true;
+
+  try {
+    let job = await db.getNextRunnableUploadJob();
+    while (job) {
+      if (await db.claimUploadJob(job.id)) {
+        await runUploadJob(job);
+      }
+      job = await db.getNextRunnableUploadJob();
+    }
+  } catch (error) {
+    console.error("[UploadWorker] Failed to process job queue:", error);
+  } finally {
+    workerBusy = false;
+    scheduleTick(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Queue an upload for background processing
+ */
+export async function enqueueUploadJob(uploadId: number): Promise<void> {
+  await db.createUploadJob({ uploadId });
+  if (workerStarted && !workerBusy) scheduleTick(0);
+}
+
+/**
+ * Start the worker loop. Jobs left running by a previous process are requeued.
+ */
+export async function startUploadWorker(): Promise<void> {
+  if (workerStarted) return;
+
+  if (!(await db.getDb())) {
+    console.warn("[UploadWorker] Database not available, worker not started");
+    return;
+  }
+
+  const requeued = await db.requeueRunningUploadJobs();
+  if (requeued > 0) {
+    console.log(`[UploadWorker] Resuming ${requeued} interrupted job(s)`);
+  }
+
+  workerStarted = true;
+  scheduleTick(0);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { isValidIsin, validateWorkbook } from "./workbookValidator";
+import { DATASTREAM_COLUMN_MAPPING, type ColumnMapping } from "../shared/columnMapping";
+
+function buildWorkbook(sheets: Record<string, any[]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("Workbook Validator", () => {
+  describe("isValidIsin", () => {
+    it("should accept ISINs with a correct check digit", () => {
+      expect(isValidIsin("US0378331005")).toBe(true);
+      expect(isValidIsin("GB0002634946")).toBe(true);
+    });
+
+    it("should reject a wrong check digit", () => {
+      expect(isValidIsin("US0378331006")).toBe(false);
+    });
+
+    it("should reject malformed ISINs", () => {
+      expect(isValidIsin("US037833100")).toBe(false);
+      expect(isValidIsin("1S0378331005")).toBe(false);
+    });
+  });
+
+  describe("validateWorkbook", () => {
+    const buffer = buildWorkbook({
+      Descriptive: [
+        { NAME: "APPLE", Type: "US0378331005" },
+        { NAME: "BAE SYSTEMS", Type: "GB0002634946" },
+        { NAME: "BROKEN CO", Type: "US0378331006" },
+      ],
+      RI: [
+        { Name: "2020-01-31", "APPLE - TOT RETURN IND": 100, "BAE SYSTEMS - TOT RETURN IND": 50, "MYSTERY - TOT RETURN IND": 1 },
+        { Name: "2020-06-30", "APPLE - TOT RETURN IND": 110, "BAE SYSTEMS - TOT RETURN IND": "NA", "MYSTERY - TOT RETURN IND": 2 },
+      ],
+      PE: [{ Name: "2020-01-31", "US0378331005(P)~U$/US0378331005(F2MN)~U$": 25 }],
+      Profit: [{ Name: "2020-02-10", "APPLE - FY2 INC MEAN EST": 1000 }],
+      Notes: [{ comment: "not part of the template" }],
+    });
+
+    const report = validateWorkbook(buffer);
+
+    it("should list missing and extra sheets", () => {
+      expect(report.missingSheets).toEqual(["MV", "S1", "S2", "S3", "GreenRev", "EmissionTargets"]);
+      expect(report.extraSheets).toEqual(["Notes"]);
+      expect(report.canIngest).toBe(false);
+    });
+
+    it("should list RI companies missing from the Descriptive sheet", () => {
+      expect(report.unmatchedCompanyNames).toEqual(["MYSTERY"]);
+    });
+
+    it("should list matched ISINs with no PE column", () => {
+      expect(report.isinsWithoutPeColumn).toEqual(["GB0002634946"]);
+    });
+
+    it("should flag RI dates with no profit row within 30 days", () => {
+      expect(report.profitDatesOutsideWindow).toHaveLength(1);
+      expect(report.profitDatesOutsideWindow[0].date.toISOString().startsWith("2020-06-30")).toBe(true);
+      expect(report.profitDatesOutsideWindow[0].gapDays).toBeGreaterThan(30);
+    });
+
+    it("should flag invalid ISIN checksums", () => {
+      expect(report.invalidIsins).toEqual([{ isin: "US0378331006", name: "BROKEN CO" }]);
+    });
+
+    it("should compute per-sheet null rates", () => {
+      const riRate = report.sheetNullRates.find(r => r.sheet === "RI")!;
+      // 2 rows x 4 columns, one "NA"
+      expect(riRate.rows).toBe(2);
+      expect(riRate.columns).toBe(4);
+      expect(riRate.nullRate).toBeCloseTo(1 / 8, 5);
+    });
+  });
+
+  describe("validateWorkbook with a column-mapping profile", () => {
+    const mapping: ColumnMapping = {
+      ...DATASTREAM_COLUMN_MAPPING,
+      sheets: { ...DATASTREAM_COLUMN_MAPPING.sheets, Descriptive: "Static", RI: "TotalReturn" },
+      columns: { ...DATASTREAM_COLUMN_MAPPING.columns, date: "Date", companyName: "Issuer", isin: "ID_ISIN" },
+      suffixes: { ...DATASTREAM_COLUMN_MAPPING.suffixes, totalReturn: " TR" },
+    };
+
+    const buffer = buildWorkbook({
+      Static: [{ Issuer: "APPLE", ID_ISIN: "US0378331005" }],
+      TotalReturn: [{ Date: "2020-01-31", "APPLE TR": 100 }],
+      PE: [{ Date: "2020-01-31", "US0378331005(P)~U$/US0378331005(F2MN)~U$": 25 }],
+      Profit: [{ Date: "2020-01-31", "APPLE - FY2 INC MEAN EST": 1000 }],
+    });
+
+    const report = validateWorkbook(buffer, mapping);
+
+    it("should look up sheets by their mapped names", () => {
+      expect(report.missingSheets).not.toContain("Static");
+      expect(report.missingSheets).not.toContain("TotalReturn");
+      expect(report.extraSheets).toEqual([]);
+    });
+
+    it("should match companies using the mapped columns and suffix", () => {
+      expect(report.unmatchedCompanyNames).toEqual([]);
+      expect(report.isinsWithoutPeColumn).toEqual([]);
+      expect(report.profitDatesOutsideWindow).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import * as XLSX from 'xlsx';
+import { DATASTREAM_COLUMN_MAPPING, OPTIONAL_SHEETS, type ColumnMapping } from '../shared/columnMapping';
+import {
+  REQUIRED_SHEETS,
+  getOptionalSheetName,
+  PROFIT_MATCH_WINDOW_MS,
+  getPeColumnPattern,
+  buildNameToIsinMap,
+  extractCompanyName,
+  findClosestTimestamp,
+  parseSheetDate,
+} from './dataProcessor';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface SheetNullRate {
+  sheet: string;
+  rows: number;
+  columns: number;
+  nullCells: number;
+  nullRate: number; // 0-1
+}
+
+export interface WorkbookValidationReport {
+  canIngest: boolean; // false when required sheets are missing
+  missingSheets: string[];
+  extraSheets: string[];
+  unmatchedCompanyNames: string[];
+  isinsWithoutPeColumn: string[];
+  profitDatesOutsideWindow: Array<{
+    date: Date;
+    nearestProfitDate: Date | null;
+    gapDays: number | null;
+  }>;
+  invalidIsins: Array<{ isin: string; name: string | null }>;
+  sheetNullRates: SheetNullRate[];
+}
+
+/**
+ * Validate an ISIN's structure and ISO 6166 check digit.
+ * Letters are expanded to two digits (A=10 ... Z=35) and the Luhn algorithm
+ * is applied to the resulting digit string.
+ */
+export function isValidIsin(isin: string): boolean {
+  if (!/^[A-Z]{2}[A-Z0-9]{9}[0-9]$/.test(isin)) return false;
+
+  const digits = isin
+    .split('')
+    .map(ch => (ch >= 'A' && ch <= 'Z' ? (ch.charCodeAt(0) - 55).toString() : ch))
+    .join('');
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * A cell counts as null if it is empty or a Datastream placeholder ("NA", "?", "#N/A", ...)
+ */
+function isNullCell(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' || trimmed === '?' || trimmed === 'NA' || trimmed.startsWith('#');
+  }
+  if (typeof value === 'number') return isNaN(value);
+  return false;
+}
+
+/**
+ * Null rate over the data cells of a sheet (header row excluded)
+ */
+function computeSheetNullRate(sheetName: string, sheet: XLSX.WorkSheet): SheetNullRate {
+  const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: null });
+  const header = rows[0] || [];
+  const dataRows = rows.slice(1);
+  const columns = header.length;
+
+  let nullCells = 0;
+  for (const row of dataRows) {
+    for (let c = 0; c < columns; c++) {
+      if (isNullCell(row[c])) nullCells++;
+    }
+  }
+
+  const totalCells = dataRows.length * columns;
+  return {
+    sheet: sheetName,
+    rows: dataRows.length,
+    columns,
+    nullCells,
+    nullRate: totalCells > 0 ? nullCells / totalCells : 0,
+  };
+}
+
+/**
+ * Inspect a workbook without ingesting it and report everything that
+ * parseExcelFile/processClimateData would reject or silently drop.
+ */
+export function validateWorkbook(
+  buffer: Buffer,
+  mapping: ColumnMapping = DATASTREAM_COLUMN_MAPPING
+): WorkbookValidationReport {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const present = new Set(workbook.SheetNames);
+  const requiredNames = REQUIRED_SHEETS.map(logical => mapping.sheets[logical]);
+  const required = new Set<string>(requiredNames);
+  const optional = new Set<string>(OPTIONAL_SHEETS.map(logical => getOptionalSheetName(mapping, logical)));
+
+  const missingSheets = requiredNames.filter(name => !present.has(name));
+  const extraSheets = workbook.SheetNames.filter(name => !required.has(name) && !optional.has(name));
+
+  const readSheet = (name: string): any[] =>
+    present.has(name) ? XLSX.utils.sheet_to_json(workbook.Sheets[name]) : [];
+
+  const { date: dateColumn, isin: isinColumn, companyName: nameColumn } = mapping.columns;
+  const descriptive = readSheet(mapping.sheets.Descriptive);
+  const ri = readSheet(mapping.sheets.RI);
+  const pe = readSheet(mapping.sheets.PE);
+  const profit = readSheet(mapping.sheets.Profit);
+
+  // RI columns that don't resolve to an ISIN via the Descriptive sheet
+  const nameToIsin = buildNameToIsinMap(descriptive, mapping);
+  const riColumns = Object.keys(ri[0] || {}).filter(col => col !== dateColumn);
+  const unmatchedCompanyNames: string[] = [];
+  const matchedIsins = new Set<string>();
+  for (const col of riColumns) {
+    const companyName = extractCompanyName(col, mapping);
+    const isin = nameToIsin.get(companyName.toUpperCase());
+    if (isin) {
+      matchedIsins.add(isin);
+    } else {
+      unmatchedCompanyNames.push(companyName);
+    }
+  }
+
+  // Matched ISINs with no PE column
+  const peColumnPattern = getPeColumnPattern(mapping);
+  const peIsins = new Set<string>();
+  for (const col of Object.keys(pe[0] || {})) {
+    const match = col.match(peColumnPattern);
+    if (match) peIsins.add(match[1]);
+  }
+  const isinsWithoutPeColumn = Array.from(matchedIsins).filter(isin => !peIsins.has(isin)).sort();
+
+  // RI dates whose nearest profit row is outside the matching window
+  const profitTimestamps = profit
+    .map(row => parseSheetDate(row[dateColumn]))
+    .filter((d): d is Date => d !== null)
+    .map(d => d.getTime())
+    .sort((a, b) => a - b);
+
+  const profitDatesOutsideWindow: WorkbookValidationReport['profitDatesOutsideWindow'] = [];
+  for (const row of ri) {
+    const date = parseSheetDate(row[dateColumn]);
+    if (!date) continue;
+
+    const nearest = findClosestTimestamp(profitTimestamps, date.getTime());
+    const gap = nearest !== null ? Math.abs(nearest - date.getTime()) : null;
+    if (gap === null || gap > PROFIT_MATCH_WINDOW_MS) {
+      profitDatesOutsideWindow.push({
+        date,
+        nearestProfitDate: nearest !== null ? new Date(nearest) : null,
+        gapDays: gap !== null ? Math.round(gap / MS_PER_DAY) : null,
+      });
+    }
+  }
+
+  // ISIN check digits on the Descriptive sheet
+  const invalidIsins: WorkbookValidationReport['invalidIsins'] = [];
+  for (const row of descriptive) {
+    const isin = row[isinColumn];
+    if (!isin) continue;
+    if (!isValidIsin(String(isin).trim())) {
+      invalidIsins.push({ isin: String(isin), name: row[nameColumn] ?? null });
+    }
+  }
+
+  const sheetNullRates = workbook.SheetNames.map(name => computeSheetNullRate(name, workbook.Sheets[name]));
+
+  return {
+    canIngest: missingSheets.length === 0,
+    missingSheets,
+    extraSheets,
+    unmatchedCompanyNames,
+    isinsWithoutPeColumn,
+    profitDatesOutsideWindow,
+    invalidIsins,
+    sheetNullRates,
+  };
+}
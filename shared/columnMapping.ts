@@ -0,0 +1,112 @@
+/**
+ * Column-mapping profile: tells the ingest pipeline where to find each field
+ * in a workbook. The built-in Datastream layout is the default; saved profiles
+ * (column_mapping_profiles table) cover Bloomberg, Refinitiv and other exports.
+ */
+
+export const LOGICAL_SHEETS = [
+  "Descriptive",
+  "RI",
+  "MV",
+  "S1",
+  "S2",
+  "S3",
+  "PE",
+  "Profit",
+  "GreenRev",
+  "EmissionTargets",
+] as const;
+
+export type LogicalSheet = (typeof LOGICAL_SHEETS)[number];
+
+/** Sheets read only when present: revenue and EVIC intensity denominators */
+export const OPTIONAL_SHEETS = ["Revenue", "EVIC"] as const;
+
+export type OptionalSheet = (typeof OPTIONAL_SHEETS)[number];
+
+export interface ColumnMapping {
+  /** Actual sheet name for each logical sheet; profiles saved before the optional sheets existed lack them */
+  sheets: Record<LogicalSheet, string> & Partial<Record<OptionalSheet, string>>;
+  columns: {
+    /** Date column on the RI/MV/PE/Profit (and Revenue/EVIC) sheets */
+    date: string;
+    /** Descriptive sheet */
+    companyName: string;
+    isin: string;
+    geography: string;
+    sector: string;
+    industry: string;
+    /** ISIN column on the S1/S2/S3, GreenRev and EmissionTargets sheets */
+    issuerIsin: string;
+    sdgAlignmentScore: string;
+    emissionTarget2050: string;
+    /** Optional Descriptive column holding the fiscal year-end (month number, month name or date) */
+    fiscalYearEnd?: string;
+    /** Optional GreenRev/EmissionTargets column dating each score or target; allows one row per ISIN and date */
+    snapshotDate?: string;
+    /** Emissions column name; {scope} is 1/2/3 and {year} matches a two- or four-digit fiscal year */
+    emissionsTemplate: string;
+  };
+  /**
+   * Company columns on the wide sheets are "<company name><suffix>". The RI
+   * suffix is swapped for the MV/Profit (or Revenue/EVIC) suffix to find the
+   * matching column.
+   */
+  suffixes: {
+    totalReturn: string;
+    marketValue: string;
+    profit: string;
+    revenue?: string;
+    evic?: string;
+  };
+  /** Regex source for PE column headers; capture group 1 must be the ISIN */
+  peColumnPattern: string;
+  /**
+   * Regex source for GreenRev headers stored as company metrics (SDG
+   * alignment scores, green revenue shares); profiles saved before metrics
+   * existed lack it
+   */
+  metricColumnPattern?: string;
+}
+
+export const DATASTREAM_COLUMN_MAPPING: ColumnMapping = {
+  sheets: {
+    Descriptive: "Descriptive",
+    RI: "RI",
+    MV: "MV",
+    S1: "S1",
+    S2: "S2",
+    S3: "S3",
+    PE: "PE",
+    Profit: "Profit",
+    GreenRev: "GreenRev",
+    EmissionTargets: "EmissionTargets",
+    Revenue: "Revenue",
+    EVIC: "EVIC",
+  },
+  columns: {
+    date: "Name",
+    companyName: "NAME",
+    isin: "Type",
+    geography: "GEOGRAPHIC DESCR.",
+    sector: "LEVEL2 SECTOR NAME",
+    industry: "LEVEL3 SECTOR NAME",
+    issuerIsin: "ISSUER_ISIN",
+    sdgAlignmentScore: "SDG_07_NET_ALIGNMENT_SCORE",
+    emissionTarget2050: "TARGET_SUMMARY_CUM_CHANGE_2050",
+    fiscalYearEnd: "FISCAL YEAR END",
+    snapshotDate: "SNAPSHOT_DATE",
+    emissionsTemplate: "CARBON_EMISSIONS_SCOPE_{scope}_FY{year}",
+  },
+  suffixes: {
+    totalReturn: " - TOT RETURN IND",
+    marketValue: " - MARKET VAL BY CO.",
+    profit: " - FY2 INC MEAN EST",
+    revenue: " - NET SALES OR REVENUES",
+    evic: " - ENTERPRISE VALUE",
+  },
+  // PE column format: "ISIN(P)~U$/ISIN(F2MN)~U$"
+  peColumnPattern: "^([A-Z]{2}[A-Z0-9]{9}[0-9])\\(P\\)",
+  // SDG_01_NET_ALIGNMENT_SCORE ... SDG_17_NET_ALIGNMENT_SCORE and GREEN_REV* share columns
+  metricColumnPattern: "^SDG_\\d{2}_NET_ALIGNMENT_SCORE$|^GREEN_REV",
+};
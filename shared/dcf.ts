@@ -0,0 +1,37 @@
+/**
+ * DCF methodology inputs. Chosen on the Analysis page and stored with each
+ * analysis result; the valuation itself is in server/portfolioAnalyzerV2.ts.
+ */
+
+/**
+ * The carbon cost starts after `startDelay` years at the implied starting
+ * price, grows at `priceGrowthRate` a year for `horizon` years, and companies
+ * bear (1 - passThrough) of it.
+ */
+export interface DcfParameters {
+  discountRate: number;
+  horizon: number; // Years of carbon costs
+  startDelay: number; // Years before carbon costs start
+  priceGrowthRate: number; // Annual growth of the carbon price
+  passThrough: number; // Share of carbon cost passed on to customers (0-1)
+}
+
+export const DEFAULT_DCF_PARAMETERS: DcfParameters = {
+  discountRate: 0.08, // 8% WACC assumption
+  horizon: 30,
+  startDelay: 0,
+  priceGrowthRate: 0,
+  passThrough: 0,
+};
+
+/** Input bumps for DCF sensitivities: +1pp rates, +1 year, +10pp pass-through */
+export const DCF_SENSITIVITY_BUMPS: DcfParameters = {
+  discountRate: 0.01,
+  horizon: 1,
+  startDelay: 1,
+  priceGrowthRate: 0.01,
+  passThrough: 0.1,
+};
+
+/** Change in implied carbon price ($/tCO2) for each input bump */
+export type DcfSensitivities = Record<keyof DcfParameters, number>;
@@ -0,0 +1,21 @@
+/**
+ * Emissions gap-filling options, chosen on the Upload page and stored with
+ * each upload. The estimator itself is server/emissionsEstimator.ts.
+ */
+
+export interface EstimationOptions {
+  /** Linear interpolation between the reported values either side of a gap */
+  interpolate: boolean;
+  /** Repeat the last reported value, up to maxAgeMonths after it was observed */
+  carryForward: boolean;
+  maxAgeMonths: number;
+  /** Sector-median intensity on that date x the company's market cap */
+  sectorMedian: boolean;
+}
+
+export const DEFAULT_ESTIMATION_OPTIONS: EstimationOptions = {
+  interpolate: false,
+  carryForward: false,
+  maxAgeMonths: 24,
+  sectorMedian: false,
+};
@@ -0,0 +1,13 @@
+/**
+ * Fiscal years an upload has emissions for. Stored on data_uploads and shown
+ * on the Dashboard, so it lives here rather than in the ingest code.
+ */
+
+/**
+ * Fiscal years with at least one emissions column, per scope
+ */
+export interface FiscalYearsByScope {
+  scope1: number[];
+  scope2: number[];
+  scope3: number[];
+}
@@ -0,0 +1,30 @@
+/**
+ * Carbon intensity denominators. Market cap is the default; revenue gives
+ * WACI-style intensities and EVIC (enterprise value including cash) the
+ * PCAF-aligned measure, neither of which moves with the share price alone.
+ */
+
+export const INTENSITY_DENOMINATORS = ["market_cap", "revenue", "evic"] as const;
+
+export type IntensityDenominator = (typeof INTENSITY_DENOMINATORS)[number];
+
+export const DEFAULT_INTENSITY_DENOMINATOR: IntensityDenominator = "market_cap";
+
+export const INTENSITY_DENOMINATOR_LABELS: Record<IntensityDenominator, string> = {
+  market_cap: "Market cap",
+  revenue: "Revenue (WACI)",
+  evic: "EVIC (PCAF)",
+};
+
+/**
+ * Denominator value of a time series row; rows from before revenue and EVIC
+ * were ingested have neither
+ */
+export function intensityDenominatorValue(
+  ts: { marketCap: number | null; revenue?: number | null; evic?: number | null },
+  denominator: IntensityDenominator = DEFAULT_INTENSITY_DENOMINATOR
+): number | null {
+  if (denominator === "revenue") return ts.revenue ?? null;
+  if (denominator === "evic") return ts.evic ?? null;
+  return ts.marketCap;
+}
@@ -0,0 +1,81 @@
+/**
+ * Quantile buckets by ascending carbon intensity. Terciles (3) are the
+ * default; the low-carbon and high-carbon sides of every "low minus high"
+ * comparison can be any pair of buckets.
+ */
+
+export const QUANTILE_COUNTS = [2, 3, 4, 5, 10] as const;
+
+export type QuantileCount = (typeof QUANTILE_COUNTS)[number];
+
+export interface QuantileBuckets {
+  count: QuantileCount;
+  /** Bucket treated as low carbon (0 = lowest intensity) */
+  lowBucket: number;
+  /** Bucket treated as high carbon */
+  highBucket: number;
+}
+
+export const DEFAULT_QUANTILE_BUCKETS: QuantileBuckets = { count: 3, lowBucket: 0, highBucket: 2 };
+
+export const QUANTILE_NAMES: Record<QuantileCount, string> = {
+  2: "Half",
+  3: "Tercile",
+  4: "Quartile",
+  5: "Quintile",
+  10: "Decile",
+};
+
+/**
+ * Display label for a bucket, e.g. "Decile 10"
+ */
+export function bucketLabel(bucket: number, count: QuantileCount): string {
+  return `${QUANTILE_NAMES[count]} ${bucket + 1}`;
+}
+
+/**
+ * Bucket index for each position of an ascending-sorted list. Every bucket
+ * gets floor(n / count) items and the remainder goes to the interior buckets,
+ * so the outer buckets stay equal (with terciles: a larger middle). With two
+ * buckets an odd middle item has no interior bucket and is left unassigned.
+ */
+export function assignQuantileBuckets(n: number, count: number): (number | null)[] {
+  return Array.from({ length: n }, (_, rank) => quantileBucketAt(rank, n, count));
+}
+
+/**
+ * Bucket of the item at a 0-based rank in an ascending-sorted list of n, as
+ * assignQuantileBuckets assigns it. Stored intensity ranks are bucketed with
+ * this at read time, so any count works from one ranking; null when the item
+ * is unranked or is the unassigned middle item.
+ */
+export function quantileBucketAt(rank: number | null, n: number | null, count: number): number | null {
+  if (rank == null || n == null) return null;
+
+  const sizes = new Array<number>(count).fill(Math.floor(n / count));
+  const interior = count - 2;
+  for (let r = 0; r < n % count && interior > 0; r++) {
+    sizes[1 + (r % interior)]++;
+  }
+
+  let end = 0;
+  for (let bucket = 0; bucket < count; bucket++) {
+    end += sizes[bucket];
+    if (rank < end) return bucket;
+    // Two buckets only: the unassigned middle item sits between them
+    if (bucket === 0 && interior <= 0 && n % count > 0) {
+      end += n % count;
+      if (rank < end) return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Coarse bottom/middle/top label kept alongside the bucket index
+ */
+export function tercileAssignmentForBucket(bucket: number, count: number): "bottom" | "middle" | "top" {
+  if (bucket === 0) return "bottom";
+  if (bucket === count - 1) return "top";
+  return "middle";
+}
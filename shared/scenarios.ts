@@ -0,0 +1,56 @@
+/**
+ * Decarbonization scenarios: curves mapping an implied carbon price ($/tCO2)
+ * to an annual emission reduction rate. The built-in curve is the default;
+ * saved scenarios (decarbonization_scenarios table) hold NGFS pathways such
+ * as Net Zero 2050 or Delayed Transition, or custom curves.
+ */
+
+export interface ScenarioPoint {
+  /** $/tCO2 */
+  carbonPrice: number;
+  /** Annual reduction as a fraction, e.g. 0.04 = 4% a year */
+  decarbRate: number;
+}
+
+/** Points in ascending carbon price order */
+export type ScenarioCurve = ScenarioPoint[];
+
+export const MAX_SCENARIO_POINTS = 20;
+
+/**
+ * Built-in curve: $50 → 2%, $100 → 4%, $200 → 7%, held at 7% above $200
+ */
+export const DEFAULT_SCENARIO_CURVE: ScenarioCurve = [
+  { carbonPrice: 50, decarbRate: 0.02 },
+  { carbonPrice: 100, decarbRate: 0.04 },
+  { carbonPrice: 200, decarbRate: 0.07 },
+];
+
+export const DEFAULT_SCENARIO_NAME = "Built-in (piecewise linear)";
+
+/**
+ * Piecewise-linear rate for a carbon price: zero at or below $0, linear from
+ * the origin to the first point, flat beyond the last point
+ */
+export function interpolateDecarbRate(curve: ScenarioCurve, carbonPrice: number): number {
+  if (carbonPrice <= 0 || curve.length === 0) return 0;
+
+  let previous: ScenarioPoint = { carbonPrice: 0, decarbRate: 0 };
+  for (const point of curve) {
+    if (carbonPrice <= point.carbonPrice) {
+      const span = point.carbonPrice - previous.carbonPrice;
+      if (span <= 0) return point.decarbRate;
+      return previous.decarbRate + ((carbonPrice - previous.carbonPrice) / span) * (point.decarbRate - previous.decarbRate);
+    }
+    previous = point;
+  }
+
+  return previous.decarbRate;
+}
+
+/**
+ * Whether carbon prices are strictly increasing
+ */
+export function isAscendingCurve(curve: ScenarioCurve): boolean {
+  return curve.every((point, i) => i === 0 || point.carbonPrice > curve[i - 1].carbonPrice);
+}
@@ -0,0 +1,45 @@
+/**
+ * Solutions portfolio metrics. Workbook uploads keep every SDG alignment and
+ * green revenue share column of the GreenRev sheet as a company metric keyed
+ * by its column header. The solutions portfolio can rank a weighted sum of
+ * chosen metrics (e.g. SDG 7 + SDG 13, or green revenue share alone) in place
+ * of the SDG 7 alignment score, giving thematic solutions baskets.
+ */
+
+export const MAX_COMPOSITE_METRICS = 20;
+
+export interface MetricWeight {
+  metric: string; // Metric key (GreenRev column header)
+  weight: number;
+}
+
+/** Weighted metrics summed into the solutions score; empty ranks the SDG alignment score */
+export type SolutionsComposite = MetricWeight[];
+
+/**
+ * Weighted sum of a company's metric values; null when any weighted metric
+ * is missing, so companies are only ranked on the full composite
+ */
+export function compositeScore(
+  composite: SolutionsComposite,
+  valueOf: (metric: string) => number | null
+): number | null {
+  let score = 0;
+  for (const { metric, weight } of composite) {
+    if (weight === 0) continue;
+    const value = valueOf(metric);
+    if (value === null) return null;
+    score += weight * value;
+  }
+  return score;
+}
+
+/**
+ * Readable composite, e.g. "SDG_07_NET_ALIGNMENT_SCORE + 0.5 × SDG_13_NET_ALIGNMENT_SCORE"
+ */
+export function describeComposite(composite: SolutionsComposite): string {
+  if (composite.length === 0) return "SDG alignment score";
+  return composite
+    .map(({ metric, weight }) => (weight === 1 ? metric : `${weight} × ${metric}`))
+    .join(" + ");
+}